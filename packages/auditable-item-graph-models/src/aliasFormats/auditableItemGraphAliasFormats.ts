@@ -0,0 +1,274 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Is, StringHelper, Urn, type IValidationFailure } from "@twin.org/core";
+import { nameof } from "@twin.org/nameof";
+import { AliasFormatHandlerFactory } from "../factories/aliasFormatHandlerFactory";
+import { AliasFormat } from "../models/aliasFormat";
+
+/**
+ * Handle all the built-in alias formats for auditable item graph.
+ */
+export class AuditableItemGraphAliasFormats {
+	/**
+	 * Runtime name for the class.
+	 */
+	public static readonly CLASS_NAME: string = nameof<AuditableItemGraphAliasFormats>();
+
+	/**
+	 * The character values used when calculating an ISO 6346 check digit,
+	 * letters start at 10 and skip the multiples of 11.
+	 * @internal
+	 */
+	private static readonly _ISO6346_LETTER_VALUES: { [letter: string]: number } =
+		AuditableItemGraphAliasFormats.calculateIso6346LetterValues();
+
+	/**
+	 * Register all the alias format handlers.
+	 */
+	public static registerFormats(): void {
+		AliasFormatHandlerFactory.register(AliasFormat.Gtin, () => ({
+			format: AliasFormat.Gtin,
+			validate: (property, aliasId, failures) =>
+				AuditableItemGraphAliasFormats.validateGs1(
+					AliasFormat.Gtin,
+					[8, 12, 13, 14],
+					property,
+					aliasId,
+					failures
+				),
+			// All the GTIN lengths are stored as GTIN-14 so they can be matched with each other.
+			normalise: aliasId => aliasId.padStart(14, "0")
+		}));
+		AliasFormatHandlerFactory.register(AliasFormat.Sscc, () => ({
+			format: AliasFormat.Sscc,
+			validate: (property, aliasId, failures) =>
+				AuditableItemGraphAliasFormats.validateGs1(
+					AliasFormat.Sscc,
+					[18],
+					property,
+					aliasId,
+					failures
+				)
+		}));
+		AliasFormatHandlerFactory.register(AliasFormat.Gln, () => ({
+			format: AliasFormat.Gln,
+			validate: (property, aliasId, failures) =>
+				AuditableItemGraphAliasFormats.validateGs1(
+					AliasFormat.Gln,
+					[13],
+					property,
+					aliasId,
+					failures
+				)
+		}));
+		AliasFormatHandlerFactory.register(AliasFormat.Urn, () => ({
+			format: AliasFormat.Urn,
+			validate: (property, aliasId, failures) =>
+				AuditableItemGraphAliasFormats.validatePattern(
+					AliasFormat.Urn,
+					Is.object(Urn.tryParseExact(aliasId)),
+					property,
+					aliasId,
+					failures
+				)
+		}));
+		AliasFormatHandlerFactory.register(AliasFormat.Did, () => ({
+			format: AliasFormat.Did,
+			validate: (property, aliasId, failures) =>
+				AuditableItemGraphAliasFormats.validatePattern(
+					AliasFormat.Did,
+					/^did:[\da-z]+:(?:(?:[\w.-]|%[\dA-Fa-f]{2})*:)*(?:[\w.-]|%[\dA-Fa-f]{2})+$/.test(aliasId),
+					property,
+					aliasId,
+					failures
+				)
+		}));
+		AliasFormatHandlerFactory.register(AliasFormat.Uuid, () => ({
+			format: AliasFormat.Uuid,
+			validate: (property, aliasId, failures) =>
+				AuditableItemGraphAliasFormats.validatePattern(
+					AliasFormat.Uuid,
+					/^[\da-f]{8}(?:-[\da-f]{4}){3}-[\da-f]{12}$/i.test(aliasId),
+					property,
+					aliasId,
+					failures
+				),
+			normalise: aliasId => aliasId.toLowerCase()
+		}));
+		AliasFormatHandlerFactory.register(AliasFormat.Iso6346, () => ({
+			format: AliasFormat.Iso6346,
+			validate: (property, aliasId, failures) =>
+				AuditableItemGraphAliasFormats.validateIso6346(property, aliasId, failures),
+			normalise: aliasId => aliasId.toUpperCase()
+		}));
+	}
+
+	/**
+	 * Validate a GS1 identifier, which is all digits with a check digit at the end.
+	 * @param format The format being validated.
+	 * @param lengths The lengths allowed for the identifier.
+	 * @param property The name of the property being validated.
+	 * @param aliasId The id of the alias to validate.
+	 * @param failures The list of failures to add to.
+	 * @returns True if the id is valid.
+	 * @internal
+	 */
+	private static validateGs1(
+		format: AliasFormat,
+		lengths: number[],
+		property: string,
+		aliasId: string,
+		failures: IValidationFailure[]
+	): boolean {
+		if (
+			!AuditableItemGraphAliasFormats.validatePattern(
+				format,
+				/^\d+$/.test(aliasId) && lengths.includes(aliasId.length),
+				property,
+				aliasId,
+				failures
+			)
+		) {
+			return false;
+		}
+
+		// The digits are weighted 3 and 1 alternately, starting with 3 next to the check digit.
+		let sum = 0;
+		for (let i = aliasId.length - 2; i >= 0; i--) {
+			const weight = (aliasId.length - 2 - i) % 2 === 0 ? 3 : 1;
+			sum += Number.parseInt(aliasId[i], 10) * weight;
+		}
+
+		return AuditableItemGraphAliasFormats.validateCheckDigit(
+			format,
+			(10 - (sum % 10)) % 10,
+			property,
+			aliasId,
+			failures
+		);
+	}
+
+	/**
+	 * Validate an ISO 6346 container code, which is an owner code, category, serial number and check digit.
+	 * @param property The name of the property being validated.
+	 * @param aliasId The id of the alias to validate.
+	 * @param failures The list of failures to add to.
+	 * @returns True if the id is valid.
+	 * @internal
+	 */
+	private static validateIso6346(
+		property: string,
+		aliasId: string,
+		failures: IValidationFailure[]
+	): boolean {
+		const code = aliasId.toUpperCase();
+		if (
+			!AuditableItemGraphAliasFormats.validatePattern(
+				AliasFormat.Iso6346,
+				/^[A-Z]{3}[JUZ]\d{7}$/.test(code),
+				property,
+				aliasId,
+				failures
+			)
+		) {
+			return false;
+		}
+
+		// Each character is weighted by 2 to the power of its position.
+		let sum = 0;
+		for (let i = 0; i < 10; i++) {
+			const value =
+				AuditableItemGraphAliasFormats._ISO6346_LETTER_VALUES[code[i]] ??
+				Number.parseInt(code[i], 10);
+			const weight = 2 ** i;
+			sum += value * weight;
+		}
+
+		return AuditableItemGraphAliasFormats.validateCheckDigit(
+			AliasFormat.Iso6346,
+			(sum % 11) % 10,
+			property,
+			aliasId,
+			failures
+		);
+	}
+
+	/**
+	 * Add a failure if the alias id does not match the pattern for the format.
+	 * @param format The format being validated.
+	 * @param isMatch Whether the id matched the pattern for the format.
+	 * @param property The name of the property being validated.
+	 * @param aliasId The id of the alias being validated.
+	 * @param failures The list of failures to add to.
+	 * @returns True if the id matched.
+	 * @internal
+	 */
+	private static validatePattern(
+		format: string,
+		isMatch: boolean,
+		property: string,
+		aliasId: string,
+		failures: IValidationFailure[]
+	): boolean {
+		if (!isMatch) {
+			failures.push({
+				property,
+				reason: `validation.${StringHelper.camelCase(AuditableItemGraphAliasFormats.CLASS_NAME)}.formatInvalid`,
+				properties: {
+					format,
+					value: aliasId
+				}
+			});
+		}
+		return isMatch;
+	}
+
+	/**
+	 * Add a failure if the last digit of the alias id does not match the expected check digit.
+	 * @param format The format being validated.
+	 * @param checkDigit The expected check digit.
+	 * @param property The name of the property being validated.
+	 * @param aliasId The id of the alias being validated.
+	 * @param failures The list of failures to add to.
+	 * @returns True if the check digit matched.
+	 * @internal
+	 */
+	private static validateCheckDigit(
+		format: string,
+		checkDigit: number,
+		property: string,
+		aliasId: string,
+		failures: IValidationFailure[]
+	): boolean {
+		if (Number.parseInt(aliasId[aliasId.length - 1], 10) !== checkDigit) {
+			failures.push({
+				property,
+				reason: `validation.${StringHelper.camelCase(AuditableItemGraphAliasFormats.CLASS_NAME)}.checkDigitInvalid`,
+				properties: {
+					format,
+					value: aliasId,
+					checkDigit
+				}
+			});
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Calculate the values for the letters in an ISO 6346 container code.
+	 * @returns The value for each letter.
+	 * @internal
+	 */
+	private static calculateIso6346LetterValues(): { [letter: string]: number } {
+		const letterValues: { [letter: string]: number } = {};
+		let value = 10;
+		for (let i = 0; i < 26; i++) {
+			if (value % 11 === 0) {
+				value++;
+			}
+			letterValues[String.fromCharCode(65 + i)] = value++;
+		}
+		return letterValues;
+	}
+}
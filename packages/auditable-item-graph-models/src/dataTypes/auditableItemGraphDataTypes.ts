@@ -4,10 +4,20 @@ import { DataTypeHandlerFactory } from "@twin.org/data-core";
 import type { JSONSchema7 } from "json-schema";
 import { AuditableItemGraphTypes } from "../models/auditableItemGraphTypes";
 import AuditableItemGraphAliasSchema from "../schemas/AuditableItemGraphAlias.json";
+import AuditableItemGraphBlameSchema from "../schemas/AuditableItemGraphBlame.json";
+import AuditableItemGraphBlameEntrySchema from "../schemas/AuditableItemGraphBlameEntry.json";
 import AuditableItemGraphChangesetSchema from "../schemas/AuditableItemGraphChangeset.json";
+import AuditableItemGraphChangesetListSchema from "../schemas/AuditableItemGraphChangesetList.json";
+import AuditableItemGraphDiffSchema from "../schemas/AuditableItemGraphDiff.json";
+import AuditableItemGraphDiffSummarySchema from "../schemas/AuditableItemGraphDiffSummary.json";
 import AuditableItemGraphEdgeSchema from "../schemas/AuditableItemGraphEdge.json";
+import AuditableItemGraphEdgeListSchema from "../schemas/AuditableItemGraphEdgeList.json";
+import AuditableItemGraphExportSchema from "../schemas/AuditableItemGraphExport.json";
 import AuditableItemGraphPatchOperationSchema from "../schemas/AuditableItemGraphPatchOperation.json";
+import AuditableItemGraphPathSchema from "../schemas/AuditableItemGraphPath.json";
+import AuditableItemGraphPathEdgeSchema from "../schemas/AuditableItemGraphPathEdge.json";
 import AuditableItemGraphResourceSchema from "../schemas/AuditableItemGraphResource.json";
+import AuditableItemGraphVerificationBundleSchema from "../schemas/AuditableItemGraphVerificationBundle.json";
 import AuditableItemGraphVertexSchema from "../schemas/AuditableItemGraphVertex.json";
 import AuditableItemGraphVertexListSchema from "../schemas/AuditableItemGraphVertexList.json";
 
@@ -54,5 +64,55 @@ export class AuditableItemGraphDataTypes {
 			defaultValue: {},
 			jsonSchema: async () => AuditableItemGraphVertexListSchema as JSONSchema7
 		}));
+		DataTypeHandlerFactory.register(AuditableItemGraphTypes.EdgeList, () => ({
+			type: AuditableItemGraphTypes.EdgeList,
+			defaultValue: {},
+			jsonSchema: async () => AuditableItemGraphEdgeListSchema as JSONSchema7
+		}));
+		DataTypeHandlerFactory.register(AuditableItemGraphTypes.ChangesetList, () => ({
+			type: AuditableItemGraphTypes.ChangesetList,
+			defaultValue: {},
+			jsonSchema: async () => AuditableItemGraphChangesetListSchema as JSONSchema7
+		}));
+		DataTypeHandlerFactory.register(AuditableItemGraphTypes.Diff, () => ({
+			type: AuditableItemGraphTypes.Diff,
+			defaultValue: {},
+			jsonSchema: async () => AuditableItemGraphDiffSchema as JSONSchema7
+		}));
+		DataTypeHandlerFactory.register(AuditableItemGraphTypes.DiffSummary, () => ({
+			type: AuditableItemGraphTypes.DiffSummary,
+			defaultValue: {},
+			jsonSchema: async () => AuditableItemGraphDiffSummarySchema as JSONSchema7
+		}));
+		DataTypeHandlerFactory.register(AuditableItemGraphTypes.Blame, () => ({
+			type: AuditableItemGraphTypes.Blame,
+			defaultValue: {},
+			jsonSchema: async () => AuditableItemGraphBlameSchema as JSONSchema7
+		}));
+		DataTypeHandlerFactory.register(AuditableItemGraphTypes.BlameEntry, () => ({
+			type: AuditableItemGraphTypes.BlameEntry,
+			defaultValue: {},
+			jsonSchema: async () => AuditableItemGraphBlameEntrySchema as JSONSchema7
+		}));
+		DataTypeHandlerFactory.register(AuditableItemGraphTypes.Path, () => ({
+			type: AuditableItemGraphTypes.Path,
+			defaultValue: {},
+			jsonSchema: async () => AuditableItemGraphPathSchema as JSONSchema7
+		}));
+		DataTypeHandlerFactory.register(AuditableItemGraphTypes.PathEdge, () => ({
+			type: AuditableItemGraphTypes.PathEdge,
+			defaultValue: {},
+			jsonSchema: async () => AuditableItemGraphPathEdgeSchema as JSONSchema7
+		}));
+		DataTypeHandlerFactory.register(AuditableItemGraphTypes.Export, () => ({
+			type: AuditableItemGraphTypes.Export,
+			defaultValue: {},
+			jsonSchema: async () => AuditableItemGraphExportSchema as JSONSchema7
+		}));
+		DataTypeHandlerFactory.register(AuditableItemGraphTypes.VerificationBundle, () => ({
+			type: AuditableItemGraphTypes.VerificationBundle,
+			defaultValue: {},
+			jsonSchema: async () => AuditableItemGraphVerificationBundleSchema as JSONSchema7
+		}));
 	}
 }
@@ -0,0 +1,11 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Factory } from "@twin.org/core";
+import type { IAliasFormatHandler } from "../models/IAliasFormatHandler";
+
+/**
+ * Factory for creating handlers for alias formats.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const AliasFormatHandlerFactory =
+	Factory.createFactory<IAliasFormatHandler>("alias-format-handler");
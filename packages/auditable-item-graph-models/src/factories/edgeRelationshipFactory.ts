@@ -0,0 +1,11 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Factory } from "@twin.org/core";
+import type { IAuditableItemGraphEdgeRelationship } from "../models/IAuditableItemGraphEdgeRelationship";
+
+/**
+ * Factory for the relationships in the edge relationship vocabulary.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const EdgeRelationshipFactory =
+	Factory.createFactory<IAuditableItemGraphEdgeRelationship>("edge-relationship");
@@ -1,23 +1,88 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
+export * from "./aliasFormats/auditableItemGraphAliasFormats";
 export * from "./dataTypes/auditableItemGraphDataTypes";
+export * from "./factories/aliasFormatHandlerFactory";
+export * from "./factories/edgeRelationshipFactory";
+export * from "./models/aliasFormat";
+export * from "./models/aliasUniqueness";
+export * from "./models/api/IAuditableItemGraphAuditIntegrityResponse";
+export * from "./models/api/IAuditableItemGraphBatchResponse";
+export * from "./models/api/IAuditableItemGraphBlameRequest";
+export * from "./models/api/IAuditableItemGraphBlameResponse";
+export * from "./models/api/IAuditableItemGraphChangesetGetRequest";
+export * from "./models/api/IAuditableItemGraphChangesetGetResponse";
+export * from "./models/api/IAuditableItemGraphChangesetsRequest";
+export * from "./models/api/IAuditableItemGraphChangesetsResponse";
+export * from "./models/api/IAuditableItemGraphCreateManyRequest";
 export * from "./models/api/IAuditableItemGraphCreateRequest";
+export * from "./models/api/IAuditableItemGraphDiffRequest";
+export * from "./models/api/IAuditableItemGraphDiffResponse";
+export * from "./models/api/IAuditableItemGraphExportRequest";
+export * from "./models/api/IAuditableItemGraphExportResponse";
 export * from "./models/api/IAuditableItemGraphGetRequest";
 export * from "./models/api/IAuditableItemGraphGetResponse";
+export * from "./models/api/IAuditableItemGraphIncomingEdgesRequest";
+export * from "./models/api/IAuditableItemGraphIncomingEdgesResponse";
 export * from "./models/api/IAuditableItemGraphListRequest";
 export * from "./models/api/IAuditableItemGraphListResponse";
+export * from "./models/api/IAuditableItemGraphPatchRequest";
+export * from "./models/api/IAuditableItemGraphPathRequest";
+export * from "./models/api/IAuditableItemGraphPathResponse";
+export * from "./models/api/IAuditableItemGraphRemoveImmutableRequest";
+export * from "./models/api/IAuditableItemGraphRemoveImmutableResponse";
+export * from "./models/api/IAuditableItemGraphRemoveRequest";
+export * from "./models/api/IAuditableItemGraphResolveAliasRequest";
+export * from "./models/api/IAuditableItemGraphResolveAliasResponse";
+export * from "./models/api/IAuditableItemGraphRevertRequest";
+export * from "./models/api/IAuditableItemGraphTraverseRequest";
+export * from "./models/api/IAuditableItemGraphTraverseResponse";
+export * from "./models/api/IAuditableItemGraphUpdateManyRequest";
 export * from "./models/api/IAuditableItemGraphUpdateRequest";
+export * from "./models/api/IAuditableItemGraphVerificationBundleRequest";
+export * from "./models/api/IAuditableItemGraphVerificationBundleResponse";
 export * from "./models/auditableItemGraphTopics";
 export * from "./models/auditableItemGraphTypes";
+export * from "./models/changesetChainFailure";
+export * from "./models/edgeCardinality";
+export * from "./models/edgeDirection";
+export * from "./models/edgeIntegrity";
+export * from "./models/exportVerificationFailure";
 export * from "./models/eventBus/IAuditableItemGraphEventBusVertexCreated";
+export * from "./models/eventBus/IAuditableItemGraphEventBusVertexDeleted";
 export * from "./models/eventBus/IAuditableItemGraphEventBusVertexUpdated";
+export * from "./models/IAliasFormatHandler";
 export * from "./models/IAuditableItemGraphAlias";
 export * from "./models/IAuditableItemGraphAuditedElement";
+export * from "./models/IAuditableItemGraphBatchCreateItem";
+export * from "./models/IAuditableItemGraphBatchResult";
+export * from "./models/IAuditableItemGraphBatchUpdateItem";
+export * from "./models/IAuditableItemGraphBlame";
+export * from "./models/IAuditableItemGraphBlameEntry";
+export * from "./models/IAuditableItemGraphBundleVerification";
 export * from "./models/IAuditableItemGraphChangeset";
+export * from "./models/IAuditableItemGraphChangesetList";
 export * from "./models/IAuditableItemGraphComponent";
+export * from "./models/IAuditableItemGraphDanglingEdge";
+export * from "./models/IAuditableItemGraphDiff";
+export * from "./models/IAuditableItemGraphDiffSummary";
 export * from "./models/IAuditableItemGraphEdge";
+export * from "./models/IAuditableItemGraphEdgeList";
+export * from "./models/IAuditableItemGraphEdgeRelationship";
+export * from "./models/IAuditableItemGraphExport";
+export * from "./models/IAuditableItemGraphExportVerification";
+export * from "./models/IAuditableItemGraphPatchDocument";
 export * from "./models/IAuditableItemGraphPatchOperation";
+export * from "./models/IAuditableItemGraphPath";
+export * from "./models/IAuditableItemGraphPathEdge";
+export * from "./models/IAuditableItemGraphRemoveImmutableResult";
 export * from "./models/IAuditableItemGraphResource";
+export * from "./models/IAuditableItemGraphVerificationBundle";
+export * from "./models/IAuditableItemGraphVerificationBundleEntry";
 export * from "./models/IAuditableItemGraphVertex";
 export * from "./models/IAuditableItemGraphVertexList";
+export * from "./models/verificationBundleFailure";
 export * from "./models/verifyDepth";
+export * from "./relationships/auditableItemGraphRelationships";
+export * from "./verification/auditableItemGraphBundleVerifier";
+export * from "./verification/auditableItemGraphExportVerifier";
@@ -0,0 +1,29 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IValidationFailure } from "@twin.org/core";
+
+/**
+ * Handler for validating and normalising the ids of aliases with a specific format.
+ */
+export interface IAliasFormatHandler {
+	/**
+	 * The alias format the handler is for.
+	 */
+	format: string;
+
+	/**
+	 * Validate the id of an alias.
+	 * @param property The name of the property being validated.
+	 * @param aliasId The id of the alias to validate.
+	 * @param failures The list of failures to add to.
+	 * @returns True if the id is valid for the format.
+	 */
+	validate(property: string, aliasId: string, failures: IValidationFailure[]): boolean;
+
+	/**
+	 * Normalise a valid alias id, so that equivalent ids are stored and indexed the same.
+	 * @param aliasId The id of the alias to normalise.
+	 * @returns The normalised id.
+	 */
+	normalise?(aliasId: string): string;
+}
@@ -0,0 +1,47 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IJsonLdNodeObject } from "@twin.org/data-json-ld";
+
+/**
+ * Interface describing a vertex to create as part of a batch.
+ */
+export interface IAuditableItemGraphBatchCreateItem {
+	/**
+	 * A temporary reference for the vertex, which edges in the same batch can use to point at it.
+	 */
+	localId?: string;
+
+	/**
+	 * The annotation object for the vertex as JSON-LD.
+	 */
+	annotationObject?: IJsonLdNodeObject;
+
+	/**
+	 * Alternative aliases that can be used to identify the vertex.
+	 */
+	aliases?: {
+		id: string;
+		aliasFormat?: string;
+		annotationObject?: IJsonLdNodeObject;
+	}[];
+
+	/**
+	 * The resources attached to the vertex.
+	 */
+	resources?: {
+		id?: string;
+		resourceObject?: IJsonLdNodeObject;
+	}[];
+
+	/**
+	 * The edges connected to the vertex, either the id of an existing vertex or the local id of a vertex in the batch.
+	 */
+	edges?: {
+		id?: string;
+		localId?: string;
+		edgeRelationship: string;
+		annotationObject?: IJsonLdNodeObject;
+		bidirectional?: boolean;
+		inverseRelationship?: string;
+	}[];
+}
@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IError } from "@twin.org/core";
+
+/**
+ * Interface describing the result for a single item in a batch operation.
+ */
+export interface IAuditableItemGraphBatchResult {
+	/**
+	 * The id of the vertex, not set if the vertex could not be created.
+	 */
+	id?: string;
+
+	/**
+	 * The local id the vertex was given in the batch.
+	 */
+	localId?: string;
+
+	/**
+	 * The error if the item failed.
+	 */
+	error?: IError;
+}
@@ -0,0 +1,26 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+import type { IAuditableItemGraphBlameEntry } from "./IAuditableItemGraphBlameEntry";
+
+/**
+ * Interface describing which changeset last modified each property of a vertex.
+ */
+export interface IAuditableItemGraphBlame {
+	/**
+	 * JSON-LD Context.
+	 */
+	"@context":
+		| typeof AuditableItemGraphTypes.ContextRoot
+		| [typeof AuditableItemGraphTypes.ContextRoot, ...string[]];
+
+	/**
+	 * JSON-LD Type.
+	 */
+	type: typeof AuditableItemGraphTypes.Blame;
+
+	/**
+	 * The entries for each property of the vertex.
+	 */
+	entries: IAuditableItemGraphBlameEntry[];
+}
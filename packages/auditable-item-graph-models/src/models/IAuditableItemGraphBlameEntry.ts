@@ -0,0 +1,33 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+
+/**
+ * Interface describing the changeset which last modified a property of a vertex.
+ */
+export interface IAuditableItemGraphBlameEntry {
+	/**
+	 * JSON-LD Type.
+	 */
+	type: typeof AuditableItemGraphTypes.BlameEntry;
+
+	/**
+	 * The JSON pointer to the property in the vertex, with the deleted elements removed as get returns it.
+	 */
+	pointer: string;
+
+	/**
+	 * The id of the changeset which last modified the property.
+	 */
+	changesetId: string;
+
+	/**
+	 * The identity of the user who created the changeset.
+	 */
+	userIdentity: string;
+
+	/**
+	 * The date/time of when the changeset was created.
+	 */
+	dateCreated: string;
+}
@@ -0,0 +1,39 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { ChangesetChainFailure } from "./changesetChainFailure";
+import type { VerificationBundleFailure } from "./verificationBundleFailure";
+
+/**
+ * Interface describing the result of verifying a verification bundle.
+ */
+export interface IAuditableItemGraphBundleVerification {
+	/**
+	 * Whether all the changesets in the bundle were verified.
+	 */
+	verified: boolean;
+
+	/**
+	 * The verification for each changeset in the same order as the bundle.
+	 */
+	changesets: {
+		/**
+		 * The id of the changeset.
+		 */
+		changesetId: string;
+
+		/**
+		 * Whether the changeset was verified.
+		 */
+		verified: boolean;
+
+		/**
+		 * Why the changeset failed verification.
+		 */
+		failure?: VerificationBundleFailure;
+
+		/**
+		 * Why the link to the previous changeset failed verification.
+		 */
+		chainFailure?: ChangesetChainFailure;
+	}[];
+}
@@ -2,6 +2,7 @@
 // SPDX-License-Identifier: Apache-2.0.
 import type { IImmutableProofVerification } from "@twin.org/immutable-proof-models";
 import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+import type { ChangesetChainFailure } from "./changesetChainFailure";
 import type { IAuditableItemGraphPatchOperation } from "./IAuditableItemGraphPatchOperation";
 
 /**
@@ -40,6 +41,16 @@ export interface IAuditableItemGraphChangeset {
 	 */
 	patches: IAuditableItemGraphPatchOperation[];
 
+	/**
+	 * The id of the changeset this one follows, not set for the first changeset of the vertex.
+	 */
+	previousChangesetId?: string;
+
+	/**
+	 * The hash of the proof object of the previous changeset, so the changeset commits to its predecessor.
+	 */
+	previousChangesetHash?: string;
+
 	/**
 	 * The immutable proof id which contains the signature for this changeset.
 	 */
@@ -49,4 +60,9 @@ export interface IAuditableItemGraphChangeset {
 	 * The verification for the changeset.
 	 */
 	verification?: IImmutableProofVerification;
+
+	/**
+	 * The reason the link to the previous changeset failed verification.
+	 */
+	chainFailure?: ChangesetChainFailure;
 }
@@ -0,0 +1,31 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+import type { IAuditableItemGraphChangeset } from "./IAuditableItemGraphChangeset";
+
+/**
+ * Interface describing an auditable item graph changeset list.
+ */
+export interface IAuditableItemGraphChangesetList {
+	/**
+	 * JSON-LD Context.
+	 */
+	"@context":
+		| typeof AuditableItemGraphTypes.ContextRoot
+		| [typeof AuditableItemGraphTypes.ContextRoot, ...string[]];
+
+	/**
+	 * JSON-LD Type.
+	 */
+	type: typeof AuditableItemGraphTypes.ChangesetList;
+
+	/**
+	 * The list of changesets in the order they were created.
+	 */
+	changesets: IAuditableItemGraphChangeset[];
+
+	/**
+	 * The cursor to get the next chunk of changesets.
+	 */
+	cursor?: string;
+}
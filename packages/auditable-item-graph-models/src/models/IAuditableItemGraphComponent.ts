@@ -1,8 +1,23 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
-import type { IComponent } from "@twin.org/core";
+import type { IComponent, IPatchOperation } from "@twin.org/core";
 import type { IJsonLdNodeObject } from "@twin.org/data-json-ld";
 import type { IComparator, SortDirection } from "@twin.org/entity";
+import type { EdgeDirection } from "./edgeDirection";
+import type { IAuditableItemGraphBatchCreateItem } from "./IAuditableItemGraphBatchCreateItem";
+import type { IAuditableItemGraphBatchResult } from "./IAuditableItemGraphBatchResult";
+import type { IAuditableItemGraphBatchUpdateItem } from "./IAuditableItemGraphBatchUpdateItem";
+import type { IAuditableItemGraphBlame } from "./IAuditableItemGraphBlame";
+import type { IAuditableItemGraphChangeset } from "./IAuditableItemGraphChangeset";
+import type { IAuditableItemGraphChangesetList } from "./IAuditableItemGraphChangesetList";
+import type { IAuditableItemGraphDanglingEdge } from "./IAuditableItemGraphDanglingEdge";
+import type { IAuditableItemGraphDiff } from "./IAuditableItemGraphDiff";
+import type { IAuditableItemGraphEdgeList } from "./IAuditableItemGraphEdgeList";
+import type { IAuditableItemGraphExport } from "./IAuditableItemGraphExport";
+import type { IAuditableItemGraphPatchDocument } from "./IAuditableItemGraphPatchDocument";
+import type { IAuditableItemGraphPath } from "./IAuditableItemGraphPath";
+import type { IAuditableItemGraphRemoveImmutableResult } from "./IAuditableItemGraphRemoveImmutableResult";
+import type { IAuditableItemGraphVerificationBundle } from "./IAuditableItemGraphVerificationBundle";
 import type { IAuditableItemGraphVertex } from "./IAuditableItemGraphVertex";
 import type { IAuditableItemGraphVertexList } from "./IAuditableItemGraphVertexList";
 import type { VerifyDepth } from "./verifyDepth";
@@ -16,10 +31,13 @@ export interface IAuditableItemGraphComponent extends IComponent {
 	 * @param annotationObject The annotation object for the vertex as JSON-LD.
 	 * @param aliases Alternative aliases that can be used to identify the vertex.
 	 * @param resources The resources attached to the vertex.
-	 * @param edges The edges connected to the vertex.
+	 * @param edges The edges connected to the vertex, a bidirectional edge or one with an inverse relationship also maintains the matching edge on the target vertex.
 	 * @param userIdentity The identity to create the auditable item graph operation with.
 	 * @param nodeIdentity The node identity to use for vault operations.
+	 * @param options Additional options for the create operation.
+	 * @param options.idempotencyKey A key which makes repeating the same create by the same user return the original vertex.
 	 * @returns The id of the new graph item.
+	 * @throws ConflictError if the idempotency key was used with a different request.
 	 */
 	create(
 		annotationObject?: IJsonLdNodeObject,
@@ -36,9 +54,14 @@ export interface IAuditableItemGraphComponent extends IComponent {
 			id: string;
 			edgeRelationship: string;
 			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
 		}[],
 		userIdentity?: string,
-		nodeIdentity?: string
+		nodeIdentity?: string,
+		options?: {
+			idempotencyKey?: string;
+		}
 	): Promise<string>;
 
 	/**
@@ -47,10 +70,13 @@ export interface IAuditableItemGraphComponent extends IComponent {
 	 * @param annotationObject The annotation object for the vertex as JSON-LD.
 	 * @param aliases Alternative aliases that can be used to identify the vertex.
 	 * @param resources The resources attached to the vertex.
-	 * @param edges The edges connected to the vertex.
+	 * @param edges The edges connected to the vertex, a bidirectional edge or one with an inverse relationship also maintains the matching edge on the target vertex.
 	 * @param userIdentity The identity to create the auditable item graph operation with.
 	 * @param nodeIdentity The node identity to use for vault operations.
+	 * @param options Additional options for the update operation.
+	 * @param options.expectedRevision The revision the vertex must be at for the update to be applied.
 	 * @returns Nothing.
+	 * @throws ConflictError if the vertex is not at the expected revision.
 	 */
 	update(
 		id: string,
@@ -68,18 +94,50 @@ export interface IAuditableItemGraphComponent extends IComponent {
 			id: string;
 			edgeRelationship: string;
 			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
 		}[],
 		userIdentity?: string,
-		nodeIdentity?: string
+		nodeIdentity?: string,
+		options?: {
+			expectedRevision?: number;
+		}
 	): Promise<void>;
 
+	/**
+	 * Create many graph vertices, all the items are validated before any of the vertices are created.
+	 * @param items The vertices to create, edges can reference other items in the batch using their local id.
+	 * @param userIdentity The identity to create the auditable item graph operation with.
+	 * @param nodeIdentity The node identity to use for vault operations.
+	 * @returns The result for each item in the same order as the items.
+	 */
+	createMany(
+		items: IAuditableItemGraphBatchCreateItem[],
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<IAuditableItemGraphBatchResult[]>;
+
+	/**
+	 * Update many graph vertices, all the items are validated before any of the vertices are updated.
+	 * @param items The vertices to update.
+	 * @param userIdentity The identity to create the auditable item graph operation with.
+	 * @param nodeIdentity The node identity to use for vault operations.
+	 * @returns The result for each item in the same order as the items.
+	 */
+	updateMany(
+		items: IAuditableItemGraphBatchUpdateItem[],
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<IAuditableItemGraphBatchResult[]>;
+
 	/**
 	 * Get a graph vertex.
 	 * @param id The id of the vertex to get.
 	 * @param options Additional options for the get operation.
-	 * @param options.includeDeleted Whether to include deleted aliases, resource, edges, defaults to false.
+	 * @param options.includeDeleted Whether to include a deleted vertex and its deleted aliases, resource, edges, defaults to false.
 	 * @param options.includeChangesets Whether to include the changesets of the vertex, defaults to false.
 	 * @param options.verifySignatureDepth How many signatures to verify, defaults to "none".
+	 * @param options.asOf The date time or changeset id to reconstruct the vertex at, defaults to the current state.
 	 * @returns The vertex if found.
 	 * @throws NotFoundError if the vertex is not found.
 	 */
@@ -89,23 +147,44 @@ export interface IAuditableItemGraphComponent extends IComponent {
 			includeDeleted?: boolean;
 			includeChangesets?: boolean;
 			verifySignatureDepth?: VerifyDepth;
+			asOf?: string;
 		}
 	): Promise<IAuditableItemGraphVertex>;
 
 	/**
-	 * Remove the immutable storage for an item.
-	 * @param id The id of the vertex to remove the storage from.
+	 * Remove a graph vertex, the vertex is marked as deleted and the removal is recorded as a changeset.
+	 * @param id The id of the vertex to remove.
+	 * @param userIdentity The identity to create the auditable item graph operation with.
 	 * @param nodeIdentity The node identity to use for vault operations.
 	 * @returns Nothing.
 	 * @throws NotFoundError if the vertex is not found.
 	 */
-	removeImmutable(id: string, nodeIdentity?: string): Promise<void>;
+	remove(id: string, userIdentity?: string, nodeIdentity?: string): Promise<void>;
+
+	/**
+	 * Remove the immutable storage for an item, a failure for one changeset does not stop the others being removed.
+	 * @param id The id of the vertex to remove the storage from.
+	 * @param userIdentity The identity removing the storage, which must be the node or the user who created the vertex.
+	 * @param nodeIdentity The node identity to use for vault operations.
+	 * @returns The outcome for each changeset of the vertex.
+	 * @throws NotFoundError if the vertex is not found.
+	 * @throws UnauthorizedError if the user is neither the node nor the user who created the vertex.
+	 */
+	removeImmutable(
+		id: string,
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<IAuditableItemGraphRemoveImmutableResult[]>;
 
 	/**
 	 * Query the graph for vertices.
 	 * @param options The query options.
 	 * @param options.id The optional id to look for.
 	 * @param options.idMode Look in id, alias or both, defaults to both.
+	 * @param options.includeDeleted Whether to include deleted vertices, defaults to false.
+	 * @param options.aliasMatch How to match the aliases, includes matches part of an alias, exact matches the whole alias, defaults to includes.
+	 * @param options.aliasCaseSensitive Whether an exact alias match is case sensitive, defaults to false.
+	 * @param options.aliasFormat Only match aliases with this format when using an exact alias match.
 	 * @param conditions Conditions to use in the query.
 	 * @param orderBy The order for the results, defaults to dateCreated.
 	 * @param orderByDirection The direction for the order, defaults to descending.
@@ -118,6 +197,10 @@ export interface IAuditableItemGraphComponent extends IComponent {
 		options?: {
 			id?: string;
 			idMode?: "id" | "alias" | "both";
+			includeDeleted?: boolean;
+			aliasMatch?: "includes" | "exact";
+			aliasCaseSensitive?: boolean;
+			aliasFormat?: string;
 		},
 		conditions?: IComparator[],
 		orderBy?: keyof Pick<IAuditableItemGraphVertex, "dateCreated" | "dateModified">,
@@ -126,4 +209,208 @@ export interface IAuditableItemGraphComponent extends IComponent {
 		cursor?: string,
 		pageSize?: number
 	): Promise<IAuditableItemGraphVertexList>;
+
+	/**
+	 * Get the edges from other vertices which point at the vertex.
+	 * @param id The id of the vertex to get the incoming edges for.
+	 * @param options Additional options for the operation.
+	 * @param options.includeDeleted Whether to include deleted edges, defaults to false.
+	 * @param options.edgeRelationships The relationships to filter the edges by, defaults to all.
+	 * @param options.cursor The cursor to request the next page of edges.
+	 * @param options.pageSize The maximum number of edges in a page.
+	 * @returns The edges, the id of each edge is the vertex it originates from.
+	 */
+	getIncomingEdges(
+		id: string,
+		options?: {
+			includeDeleted?: boolean;
+			edgeRelationships?: string[];
+			cursor?: string;
+			pageSize?: number;
+		}
+	): Promise<IAuditableItemGraphEdgeList>;
+
+	/**
+	 * Traverse the graph starting from a vertex and return the subgraph reached.
+	 * @param startId The id of the vertex to start the traversal from.
+	 * @param options Additional options for the traversal.
+	 * @param options.direction The direction to follow the edges, defaults to outgoing.
+	 * @param options.maxDepth The maximum number of edges to follow from the start vertex, defaults to 1, at most 10.
+	 * @param options.edgeRelationships The relationships of the edges to follow, defaults to all.
+	 * @param options.includeResources Whether to include the resources of the vertices, defaults to false.
+	 * @returns The vertices in the subgraph, including the start vertex.
+	 * @throws NotFoundError if the start vertex is not found.
+	 */
+	traverse(
+		startId: string,
+		options?: {
+			direction?: EdgeDirection;
+			maxDepth?: number;
+			edgeRelationships?: string[];
+			includeResources?: boolean;
+		}
+	): Promise<IAuditableItemGraphVertexList>;
+
+	/**
+	 * Find the shortest path between two vertices.
+	 * @param fromId The id of the vertex to start the path from.
+	 * @param toId The id of the vertex to find the path to.
+	 * @param options Additional options for finding the path.
+	 * @param options.edgeRelationships The relationships of the edges which can be followed, defaults to all.
+	 * @param options.maxHops The maximum number of edges on the path, defaults to 10, at most 50.
+	 * @param options.direction The direction to follow the edges, defaults to outgoing.
+	 * @returns The path between the vertices, connected is false if there is no path.
+	 * @throws NotFoundError if the from vertex is not found.
+	 */
+	findPath(
+		fromId: string,
+		toId: string,
+		options?: {
+			edgeRelationships?: string[];
+			maxHops?: number;
+			direction?: EdgeDirection;
+		}
+	): Promise<IAuditableItemGraphPath>;
+
+	/**
+	 * Get the changesets for a vertex in the order they were created.
+	 * @param id The id of the vertex to get the changesets for.
+	 * @param options Additional options for the operation.
+	 * @param options.cursor The cursor to request the next page of changesets.
+	 * @param options.pageSize The maximum number of changesets in a page.
+	 * @param options.from Only include changesets created on or after this date time.
+	 * @param options.to Only include changesets created on or before this date time.
+	 * @param options.userIdentity Only include changesets created by this user identity.
+	 * @param options.verify Whether to verify the signatures of the changesets and the links between them, defaults to false.
+	 * @returns The changesets and a cursor if there are more.
+	 * @throws NotFoundError if the vertex is not found.
+	 */
+	getChangesets(
+		id: string,
+		options?: {
+			cursor?: string;
+			pageSize?: number;
+			from?: string;
+			to?: string;
+			userIdentity?: string;
+			verify?: boolean;
+		}
+	): Promise<IAuditableItemGraphChangesetList>;
+
+	/**
+	 * Get a single changeset using the id it was given in its proof.
+	 * @param changesetId The id of the changeset in the form aig:<vertex>:changeset:<changeset>.
+	 * @param options Additional options for the operation.
+	 * @param options.verify Whether to verify the signature of the changeset, defaults to false.
+	 * @returns The changeset.
+	 * @throws NotFoundError if the changeset is not found.
+	 */
+	getChangeset(
+		changesetId: string,
+		options?: {
+			verify?: boolean;
+		}
+	): Promise<IAuditableItemGraphChangeset>;
+
+	/**
+	 * Get the differences between two versions of a vertex.
+	 * @param id The id of the vertex to get the differences for.
+	 * @param from The date time or changeset id of the version to compare from.
+	 * @param to The date time or changeset id of the version to compare to, defaults to the current state.
+	 * @returns The patches between the versions and a summary of the changes.
+	 * @throws NotFoundError if the vertex or a changeset is not found.
+	 */
+	diff(id: string, from: string, to?: string): Promise<IAuditableItemGraphDiff>;
+
+	/**
+	 * Revert a vertex to the state it was in after a previous changeset, the revert is recorded as a new changeset.
+	 * @param id The id of the vertex to revert.
+	 * @param toChangesetId The id of the changeset to revert the vertex to.
+	 * @param userIdentity The identity to create the auditable item graph operation with.
+	 * @param nodeIdentity The node identity to use for vault operations.
+	 * @returns Nothing.
+	 * @throws NotFoundError if the vertex or changeset is not found.
+	 */
+	revert(
+		id: string,
+		toChangesetId: string,
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<void>;
+
+	/**
+	 * Get the changeset which last modified each property of a vertex.
+	 * @param id The id of the vertex to get the blame for.
+	 * @returns The JSON pointer of each property with the changeset which last modified it.
+	 * @throws NotFoundError if the vertex is not found.
+	 */
+	blame(id: string): Promise<IAuditableItemGraphBlame>;
+
+	/**
+	 * Partially update a graph vertex, the patch is applied to the vertex in the form of a patch document.
+	 * @param id The id of the vertex to update.
+	 * @param operations Either RFC 6902 JSON patch operations or an RFC 7396 merge patch document.
+	 * @param userIdentity The identity to create the auditable item graph operation with.
+	 * @param nodeIdentity The node identity to use for vault operations.
+	 * @param options Additional options for the patch operation.
+	 * @param options.expectedRevision The revision the vertex must be at for the patch to be applied.
+	 * @returns Nothing.
+	 * @throws NotFoundError if the vertex is not found.
+	 * @throws ConflictError if the vertex is not at the expected revision.
+	 */
+	patch(
+		id: string,
+		operations: IPatchOperation[] | IAuditableItemGraphPatchDocument,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: {
+			expectedRevision?: number;
+		}
+	): Promise<void>;
+
+	/**
+	 * Resolve an alias to the vertex which uses it.
+	 * @param alias The alias to resolve.
+	 * @param aliasFormat The format of the alias, defaults to any format.
+	 * @returns The id of the vertex which uses the alias.
+	 * @throws NotFoundError if no vertex uses the alias.
+	 * @throws ConflictError if more than one vertex uses the alias.
+	 */
+	resolveAlias(alias: string, aliasFormat?: string): Promise<string>;
+
+	/**
+	 * Audit the integrity of the graph by finding the edges of active vertices which point at missing or deleted vertices.
+	 * @returns The dangling edges.
+	 */
+	auditIntegrity(): Promise<IAuditableItemGraphDanglingEdge[]>;
+
+	/**
+	 * Export the subgraph starting from a vertex as a single JSON-LD dataset, which can be verified without access to the node.
+	 * @param rootId The id of the vertex to start the export from.
+	 * @param options Additional options for the export.
+	 * @param options.depth The maximum number of edges to follow from the root vertex, defaults to 1, at most 10.
+	 * @param options.relationships The relationships of the edges to follow, defaults to all.
+	 * @param options.includeChangesets Whether to include the changesets of the vertices, defaults to true.
+	 * @param options.includeProofs Whether to include the immutable proofs of the changesets, defaults to true.
+	 * @returns The subgraph as a JSON-LD dataset.
+	 * @throws NotFoundError if the root vertex is not found.
+	 */
+	exportSubgraph(
+		rootId: string,
+		options?: {
+			depth?: number;
+			relationships?: string[];
+			includeChangesets?: boolean;
+			includeProofs?: boolean;
+		}
+	): Promise<IAuditableItemGraphExport>;
+
+	/**
+	 * Get the verification bundle for a vertex, which contains its changesets, the reduced changeset JSON-LD each
+	 * proof was created for and the immutable proofs, so the changesets can be verified without access to the node.
+	 * @param id The id of the vertex to get the verification bundle for.
+	 * @returns The verification bundle.
+	 * @throws NotFoundError if the vertex is not found.
+	 */
+	getVerificationBundle(id: string): Promise<IAuditableItemGraphVerificationBundle>;
 }
@@ -0,0 +1,27 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Interface describing an edge which points at a vertex that does not exist or has been deleted.
+ */
+export interface IAuditableItemGraphDanglingEdge {
+	/**
+	 * The id of the vertex the edge belongs to.
+	 */
+	vertexId: string;
+
+	/**
+	 * The id of the edge, which is the vertex it points at.
+	 */
+	edgeId: string;
+
+	/**
+	 * The relationship of the edge.
+	 */
+	edgeRelationship: string;
+
+	/**
+	 * Why the edge is dangling, the target vertex is either missing or deleted.
+	 */
+	reason: "missing" | "deleted";
+}
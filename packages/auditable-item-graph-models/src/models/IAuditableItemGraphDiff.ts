@@ -0,0 +1,47 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+import type { IAuditableItemGraphDiffSummary } from "./IAuditableItemGraphDiffSummary";
+import type { IAuditableItemGraphPatchOperation } from "./IAuditableItemGraphPatchOperation";
+
+/**
+ * Interface describing the differences between two versions of a vertex.
+ */
+export interface IAuditableItemGraphDiff {
+	/**
+	 * JSON-LD Context.
+	 */
+	"@context":
+		| typeof AuditableItemGraphTypes.ContextRoot
+		| [typeof AuditableItemGraphTypes.ContextRoot, ...string[]];
+
+	/**
+	 * JSON-LD Type.
+	 */
+	type: typeof AuditableItemGraphTypes.Diff;
+
+	/**
+	 * The patches which transform the from version of the vertex in to the to version.
+	 */
+	patches: IAuditableItemGraphPatchOperation[];
+
+	/**
+	 * Whether the annotation object of the vertex was modified.
+	 */
+	annotationObjectModified: boolean;
+
+	/**
+	 * The changes to the aliases.
+	 */
+	aliases: IAuditableItemGraphDiffSummary;
+
+	/**
+	 * The changes to the resources.
+	 */
+	resources: IAuditableItemGraphDiffSummary;
+
+	/**
+	 * The changes to the edges.
+	 */
+	edges: IAuditableItemGraphDiffSummary;
+}
@@ -0,0 +1,28 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+
+/**
+ * Interface describing the changes to a list of vertex elements between two versions.
+ */
+export interface IAuditableItemGraphDiffSummary {
+	/**
+	 * JSON-LD Type.
+	 */
+	type: typeof AuditableItemGraphTypes.DiffSummary;
+
+	/**
+	 * The ids of the elements which were added.
+	 */
+	added: string[];
+
+	/**
+	 * The ids of the elements which were removed.
+	 */
+	removed: string[];
+
+	/**
+	 * The ids of the elements which were modified.
+	 */
+	modified: string[];
+}
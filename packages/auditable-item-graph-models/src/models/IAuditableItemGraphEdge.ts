@@ -34,4 +34,9 @@ export interface IAuditableItemGraphEdge extends IAuditableItemGraphAuditedEleme
 	 * The relationship between the two vertices.
 	 */
 	edgeRelationship: string;
+
+	/**
+	 * The relationship of the matching edge maintained on the target vertex.
+	 */
+	inverseRelationship?: string;
 }
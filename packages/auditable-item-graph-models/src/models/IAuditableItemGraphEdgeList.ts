@@ -0,0 +1,31 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+import type { IAuditableItemGraphEdge } from "./IAuditableItemGraphEdge";
+
+/**
+ * Interface describing an auditable item graph edge list.
+ */
+export interface IAuditableItemGraphEdgeList {
+	/**
+	 * JSON-LD Context.
+	 */
+	"@context":
+		| typeof AuditableItemGraphTypes.ContextRoot
+		| [typeof AuditableItemGraphTypes.ContextRoot, ...string[]];
+
+	/**
+	 * JSON-LD Type.
+	 */
+	type: typeof AuditableItemGraphTypes.EdgeList;
+
+	/**
+	 * The list of edges, the id of each edge is the vertex at the other end of the edge.
+	 */
+	edges: IAuditableItemGraphEdge[];
+
+	/**
+	 * The cursor to get the next chunk of edges.
+	 */
+	cursor?: string;
+}
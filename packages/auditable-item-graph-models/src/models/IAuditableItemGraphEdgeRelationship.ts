@@ -0,0 +1,38 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { EdgeCardinality } from "./edgeCardinality";
+
+/**
+ * Interface describing a relationship in the edge relationship vocabulary.
+ */
+export interface IAuditableItemGraphEdgeRelationship {
+	/**
+	 * The JSON-LD term for the relationship, used as the edgeRelationship of edges.
+	 */
+	term: string;
+
+	/**
+	 * The term for the relationship in the opposite direction.
+	 */
+	inverse?: string;
+
+	/**
+	 * The annotation types the source vertex must have one of, defaults to any type.
+	 */
+	sourceTypes?: string[];
+
+	/**
+	 * The annotation types the target vertex must have one of, defaults to any type.
+	 */
+	targetTypes?: string[];
+
+	/**
+	 * How many vertices can be at each end of the relationship, defaults to many-to-many.
+	 */
+	cardinality?: EdgeCardinality;
+
+	/**
+	 * Whether edges with the relationship must not form a cycle, defaults to false.
+	 */
+	acyclic?: boolean;
+}
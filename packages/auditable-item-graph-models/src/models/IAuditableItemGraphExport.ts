@@ -0,0 +1,39 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IImmutableProof } from "@twin.org/immutable-proof-models";
+import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+import type { IAuditableItemGraphChangeset } from "./IAuditableItemGraphChangeset";
+import type { IAuditableItemGraphVertex } from "./IAuditableItemGraphVertex";
+
+/**
+ * Interface describing an export of an auditable item graph subgraph as a single JSON-LD dataset.
+ */
+export interface IAuditableItemGraphExport {
+	/**
+	 * JSON-LD Context.
+	 */
+	"@context":
+		| typeof AuditableItemGraphTypes.ContextRoot
+		| [typeof AuditableItemGraphTypes.ContextRoot, ...string[]];
+
+	/**
+	 * JSON-LD Type.
+	 */
+	type: typeof AuditableItemGraphTypes.Export;
+
+	/**
+	 * The id of the vertex the export started from.
+	 */
+	rootId: string;
+
+	/**
+	 * The date/time of when the export was created.
+	 */
+	dateCreated: string;
+
+	/**
+	 * The vertices in the subgraph, followed by their changesets and the immutable proofs for the changesets,
+	 * each changeset has the full id its proof was created for.
+	 */
+	"@graph": (IAuditableItemGraphVertex | IAuditableItemGraphChangeset | IImmutableProof)[];
+}
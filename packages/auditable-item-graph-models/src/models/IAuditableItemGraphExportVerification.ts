@@ -0,0 +1,44 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { ExportVerificationFailure } from "./exportVerificationFailure";
+import type { IAuditableItemGraphBundleVerification } from "./IAuditableItemGraphBundleVerification";
+
+/**
+ * Interface describing the result of verifying an export.
+ */
+export interface IAuditableItemGraphExportVerification {
+	/**
+	 * Whether the root vertex and all the vertices in the export were verified.
+	 */
+	verified: boolean;
+
+	/**
+	 * Why the export failed verification, if the failure is not for one of its vertices.
+	 */
+	failure?: ExportVerificationFailure;
+
+	/**
+	 * The verification for each vertex in the same order as the export.
+	 */
+	vertices: {
+		/**
+		 * The id of the vertex.
+		 */
+		vertexId: string;
+
+		/**
+		 * Whether the vertex was verified.
+		 */
+		verified: boolean;
+
+		/**
+		 * Why the vertex failed verification.
+		 */
+		failure?: ExportVerificationFailure;
+
+		/**
+		 * The verification for each changeset of the vertex.
+		 */
+		changesets: IAuditableItemGraphBundleVerification["changesets"];
+	}[];
+}
@@ -0,0 +1,44 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IJsonLdNodeObject } from "@twin.org/data-json-ld";
+
+/**
+ * The document which partial updates of a vertex are applied to, the elements are keyed by their id
+ * so that individual elements can be targeted, in a merge patch a null value removes the property.
+ */
+export interface IAuditableItemGraphPatchDocument {
+	/**
+	 * The annotation object for the vertex as JSON-LD.
+	 */
+	annotationObject?: IJsonLdNodeObject | null;
+
+	/**
+	 * The aliases that can be used to identify the vertex keyed by their id.
+	 */
+	aliases?: {
+		[id: string]: {
+			aliasFormat?: string;
+			annotationObject?: IJsonLdNodeObject;
+		} | null;
+	} | null;
+
+	/**
+	 * The resources attached to the vertex keyed by their id.
+	 */
+	resources?: {
+		[id: string]: {
+			resourceObject?: IJsonLdNodeObject;
+		} | null;
+	} | null;
+
+	/**
+	 * The edges connected to the vertex keyed by the id of the vertex they point at.
+	 */
+	edges?: {
+		[id: string]: {
+			edgeRelationship: string;
+			annotationObject?: IJsonLdNodeObject;
+			inverseRelationship?: string;
+		} | null;
+	} | null;
+}
@@ -0,0 +1,36 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+import type { IAuditableItemGraphPathEdge } from "./IAuditableItemGraphPathEdge";
+
+/**
+ * Interface describing a path between two auditable item graph vertices.
+ */
+export interface IAuditableItemGraphPath {
+	/**
+	 * JSON-LD Context.
+	 */
+	"@context":
+		| typeof AuditableItemGraphTypes.ContextRoot
+		| [typeof AuditableItemGraphTypes.ContextRoot, ...string[]];
+
+	/**
+	 * JSON-LD Type.
+	 */
+	type: typeof AuditableItemGraphTypes.Path;
+
+	/**
+	 * Whether the vertices are connected, if not the vertices and edges are empty.
+	 */
+	connected: boolean;
+
+	/**
+	 * The ids of the vertices on the path in order, starting with the from vertex.
+	 */
+	vertices: string[];
+
+	/**
+	 * The edges on the path in order, each one joins a vertex to the next one on the path.
+	 */
+	edges: IAuditableItemGraphPathEdge[];
+}
@@ -0,0 +1,28 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+
+/**
+ * Interface describing an edge on a path between auditable item graph vertices.
+ */
+export interface IAuditableItemGraphPathEdge {
+	/**
+	 * JSON-LD Type.
+	 */
+	type: typeof AuditableItemGraphTypes.PathEdge;
+
+	/**
+	 * The id of the vertex the edge originates from.
+	 */
+	sourceId: string;
+
+	/**
+	 * The id of the vertex the edge points at.
+	 */
+	targetId: string;
+
+	/**
+	 * The relationship of the edge.
+	 */
+	edgeRelationship: string;
+}
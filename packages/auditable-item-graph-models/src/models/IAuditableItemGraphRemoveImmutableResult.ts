@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IError } from "@twin.org/core";
+
+/**
+ * Interface describing the outcome of removing the immutable storage for a changeset.
+ */
+export interface IAuditableItemGraphRemoveImmutableResult {
+	/**
+	 * The id of the changeset.
+	 */
+	changesetId: string;
+
+	/**
+	 * Whether the immutable storage was removed by the operation, false if it had already been removed or failed.
+	 */
+	removed: boolean;
+
+	/**
+	 * The error if removing the immutable storage failed.
+	 */
+	error?: IError;
+}
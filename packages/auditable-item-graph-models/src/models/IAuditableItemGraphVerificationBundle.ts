@@ -0,0 +1,46 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { AuditableItemGraphTypes } from "./auditableItemGraphTypes";
+import type { IAuditableItemGraphVerificationBundleEntry } from "./IAuditableItemGraphVerificationBundleEntry";
+
+/**
+ * Interface describing the changesets and proofs of a vertex, which can be verified without access to the node.
+ */
+export interface IAuditableItemGraphVerificationBundle {
+	/**
+	 * JSON-LD Context.
+	 */
+	"@context":
+		| typeof AuditableItemGraphTypes.ContextRoot
+		| [typeof AuditableItemGraphTypes.ContextRoot, ...string[]];
+
+	/**
+	 * JSON-LD Type.
+	 */
+	type: typeof AuditableItemGraphTypes.VerificationBundle;
+
+	/**
+	 * The id of the vertex the changesets belong to.
+	 */
+	vertexId: string;
+
+	/**
+	 * The date/time of when the bundle was created.
+	 */
+	dateCreated: string;
+
+	/**
+	 * The changesets of the vertex in the order they were created.
+	 */
+	entries: IAuditableItemGraphVerificationBundleEntry[];
+
+	/**
+	 * The id of the last changeset of the vertex, which the last entry must be.
+	 */
+	lastChangesetId?: string;
+
+	/**
+	 * The hash of the proof object of the last changeset of the vertex.
+	 */
+	lastChangesetHash?: string;
+}
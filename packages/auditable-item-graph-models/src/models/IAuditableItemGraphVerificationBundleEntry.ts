@@ -0,0 +1,24 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IImmutableProof } from "@twin.org/immutable-proof-models";
+import type { IAuditableItemGraphChangeset } from "./IAuditableItemGraphChangeset";
+
+/**
+ * Interface describing a changeset in a verification bundle, with everything needed to verify its proof.
+ */
+export interface IAuditableItemGraphVerificationBundleEntry {
+	/**
+	 * The changeset.
+	 */
+	changeset: IAuditableItemGraphChangeset;
+
+	/**
+	 * The reduced changeset JSON-LD the immutable proof was created for.
+	 */
+	proofObject: IAuditableItemGraphChangeset;
+
+	/**
+	 * The immutable proof for the changeset, if it has one.
+	 */
+	immutableProof?: IImmutableProof;
+}
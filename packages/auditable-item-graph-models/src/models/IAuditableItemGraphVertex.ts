@@ -35,6 +35,11 @@ export interface IAuditableItemGraphVertex
 	 */
 	nodeIdentity?: string;
 
+	/**
+	 * The revision of the vertex, incremented each time a changeset is applied.
+	 */
+	revision?: number;
+
 	/**
 	 * The JSON-LD annotation object for the vertex.
 	 */
@@ -0,0 +1,48 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The alias formats which have built-in handlers.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const AliasFormat = {
+	/**
+	 * GS1 Global Trade Item Number, GTIN-8, GTIN-12, GTIN-13 or GTIN-14.
+	 */
+	Gtin: "gtin",
+
+	/**
+	 * GS1 Serial Shipping Container Code.
+	 */
+	Sscc: "sscc",
+
+	/**
+	 * GS1 Global Location Number.
+	 */
+	Gln: "gln",
+
+	/**
+	 * Uniform Resource Name.
+	 */
+	Urn: "urn",
+
+	/**
+	 * Decentralized Identifier.
+	 */
+	Did: "did",
+
+	/**
+	 * Universally Unique Identifier.
+	 */
+	Uuid: "uuid",
+
+	/**
+	 * ISO 6346 freight container code.
+	 */
+	Iso6346: "iso6346"
+} as const;
+
+/**
+ * The alias formats which have built-in handlers.
+ */
+export type AliasFormat = (typeof AliasFormat)[keyof typeof AliasFormat];
@@ -0,0 +1,28 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * How the uniqueness of aliases is enforced across the graph.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const AliasUniqueness = {
+	/**
+	 * Aliases do not have to be unique.
+	 */
+	None: "none",
+
+	/**
+	 * An alias id can only be used by one vertex.
+	 */
+	Global: "global",
+
+	/**
+	 * An alias id can only be used by one vertex for each alias format.
+	 */
+	Format: "format"
+} as const;
+
+/**
+ * How the uniqueness of aliases is enforced across the graph.
+ */
+export type AliasUniqueness = (typeof AliasUniqueness)[keyof typeof AliasUniqueness];
@@ -0,0 +1,13 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IAuditableItemGraphDanglingEdge } from "../IAuditableItemGraphDanglingEdge";
+
+/**
+ * Response to auditing the integrity of the edges in the auditable item graph.
+ */
+export interface IAuditableItemGraphAuditIntegrityResponse {
+	/**
+	 * The edges which point at vertices that are missing or deleted.
+	 */
+	body: IAuditableItemGraphDanglingEdge[];
+}
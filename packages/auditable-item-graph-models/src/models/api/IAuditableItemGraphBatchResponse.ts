@@ -0,0 +1,13 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IAuditableItemGraphBatchResult } from "../IAuditableItemGraphBatchResult";
+
+/**
+ * Response to a batch operation on auditable item graph vertices.
+ */
+export interface IAuditableItemGraphBatchResponse {
+	/**
+	 * The result for each item in the same order as the request.
+	 */
+	body: IAuditableItemGraphBatchResult[];
+}
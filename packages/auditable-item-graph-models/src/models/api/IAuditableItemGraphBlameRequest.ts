@@ -0,0 +1,25 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+
+/**
+ * Get the changeset which last modified each property of a vertex.
+ */
+export interface IAuditableItemGraphBlameRequest {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.Accept]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The parameters from the path.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to get the blame for.
+		 */
+		id: string;
+	};
+}
@@ -0,0 +1,21 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+import type { IAuditableItemGraphBlame } from "../IAuditableItemGraphBlame";
+
+/**
+ * The response to getting the changeset which last modified each property of a vertex.
+ */
+export interface IAuditableItemGraphBlameResponse {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.ContentType]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The response payload, the blame for the vertex.
+	 */
+	body: IAuditableItemGraphBlame;
+}
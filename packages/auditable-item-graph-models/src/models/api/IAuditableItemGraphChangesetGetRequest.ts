@@ -0,0 +1,40 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+
+/**
+ * Get a single changeset for a vertex.
+ */
+export interface IAuditableItemGraphChangesetGetRequest {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.Accept]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The parameters from the path.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex the changeset belongs to.
+		 */
+		id: string;
+
+		/**
+		 * The id of the changeset to get.
+		 */
+		changesetId: string;
+	};
+
+	/**
+	 * The query parameters.
+	 */
+	query?: {
+		/**
+		 * Whether to verify the signature of the changeset, defaults to false.
+		 */
+		verify?: boolean;
+	};
+}
@@ -0,0 +1,21 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+import type { IAuditableItemGraphChangeset } from "../IAuditableItemGraphChangeset";
+
+/**
+ * The response to getting a single changeset for a vertex.
+ */
+export interface IAuditableItemGraphChangesetGetResponse {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.ContentType]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The response payload, the changeset.
+	 */
+	body: IAuditableItemGraphChangeset;
+}
@@ -0,0 +1,60 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+
+/**
+ * Get the changesets for a vertex.
+ */
+export interface IAuditableItemGraphChangesetsRequest {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.Accept]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The parameters from the path.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to get the changesets for.
+		 */
+		id: string;
+	};
+
+	/**
+	 * The query parameters.
+	 */
+	query?: {
+		/**
+		 * The optional cursor to get next chunk.
+		 */
+		cursor?: string;
+
+		/**
+		 * The maximum number of entities in a page.
+		 */
+		pageSize?: number;
+
+		/**
+		 * Only include changesets created on or after this date time.
+		 */
+		from?: string;
+
+		/**
+		 * Only include changesets created on or before this date time.
+		 */
+		to?: string;
+
+		/**
+		 * Only include changesets created by this user identity.
+		 */
+		userIdentity?: string;
+
+		/**
+		 * Whether to verify the signatures of the changesets and the links between them, defaults to false.
+		 */
+		verify?: boolean;
+	};
+}
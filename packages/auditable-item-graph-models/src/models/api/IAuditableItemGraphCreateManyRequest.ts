@@ -0,0 +1,13 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IAuditableItemGraphBatchCreateItem } from "../IAuditableItemGraphBatchCreateItem";
+
+/**
+ * Create many auditable item graph vertices.
+ */
+export interface IAuditableItemGraphCreateManyRequest {
+	/**
+	 * The vertices to create.
+	 */
+	body: IAuditableItemGraphBatchCreateItem[];
+}
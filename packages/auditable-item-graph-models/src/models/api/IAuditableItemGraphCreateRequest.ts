@@ -6,6 +6,16 @@ import type { IJsonLdNodeObject } from "@twin.org/data-json-ld";
  * Create an auditable item graph vertex.
  */
 export interface IAuditableItemGraphCreateRequest {
+	/**
+	 * The headers which can be used to make repeating the request safe.
+	 */
+	headers?: {
+		/**
+		 * A key which makes repeating the same create by the same user return the original vertex.
+		 */
+		"idempotency-key"?: string;
+	};
+
 	/**
 	 * The data to be used in the vertex.
 	 */
@@ -39,6 +49,8 @@ export interface IAuditableItemGraphCreateRequest {
 			id: string;
 			edgeRelationship: string;
 			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
 		}[];
 	};
 }
@@ -0,0 +1,40 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+
+/**
+ * Get the differences between two versions of a vertex.
+ */
+export interface IAuditableItemGraphDiffRequest {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.Accept]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The parameters from the path.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to get the differences for.
+		 */
+		id: string;
+	};
+
+	/**
+	 * The query parameters.
+	 */
+	query: {
+		/**
+		 * The date time or changeset id of the version to compare from.
+		 */
+		from: string;
+
+		/**
+		 * The date time or changeset id of the version to compare to, defaults to the current state.
+		 */
+		to?: string;
+	};
+}
@@ -0,0 +1,21 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+import type { IAuditableItemGraphDiff } from "../IAuditableItemGraphDiff";
+
+/**
+ * The response to getting the differences between two versions of a vertex.
+ */
+export interface IAuditableItemGraphDiffResponse {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.ContentType]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The response payload, the differences between the versions.
+	 */
+	body: IAuditableItemGraphDiff;
+}
@@ -0,0 +1,50 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+
+/**
+ * Export the subgraph starting from a vertex.
+ */
+export interface IAuditableItemGraphExportRequest {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.Accept]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The parameters from the path.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to start the export from.
+		 */
+		id: string;
+	};
+
+	/**
+	 * The query parameters.
+	 */
+	query?: {
+		/**
+		 * The maximum number of edges to follow from the root vertex, defaults to 1, at most 10.
+		 */
+		depth?: number;
+
+		/**
+		 * The relationships of the edges to follow as a comma separated list, defaults to all.
+		 */
+		relationships?: string;
+
+		/**
+		 * Whether to include the changesets of the vertices, defaults to true.
+		 */
+		includeChangesets?: boolean;
+
+		/**
+		 * Whether to include the immutable proofs of the changesets, defaults to true.
+		 */
+		includeProofs?: boolean;
+	};
+}
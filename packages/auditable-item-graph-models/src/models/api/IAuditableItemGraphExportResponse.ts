@@ -0,0 +1,21 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+import type { IAuditableItemGraphExport } from "../IAuditableItemGraphExport";
+
+/**
+ * The response to exporting the subgraph starting from a vertex.
+ */
+export interface IAuditableItemGraphExportResponse {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.ContentType]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The response payload, the subgraph as a JSON-LD dataset.
+	 */
+	body: IAuditableItemGraphExport;
+}
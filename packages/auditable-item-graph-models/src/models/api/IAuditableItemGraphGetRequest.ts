@@ -29,7 +29,7 @@ export interface IAuditableItemGraphGetRequest {
 	 */
 	query?: {
 		/**
-		 * Whether to include deleted aliases, resource, edges, defaults to false.
+		 * Whether to include a deleted vertex and its deleted aliases, resource, edges, defaults to false.
 		 */
 		includeDeleted?: boolean;
 
@@ -42,5 +42,10 @@ export interface IAuditableItemGraphGetRequest {
 		 * How many signatures to verify, none, current or all, defaults to "none".
 		 */
 		verifySignatureDepth?: VerifyDepth;
+
+		/**
+		 * The date time or changeset id to reconstruct the vertex at, defaults to the current state.
+		 */
+		asOf?: string;
 	};
 }
@@ -12,6 +12,11 @@ export interface IAuditableItemGraphGetResponse {
 	 */
 	headers?: {
 		[HeaderTypes.ContentType]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+
+		/**
+		 * The revision of the vertex, which can be used in the if-match header of an update.
+		 */
+		etag?: string;
 	};
 
 	/**
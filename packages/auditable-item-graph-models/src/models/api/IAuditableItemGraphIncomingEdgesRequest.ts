@@ -0,0 +1,50 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+
+/**
+ * Get the edges from other vertices which point at a vertex.
+ */
+export interface IAuditableItemGraphIncomingEdgesRequest {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.Accept]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The parameters from the path.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to get the incoming edges for.
+		 */
+		id: string;
+	};
+
+	/**
+	 * The query parameters.
+	 */
+	query?: {
+		/**
+		 * Whether to include deleted edges, defaults to false.
+		 */
+		includeDeleted?: boolean;
+
+		/**
+		 * The relationships to filter the edges by as a comma separated list.
+		 */
+		edgeRelationships?: string;
+
+		/**
+		 * The optional cursor to get next chunk.
+		 */
+		cursor?: string;
+
+		/**
+		 * The maximum number of entities in a page.
+		 */
+		pageSize?: number;
+	};
+}
@@ -29,6 +29,26 @@ export interface IAuditableItemGraphListRequest {
 		 */
 		idMode?: "id" | "alias" | "both";
 
+		/**
+		 * Whether to include deleted vertices, defaults to false.
+		 */
+		includeDeleted?: boolean;
+
+		/**
+		 * How to match the aliases, includes matches part of an alias, exact matches the whole alias, defaults to includes.
+		 */
+		aliasMatch?: "includes" | "exact";
+
+		/**
+		 * Whether an exact alias match is case sensitive, defaults to false.
+		 */
+		aliasCaseSensitive?: boolean;
+
+		/**
+		 * Only match aliases with this format when using an exact alias match.
+		 */
+		aliasFormat?: string;
+
 		/**
 		 * The conditions to filter the streams, JSON stringified IComparator[].
 		 */
@@ -0,0 +1,34 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IPatchOperation } from "@twin.org/core";
+import type { IAuditableItemGraphPatchDocument } from "../IAuditableItemGraphPatchDocument";
+
+/**
+ * Partially update an auditable item graph vertex.
+ */
+export interface IAuditableItemGraphPatchRequest {
+	/**
+	 * The headers which can be used to apply the patch only if the vertex has not changed.
+	 */
+	headers?: {
+		/**
+		 * The etag of the vertex the patch is based on.
+		 */
+		"if-match"?: string;
+	};
+
+	/**
+	 * The path parameters.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to update.
+		 */
+		id: string;
+	};
+
+	/**
+	 * Either RFC 6902 JSON patch operations or an RFC 7396 merge patch document.
+	 */
+	body: IPatchOperation[] | IAuditableItemGraphPatchDocument;
+}
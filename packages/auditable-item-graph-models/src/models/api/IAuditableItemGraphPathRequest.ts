@@ -0,0 +1,51 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+import type { EdgeDirection } from "../edgeDirection";
+
+/**
+ * Find a path between two vertices.
+ */
+export interface IAuditableItemGraphPathRequest {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.Accept]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The parameters from the path.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to start the path from.
+		 */
+		id: string;
+	};
+
+	/**
+	 * The query parameters.
+	 */
+	query: {
+		/**
+		 * The id of the vertex to find the path to.
+		 */
+		toId: string;
+
+		/**
+		 * The relationships of the edges which can be followed as a comma separated list, defaults to all.
+		 */
+		edgeRelationships?: string;
+
+		/**
+		 * The maximum number of edges on the path, defaults to 10, at most 50.
+		 */
+		maxHops?: number;
+
+		/**
+		 * The direction to follow the edges, defaults to outgoing.
+		 */
+		direction?: EdgeDirection;
+	};
+}
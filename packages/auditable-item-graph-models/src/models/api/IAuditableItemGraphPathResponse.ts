@@ -0,0 +1,21 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+import type { IAuditableItemGraphPath } from "../IAuditableItemGraphPath";
+
+/**
+ * The response to finding a path between two vertices.
+ */
+export interface IAuditableItemGraphPathResponse {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.ContentType]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The response payload, the path between the vertices.
+	 */
+	body: IAuditableItemGraphPath;
+}
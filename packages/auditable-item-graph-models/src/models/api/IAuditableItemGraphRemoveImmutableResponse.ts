@@ -0,0 +1,13 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IAuditableItemGraphRemoveImmutableResult } from "../IAuditableItemGraphRemoveImmutableResult";
+
+/**
+ * Response to removing the immutable storage for an auditable item graph vertex.
+ */
+export interface IAuditableItemGraphRemoveImmutableResponse {
+	/**
+	 * The outcome for each changeset of the vertex.
+	 */
+	body: IAuditableItemGraphRemoveImmutableResult[];
+}
@@ -0,0 +1,17 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Remove an auditable item graph vertex.
+ */
+export interface IAuditableItemGraphRemoveRequest {
+	/**
+	 * The path parameters.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to remove.
+		 */
+		id: string;
+	};
+}
@@ -0,0 +1,27 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Resolve an alias to the auditable item graph vertex which uses it.
+ */
+export interface IAuditableItemGraphResolveAliasRequest {
+	/**
+	 * The path parameters.
+	 */
+	pathParams: {
+		/**
+		 * The alias to resolve.
+		 */
+		alias: string;
+	};
+
+	/**
+	 * The query parameters.
+	 */
+	query?: {
+		/**
+		 * The format of the alias, defaults to any format.
+		 */
+		aliasFormat?: string;
+	};
+}
@@ -0,0 +1,17 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Response to resolving an alias to an auditable item graph vertex.
+ */
+export interface IAuditableItemGraphResolveAliasResponse {
+	/**
+	 * The response body.
+	 */
+	body: {
+		/**
+		 * The id of the vertex which uses the alias.
+		 */
+		id: string;
+	};
+}
@@ -0,0 +1,27 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Revert an auditable item graph vertex to a previous version.
+ */
+export interface IAuditableItemGraphRevertRequest {
+	/**
+	 * The path parameters.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to revert.
+		 */
+		id: string;
+	};
+
+	/**
+	 * The version to revert the vertex to.
+	 */
+	body: {
+		/**
+		 * The id of the changeset to revert the vertex to.
+		 */
+		changesetId: string;
+	};
+}
@@ -0,0 +1,51 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+import type { EdgeDirection } from "../edgeDirection";
+
+/**
+ * Traverse the graph starting from a vertex.
+ */
+export interface IAuditableItemGraphTraverseRequest {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.Accept]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The parameters from the path.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to start the traversal from.
+		 */
+		id: string;
+	};
+
+	/**
+	 * The query parameters.
+	 */
+	query?: {
+		/**
+		 * The direction to follow the edges, defaults to outgoing.
+		 */
+		direction?: EdgeDirection;
+
+		/**
+		 * The maximum number of edges to follow from the start vertex, defaults to 1, at most 10.
+		 */
+		maxDepth?: number;
+
+		/**
+		 * The relationships of the edges to follow as a comma separated list, defaults to all.
+		 */
+		edgeRelationships?: string;
+
+		/**
+		 * Whether to include the resources of the vertices, defaults to false.
+		 */
+		includeResources?: boolean;
+	};
+}
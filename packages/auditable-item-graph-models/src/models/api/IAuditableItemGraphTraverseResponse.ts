@@ -0,0 +1,21 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { HeaderTypes, MimeTypes } from "@twin.org/web";
+import type { IAuditableItemGraphVertexList } from "../IAuditableItemGraphVertexList";
+
+/**
+ * The response to traversing the graph starting from a vertex.
+ */
+export interface IAuditableItemGraphTraverseResponse {
+	/**
+	 * The headers which can be used to determine the response data type.
+	 */
+	headers?: {
+		[HeaderTypes.ContentType]: typeof MimeTypes.Json | typeof MimeTypes.JsonLd;
+	};
+
+	/**
+	 * The response payload, the vertices in the subgraph.
+	 */
+	body: IAuditableItemGraphVertexList;
+}
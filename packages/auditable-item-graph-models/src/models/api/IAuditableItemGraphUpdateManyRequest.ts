@@ -0,0 +1,13 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IAuditableItemGraphBatchUpdateItem } from "../IAuditableItemGraphBatchUpdateItem";
+
+/**
+ * Update many auditable item graph vertices.
+ */
+export interface IAuditableItemGraphUpdateManyRequest {
+	/**
+	 * The vertices to update.
+	 */
+	body: IAuditableItemGraphBatchUpdateItem[];
+}
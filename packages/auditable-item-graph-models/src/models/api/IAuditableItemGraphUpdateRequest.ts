@@ -6,6 +6,16 @@ import type { IJsonLdNodeObject } from "@twin.org/data-json-ld";
  * Update an auditable item graph vertex.
  */
 export interface IAuditableItemGraphUpdateRequest {
+	/**
+	 * The headers which can be used to apply the update only if the vertex has not changed.
+	 */
+	headers?: {
+		/**
+		 * The etag of the vertex the update is based on.
+		 */
+		"if-match"?: string;
+	};
+
 	/**
 	 * The path parameters.
 	 */
@@ -49,6 +59,8 @@ export interface IAuditableItemGraphUpdateRequest {
 			id: string;
 			edgeRelationship: string;
 			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
 		}[];
 	};
 }
@@ -0,0 +1,17 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Get the verification bundle for a vertex.
+ */
+export interface IAuditableItemGraphVerificationBundleRequest {
+	/**
+	 * The parameters from the path.
+	 */
+	pathParams: {
+		/**
+		 * The id of the vertex to get the verification bundle for.
+		 */
+		id: string;
+	};
+}
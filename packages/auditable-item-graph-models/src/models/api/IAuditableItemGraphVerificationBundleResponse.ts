@@ -0,0 +1,13 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IAuditableItemGraphVerificationBundle } from "../IAuditableItemGraphVerificationBundle";
+
+/**
+ * The response to getting the verification bundle for a vertex.
+ */
+export interface IAuditableItemGraphVerificationBundleResponse {
+	/**
+	 * The response payload.
+	 */
+	body: IAuditableItemGraphVerificationBundle;
+}
@@ -14,7 +14,12 @@ export const AuditableItemGraphTopics = {
 	/**
 	 * A vertex was updated.
 	 */
-	VertexUpdated: "auditable-item-graph:vertex-updated"
+	VertexUpdated: "auditable-item-graph:vertex-updated",
+
+	/**
+	 * A vertex was deleted.
+	 */
+	VertexDeleted: "auditable-item-graph:vertex-deleted"
 } as const;
 
 /**
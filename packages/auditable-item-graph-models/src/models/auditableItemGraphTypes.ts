@@ -11,6 +11,11 @@ export const AuditableItemGraphTypes = {
 	 */
 	ContextRoot: "https://schema.twindev.org/aig/",
 
+	/**
+	 * The context for the terms in the edge relationship vocabulary.
+	 */
+	ContextRelationships: "https://schema.twindev.org/aig/relationships",
+
 	/**
 	 * Represents auditable item graph vertex.
 	 */
@@ -44,7 +49,57 @@ export const AuditableItemGraphTypes = {
 	/**
 	 * Represents auditable item stream vertex list.
 	 */
-	VertexList: "AuditableItemGraphVertexList"
+	VertexList: "AuditableItemGraphVertexList",
+
+	/**
+	 * Represents auditable item graph edge list.
+	 */
+	EdgeList: "AuditableItemGraphEdgeList",
+
+	/**
+	 * Represents auditable item graph changeset list.
+	 */
+	ChangesetList: "AuditableItemGraphChangesetList",
+
+	/**
+	 * Represents the differences between two versions of a vertex.
+	 */
+	Diff: "AuditableItemGraphDiff",
+
+	/**
+	 * Represents the changes to a list of vertex elements between two versions.
+	 */
+	DiffSummary: "AuditableItemGraphDiffSummary",
+
+	/**
+	 * Represents which changeset last modified each property of a vertex.
+	 */
+	Blame: "AuditableItemGraphBlame",
+
+	/**
+	 * Represents the changeset which last modified a property of a vertex.
+	 */
+	BlameEntry: "AuditableItemGraphBlameEntry",
+
+	/**
+	 * Represents a path between auditable item graph vertices.
+	 */
+	Path: "AuditableItemGraphPath",
+
+	/**
+	 * Represents an edge on a path between auditable item graph vertices.
+	 */
+	PathEdge: "AuditableItemGraphPathEdge",
+
+	/**
+	 * Represents an export of a subgraph with its changesets and proofs.
+	 */
+	Export: "AuditableItemGraphExport",
+
+	/**
+	 * Represents the changesets and proofs of a vertex for verification without the node.
+	 */
+	VerificationBundle: "AuditableItemGraphVerificationBundle"
 } as const;
 
 /**
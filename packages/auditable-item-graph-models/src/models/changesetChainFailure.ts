@@ -0,0 +1,41 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The reasons a changeset can fail verification of its link to the previous changeset.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const ChangesetChainFailure = {
+	/**
+	 * The previous changeset is missing, or for the last changeset one after it is missing,
+	 * so a changeset has been removed from the history.
+	 */
+	Gap: "gap",
+
+	/**
+	 * The previous changeset exists but is not the one before it, so the history has been reordered.
+	 */
+	Reordered: "reordered",
+
+	/**
+	 * Another changeset has the same previous changeset, so the history has been forked.
+	 */
+	Fork: "fork",
+
+	/**
+	 * The hash of the previous changeset does not match, so it has been altered.
+	 */
+	HashMismatch: "hashMismatch",
+
+	/**
+	 * The changeset has no link to the previous changeset although the changesets before it do,
+	 * so the link has been removed from the changeset.
+	 */
+	LinkMissing: "linkMissing"
+} as const;
+
+/**
+ * The reasons a changeset can fail verification of its link to the previous changeset.
+ */
+export type ChangesetChainFailure =
+	(typeof ChangesetChainFailure)[keyof typeof ChangesetChainFailure];
@@ -0,0 +1,33 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * How many vertices can be at each end of an edge relationship.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const EdgeCardinality = {
+	/**
+	 * A source can have one target, and a target can have one source.
+	 */
+	OneToOne: "one-to-one",
+
+	/**
+	 * A source can have many targets, and a target can have one source.
+	 */
+	OneToMany: "one-to-many",
+
+	/**
+	 * A source can have one target, and a target can have many sources.
+	 */
+	ManyToOne: "many-to-one",
+
+	/**
+	 * A source can have many targets, and a target can have many sources.
+	 */
+	ManyToMany: "many-to-many"
+} as const;
+
+/**
+ * How many vertices can be at each end of an edge relationship.
+ */
+export type EdgeCardinality = (typeof EdgeCardinality)[keyof typeof EdgeCardinality];
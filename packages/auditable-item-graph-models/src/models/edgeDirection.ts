@@ -0,0 +1,28 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The direction to follow edges when walking the graph.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const EdgeDirection = {
+	/**
+	 * Follow the edges from the vertex to the vertices it points at.
+	 */
+	Outgoing: "outgoing",
+
+	/**
+	 * Follow the edges from other vertices which point at the vertex.
+	 */
+	Incoming: "incoming",
+
+	/**
+	 * Follow the edges in both directions.
+	 */
+	Both: "both"
+} as const;
+
+/**
+ * The direction to follow edges when walking the graph.
+ */
+export type EdgeDirection = (typeof EdgeDirection)[keyof typeof EdgeDirection];
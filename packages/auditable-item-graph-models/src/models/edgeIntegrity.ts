@@ -0,0 +1,28 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * How the targets of edges are checked when edges are added to a vertex.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const EdgeIntegrity = {
+	/**
+	 * The targets of edges are not checked.
+	 */
+	None: "none",
+
+	/**
+	 * The target of an edge must be an existing vertex, which can be deleted.
+	 */
+	Exists: "exists",
+
+	/**
+	 * The target of an edge must be an existing vertex which has not been deleted.
+	 */
+	Active: "active"
+} as const;
+
+/**
+ * How the targets of edges are checked when edges are added to a vertex.
+ */
+export type EdgeIntegrity = (typeof EdgeIntegrity)[keyof typeof EdgeIntegrity];
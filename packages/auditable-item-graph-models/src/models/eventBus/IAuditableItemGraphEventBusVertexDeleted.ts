@@ -0,0 +1,12 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Event bus payload for vertex deleted.
+ */
+export interface IAuditableItemGraphEventBusVertexDeleted {
+	/**
+	 * The id of the vertex deleted.
+	 */
+	id: string;
+}
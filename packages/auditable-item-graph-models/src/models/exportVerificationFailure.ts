@@ -0,0 +1,34 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The reasons a vertex in an export can fail verification.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const ExportVerificationFailure = {
+	/**
+	 * The vertex the export started from is not in the export.
+	 */
+	RootVertexMissing: "rootVertexMissing",
+
+	/**
+	 * The export does not contain the changesets for the vertex.
+	 */
+	ChangesetsMissing: "changesetsMissing",
+
+	/**
+	 * One of the changesets for the vertex failed verification.
+	 */
+	ChangesetFailed: "changesetFailed",
+
+	/**
+	 * The vertex does not match the state its changesets describe.
+	 */
+	StateMismatch: "stateMismatch"
+} as const;
+
+/**
+ * The reasons a vertex in an export can fail verification.
+ */
+export type ExportVerificationFailure =
+	(typeof ExportVerificationFailure)[keyof typeof ExportVerificationFailure];
@@ -0,0 +1,44 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The reasons a changeset in a verification bundle can fail verification.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const VerificationBundleFailure = {
+	/**
+	 * The proof object does not match the changeset, or the proof was created for another object.
+	 */
+	ProofObjectMismatch: "proofObjectMismatch",
+
+	/**
+	 * The changeset has no immutable proof, or the proof has not been issued yet.
+	 */
+	ProofMissing: "proofMissing",
+
+	/**
+	 * The hash of the proof object does not match the hash in the immutable proof.
+	 */
+	HashMismatch: "hashMismatch",
+
+	/**
+	 * The immutable proof is not a data integrity proof using the eddsa-jcs-2022 cryptosuite.
+	 */
+	CryptoSuiteMismatch: "cryptoSuiteMismatch",
+
+	/**
+	 * No key was provided for the verification method of the proof.
+	 */
+	KeyMissing: "keyMissing",
+
+	/**
+	 * The signature of the immutable proof does not match.
+	 */
+	SignatureMismatch: "signatureMismatch"
+} as const;
+
+/**
+ * The reasons a changeset in a verification bundle can fail verification.
+ */
+export type VerificationBundleFailure =
+	(typeof VerificationBundleFailure)[keyof typeof VerificationBundleFailure];
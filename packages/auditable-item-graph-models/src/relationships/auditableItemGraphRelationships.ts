@@ -0,0 +1,113 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Guards, Is } from "@twin.org/core";
+import { JsonLdProcessor, type IJsonLdContextDefinition } from "@twin.org/data-json-ld";
+import { nameof } from "@twin.org/nameof";
+import { EdgeRelationshipFactory } from "../factories/edgeRelationshipFactory";
+import { AuditableItemGraphTypes } from "../models/auditableItemGraphTypes";
+import { EdgeCardinality } from "../models/edgeCardinality";
+import type { IAuditableItemGraphEdgeRelationship } from "../models/IAuditableItemGraphEdgeRelationship";
+
+/**
+ * Handle the edge relationship vocabulary for auditable item graph.
+ */
+export class AuditableItemGraphRelationships {
+	/**
+	 * Runtime name for the class.
+	 */
+	public static readonly CLASS_NAME: string = nameof<AuditableItemGraphRelationships>();
+
+	/**
+	 * Register a relationship in the vocabulary, the inverse term is also registered so edges can use either direction.
+	 * @param relationship The relationship to register.
+	 */
+	public static register(relationship: IAuditableItemGraphEdgeRelationship): void {
+		Guards.object<IAuditableItemGraphEdgeRelationship>(
+			AuditableItemGraphRelationships.CLASS_NAME,
+			nameof(relationship),
+			relationship
+		);
+		Guards.stringValue(
+			AuditableItemGraphRelationships.CLASS_NAME,
+			nameof(relationship.term),
+			relationship.term
+		);
+
+		EdgeRelationshipFactory.register(relationship.term, () => relationship);
+
+		if (Is.stringValue(relationship.inverse)) {
+			EdgeRelationshipFactory.register(relationship.inverse, () => ({
+				term: relationship.inverse ?? "",
+				inverse: relationship.term,
+				sourceTypes: relationship.targetTypes,
+				targetTypes: relationship.sourceTypes,
+				cardinality: AuditableItemGraphRelationships.invertCardinality(relationship),
+				acyclic: relationship.acyclic
+			}));
+		}
+	}
+
+	/**
+	 * Get the term definitions for the registered relationships, to publish as part of the auditable item graph context.
+	 * Each term resolves to an IRI in the auditable item graph namespace, and inverse terms are defined as reverse properties.
+	 * @returns The context definition for the relationships.
+	 */
+	public static getContext(): IJsonLdContextDefinition {
+		const context: IJsonLdContextDefinition = {};
+
+		// The primary term is registered before its inverse, so the primary is given the IRI
+		// and the inverse is defined as the reverse of it.
+		for (const name of EdgeRelationshipFactory.names()) {
+			const relationship = EdgeRelationshipFactory.get(name);
+			if (Is.empty(context[relationship.term])) {
+				context[relationship.term] = {
+					"@id": `${AuditableItemGraphTypes.ContextRoot}${relationship.term}`,
+					"@type": "@id"
+				};
+				if (Is.stringValue(relationship.inverse)) {
+					context[relationship.inverse] = {
+						"@reverse": `${AuditableItemGraphTypes.ContextRoot}${relationship.term}`,
+						"@type": "@id"
+					};
+				}
+			}
+		}
+
+		return context;
+	}
+
+	/**
+	 * Publish the context for the registered relationships to the JSON-LD document cache, so documents which
+	 * reference the relationships context can be expanded and compacted without it being fetched.
+	 * @returns Nothing.
+	 */
+	public static async publishContext(): Promise<void> {
+		await JsonLdProcessor.documentCacheAdd(AuditableItemGraphTypes.ContextRelationships, {
+			"@context": AuditableItemGraphRelationships.getContext()
+		});
+	}
+
+	/**
+	 * Remove all the relationships from the vocabulary.
+	 */
+	public static clear(): void {
+		EdgeRelationshipFactory.clear();
+	}
+
+	/**
+	 * Get the cardinality of the relationship in the opposite direction.
+	 * @param relationship The relationship to invert.
+	 * @returns The inverted cardinality.
+	 * @internal
+	 */
+	private static invertCardinality(
+		relationship: IAuditableItemGraphEdgeRelationship
+	): EdgeCardinality | undefined {
+		if (relationship.cardinality === EdgeCardinality.OneToMany) {
+			return EdgeCardinality.ManyToOne;
+		} else if (relationship.cardinality === EdgeCardinality.ManyToOne) {
+			return EdgeCardinality.OneToMany;
+		}
+		return relationship.cardinality;
+	}
+}
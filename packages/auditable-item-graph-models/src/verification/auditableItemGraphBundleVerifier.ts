@@ -0,0 +1,312 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Converter, Guards, Is, JsonHelper, ObjectHelper } from "@twin.org/core";
+import { Sha256 } from "@twin.org/crypto";
+import type { IJsonLdContextDefinitionRoot, IJsonLdNodeObject } from "@twin.org/data-json-ld";
+import { nameof } from "@twin.org/nameof";
+import {
+	DidCryptoSuites,
+	ProofHelper,
+	ProofTypes,
+	type IDataIntegrityProof
+} from "@twin.org/standards-w3c-did";
+import type { IJwk } from "@twin.org/web";
+import { ChangesetChainFailure } from "../models/changesetChainFailure";
+import type { IAuditableItemGraphBundleVerification } from "../models/IAuditableItemGraphBundleVerification";
+import type { IAuditableItemGraphChangeset } from "../models/IAuditableItemGraphChangeset";
+import type { IAuditableItemGraphVerificationBundle } from "../models/IAuditableItemGraphVerificationBundle";
+import type { IAuditableItemGraphVerificationBundleEntry } from "../models/IAuditableItemGraphVerificationBundleEntry";
+import { VerificationBundleFailure } from "../models/verificationBundleFailure";
+
+/**
+ * Verify auditable item graph verification bundles without access to the node.
+ */
+export class AuditableItemGraphBundleVerifier {
+	/**
+	 * Runtime name for the class.
+	 */
+	public static readonly CLASS_NAME: string = nameof<AuditableItemGraphBundleVerifier>();
+
+	/**
+	 * The namespace for the changesets within a vertex id.
+	 * @internal
+	 */
+	private static readonly _NAMESPACE_CHANGESET: string = "changeset";
+
+	/**
+	 * Verify the changesets in a verification bundle, each proof object is rebuilt from its changeset
+	 * and checked against the hash and data integrity proof in its immutable proof, and each changeset
+	 * must link to the one before it, with the last one being the last changeset of the vertex.
+	 * @param bundle The verification bundle for a vertex.
+	 * @param verificationKeys The public keys for the verification methods used by the proofs, these should be
+	 * obtained independently of the node that created the bundle, e.g. by resolving the DID documents.
+	 * @returns The verification for the bundle and each of its changesets.
+	 */
+	public static async verifyBundle(
+		bundle: IAuditableItemGraphVerificationBundle,
+		verificationKeys: { [verificationMethod: string]: IJwk }
+	): Promise<IAuditableItemGraphBundleVerification> {
+		Guards.object<IAuditableItemGraphVerificationBundle>(
+			AuditableItemGraphBundleVerifier.CLASS_NAME,
+			nameof(bundle),
+			bundle
+		);
+		Guards.stringValue(
+			AuditableItemGraphBundleVerifier.CLASS_NAME,
+			nameof(bundle.vertexId),
+			bundle.vertexId
+		);
+		Guards.array<IAuditableItemGraphVerificationBundleEntry>(
+			AuditableItemGraphBundleVerifier.CLASS_NAME,
+			nameof(bundle.entries),
+			bundle.entries
+		);
+		Guards.object(
+			AuditableItemGraphBundleVerifier.CLASS_NAME,
+			nameof(verificationKeys),
+			verificationKeys
+		);
+
+		const changesets: IAuditableItemGraphBundleVerification["changesets"] = [];
+
+		for (let i = 0; i < bundle.entries.length; i++) {
+			const entry = bundle.entries[i];
+			const failure = await AuditableItemGraphBundleVerifier.verifyEntry(
+				bundle.vertexId,
+				entry,
+				verificationKeys
+			);
+			const chainFailure = AuditableItemGraphBundleVerifier.verifyChain(
+				bundle.vertexId,
+				bundle.entries,
+				i
+			);
+			changesets.push({
+				changesetId: entry.changeset.id,
+				verified: Is.undefined(failure) && Is.undefined(chainFailure),
+				failure,
+				chainFailure
+			});
+		}
+
+		// Without the head check the newest changesets could be removed from the bundle
+		// and the changesets which remain would still verify.
+		let headVerified = true;
+		if (Is.stringValue(bundle.lastChangesetId)) {
+			const lastEntry = bundle.entries[bundle.entries.length - 1];
+			headVerified =
+				Is.object(lastEntry) &&
+				AuditableItemGraphBundleVerifier.fullChangesetId(
+					bundle.vertexId,
+					lastEntry.changeset.id
+				) ===
+					AuditableItemGraphBundleVerifier.fullChangesetId(
+						bundle.vertexId,
+						bundle.lastChangesetId
+					) &&
+				AuditableItemGraphBundleVerifier.calculateHash(lastEntry.proofObject) ===
+					bundle.lastChangesetHash;
+			if (!headVerified && changesets.length > 0) {
+				const lastChangeset = changesets[changesets.length - 1];
+				lastChangeset.verified = false;
+				lastChangeset.chainFailure ??= ChangesetChainFailure.Gap;
+			}
+		}
+
+		return {
+			verified: headVerified && changesets.every(c => c.verified),
+			changesets
+		};
+	}
+
+	/**
+	 * Verify a changeset from a verification bundle.
+	 * @param vertexId The id of the vertex the changeset belongs to.
+	 * @param entry The entry for the changeset.
+	 * @param verificationKeys The public keys for the verification methods used by the proofs.
+	 * @returns The reason the verification failed, or undefined if it was verified.
+	 * @internal
+	 */
+	private static async verifyEntry(
+		vertexId: string,
+		entry: IAuditableItemGraphVerificationBundleEntry,
+		verificationKeys: { [verificationMethod: string]: IJwk }
+	): Promise<VerificationBundleFailure | undefined> {
+		// The proof object is the changeset with its full id and without the proof details,
+		// so the changeset can not be altered without the proof object changing too.
+		const expectedProofObject = ObjectHelper.omit(
+			{ ...entry.changeset, id: entry.proofObject?.id },
+			["proofId", "verification", "chainFailure"]
+		);
+		if (
+			!Is.object(entry.proofObject) ||
+			!Is.stringValue(entry.proofObject.id) ||
+			entry.proofObject.id !==
+				AuditableItemGraphBundleVerifier.fullChangesetId(vertexId, entry.changeset.id) ||
+			JsonHelper.canonicalize(expectedProofObject) !== JsonHelper.canonicalize(entry.proofObject)
+		) {
+			return VerificationBundleFailure.ProofObjectMismatch;
+		}
+
+		const immutableProof = entry.immutableProof;
+		const proof = immutableProof?.proof;
+		if (!Is.object(immutableProof) || !Is.object<IDataIntegrityProof>(proof)) {
+			return VerificationBundleFailure.ProofMissing;
+		}
+
+		if (immutableProof.proofObjectId !== entry.proofObject.id) {
+			return VerificationBundleFailure.ProofObjectMismatch;
+		}
+
+		// The immutable proof service hashes the bytes of the canonical proof object serialized as
+		// a JSON string, so the hash is calculated in exactly the same way here.
+		const proofObjectHash = Converter.bytesToBase64(
+			Sha256.sum256(ObjectHelper.toBytes(JsonHelper.canonicalize(entry.proofObject)))
+		);
+		const expectedHash = Is.stringValue(immutableProof.proofObjectHash)
+			? immutableProof.proofObjectHash.replace(/^sha256:/, "")
+			: undefined;
+		if (proofObjectHash !== expectedHash) {
+			return VerificationBundleFailure.HashMismatch;
+		}
+
+		if (
+			proof.type !== ProofTypes.DataIntegrityProof ||
+			proof.cryptosuite !== DidCryptoSuites.EdDSAJcs2022
+		) {
+			return VerificationBundleFailure.CryptoSuiteMismatch;
+		}
+
+		const verificationKey = Is.stringValue(proof.verificationMethod)
+			? verificationKeys[proof.verificationMethod]
+			: undefined;
+		if (!Is.object<IJwk>(verificationKey)) {
+			return VerificationBundleFailure.KeyMissing;
+		}
+
+		// The receipt and storage id are added to the proof by the node after it has been signed.
+		const unsecuredDocument = ObjectHelper.omit(immutableProof, [
+			"immutableReceipt",
+			"verifiableStorageId"
+		]) as unknown as IJsonLdNodeObject;
+		const receipt = immutableProof.immutableReceipt;
+		const receiptContext = Is.object<IJsonLdNodeObject>(receipt) ? receipt["@context"] : undefined;
+		unsecuredDocument["@context"] = AuditableItemGraphBundleVerifier.removeContexts(
+			unsecuredDocument["@context"],
+			Is.array(receiptContext) ? receiptContext : [receiptContext]
+		);
+
+		let verified = false;
+		try {
+			verified = await ProofHelper.verifyProof(unsecuredDocument, proof, verificationKey);
+		} catch {
+			// A malformed proof value or key can not have produced the signature.
+		}
+		if (!verified) {
+			return VerificationBundleFailure.SignatureMismatch;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Verify that a changeset from a verification bundle follows on from the changeset before it.
+	 * @param vertexId The id of the vertex the changesets belong to.
+	 * @param entries The entries of the bundle in the order the changesets were created.
+	 * @param index The index of the entry to verify.
+	 * @returns The reason the link to the previous changeset failed, or undefined if it is valid.
+	 * @internal
+	 */
+	private static verifyChain(
+		vertexId: string,
+		entries: IAuditableItemGraphVerificationBundleEntry[],
+		index: number
+	): ChangesetChainFailure | undefined {
+		const changeset = entries[index].changeset;
+		const fullId = (changesetId: string): string =>
+			AuditableItemGraphBundleVerifier.fullChangesetId(vertexId, changesetId);
+
+		if (!Is.stringValue(changeset.previousChangesetId)) {
+			// Only the first changeset has no previous changeset, unless the changesets
+			// before it were created without links, in which case there is nothing to verify.
+			if (entries.slice(0, index).some(e => Is.stringValue(e.changeset.previousChangesetId))) {
+				return ChangesetChainFailure.LinkMissing;
+			}
+			return undefined;
+		}
+
+		// The links hold the short id of the previous changeset, which exports replace with the full id.
+		const previousId = fullId(changeset.previousChangesetId);
+		const previousIndex = entries.findIndex(e => fullId(e.changeset.id) === previousId);
+		if (previousIndex === -1) {
+			return ChangesetChainFailure.Gap;
+		}
+
+		if (
+			entries.some(
+				(e, i) =>
+					i !== index &&
+					Is.stringValue(e.changeset.previousChangesetId) &&
+					fullId(e.changeset.previousChangesetId) === previousId
+			)
+		) {
+			return ChangesetChainFailure.Fork;
+		}
+
+		if (previousIndex !== index - 1) {
+			return ChangesetChainFailure.Reordered;
+		}
+
+		// The node hashes the proof object of the previous changeset when it links to it.
+		const previousHash = AuditableItemGraphBundleVerifier.calculateHash(
+			entries[previousIndex].proofObject
+		);
+		if (previousHash !== changeset.previousChangesetHash) {
+			return ChangesetChainFailure.HashMismatch;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Calculate the hash the node links to a changeset with.
+	 * @param proofObject The proof object of the changeset.
+	 * @returns The hash of the proof object.
+	 * @internal
+	 */
+	private static calculateHash(proofObject: IAuditableItemGraphChangeset): string {
+		return Converter.bytesToBase64(
+			Sha256.sum256(Converter.utf8ToBytes(JsonHelper.canonicalize(proofObject)))
+		);
+	}
+
+	/**
+	 * Get the full id of a changeset, which bundles from the node contain the short id of.
+	 * @param vertexId The id of the vertex the changeset belongs to.
+	 * @param changesetId The short or full id of the changeset.
+	 * @returns The full id of the changeset.
+	 * @internal
+	 */
+	private static fullChangesetId(vertexId: string, changesetId: string): string {
+		return changesetId.startsWith(`${vertexId}:`)
+			? changesetId
+			: `${vertexId}:${AuditableItemGraphBundleVerifier._NAMESPACE_CHANGESET}:${changesetId}`;
+	}
+
+	/**
+	 * Get the context of a document as it was when it was signed, without the contexts added afterwards.
+	 * @param context The context of the document.
+	 * @param removeContexts The contexts which were added after the document was signed.
+	 * @returns The context to verify the document with.
+	 * @internal
+	 */
+	private static removeContexts(
+		context: IJsonLdContextDefinitionRoot | undefined,
+		removeContexts: unknown[]
+	): IJsonLdContextDefinitionRoot | undefined {
+		const contexts = (Is.array(context) ? context : [context]).filter(
+			c => !Is.undefined(c) && !removeContexts.includes(c)
+		);
+		return contexts.length > 0 ? (contexts as IJsonLdContextDefinitionRoot) : undefined;
+	}
+}
@@ -0,0 +1,175 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Guards, Is, JsonHelper, ObjectHelper, Urn } from "@twin.org/core";
+import type { IImmutableProof } from "@twin.org/immutable-proof-models";
+import { nameof } from "@twin.org/nameof";
+import type { IJwk } from "@twin.org/web";
+import { AuditableItemGraphBundleVerifier } from "./auditableItemGraphBundleVerifier";
+import { AuditableItemGraphTypes } from "../models/auditableItemGraphTypes";
+import { ExportVerificationFailure } from "../models/exportVerificationFailure";
+import type { IAuditableItemGraphChangeset } from "../models/IAuditableItemGraphChangeset";
+import type { IAuditableItemGraphExport } from "../models/IAuditableItemGraphExport";
+import type { IAuditableItemGraphExportVerification } from "../models/IAuditableItemGraphExportVerification";
+import type { IAuditableItemGraphVertex } from "../models/IAuditableItemGraphVertex";
+
+/**
+ * Verify auditable item graph exports without access to the node.
+ */
+export class AuditableItemGraphExportVerifier {
+	/**
+	 * Runtime name for the class.
+	 */
+	public static readonly CLASS_NAME: string = nameof<AuditableItemGraphExportVerifier>();
+
+	/**
+	 * Verify the vertices in an export, the changesets of each vertex are verified against their immutable
+	 * proofs and the links between them, and the vertex is bound to them by replaying their patches, so
+	 * neither the changesets nor the vertex can be altered without the verification failing.
+	 * @param exportDocument The export of a subgraph, which must include the changesets and proofs.
+	 * @param verificationKeys The public keys for the verification methods used by the proofs, these should be
+	 * obtained independently of the node that created the export, e.g. by resolving the DID documents.
+	 * @returns The verification for the export and each of its vertices.
+	 */
+	public static async verifyExport(
+		exportDocument: IAuditableItemGraphExport,
+		verificationKeys: { [verificationMethod: string]: IJwk }
+	): Promise<IAuditableItemGraphExportVerification> {
+		Guards.object<IAuditableItemGraphExport>(
+			AuditableItemGraphExportVerifier.CLASS_NAME,
+			nameof(exportDocument),
+			exportDocument
+		);
+		Guards.stringValue(
+			AuditableItemGraphExportVerifier.CLASS_NAME,
+			nameof(exportDocument.rootId),
+			exportDocument.rootId
+		);
+		const graph = exportDocument["@graph"];
+		Guards.array(AuditableItemGraphExportVerifier.CLASS_NAME, nameof(graph), graph);
+		Guards.object(
+			AuditableItemGraphExportVerifier.CLASS_NAME,
+			nameof(verificationKeys),
+			verificationKeys
+		);
+
+		const namespace = Urn.fromValidString(exportDocument.rootId).namespaceIdentifier();
+		const vertices = graph.filter(
+			(node): node is IAuditableItemGraphVertex => node.type === AuditableItemGraphTypes.Vertex
+		);
+		const changesets = graph.filter(
+			(node): node is IAuditableItemGraphChangeset =>
+				node.type === AuditableItemGraphTypes.Changeset
+		);
+
+		const verification: IAuditableItemGraphExportVerification = {
+			verified: false,
+			vertices: []
+		};
+
+		for (const vertex of vertices) {
+			// The changesets are exported with the full id their proof was created for.
+			const vertexId = new Urn(namespace, vertex.id).toString();
+			const vertexChangesets = changesets.filter(c => c.id.startsWith(`${vertexId}:`));
+
+			const bundleVerification = await AuditableItemGraphBundleVerifier.verifyBundle(
+				{
+					"@context": [AuditableItemGraphTypes.ContextRoot],
+					type: AuditableItemGraphTypes.VerificationBundle,
+					vertexId,
+					dateCreated: exportDocument.dateCreated,
+					entries: vertexChangesets.map(changeset => ({
+						changeset,
+						proofObject: ObjectHelper.omit(changeset, [
+							"proofId",
+							"verification",
+							"chainFailure"
+						]) as IAuditableItemGraphChangeset,
+						immutableProof: graph.find(
+							(node): node is IImmutableProof =>
+								"proofObjectId" in node && node.proofObjectId === changeset.id
+						)
+					}))
+				},
+				verificationKeys
+			);
+
+			let failure: ExportVerificationFailure | undefined;
+			if (vertexChangesets.length === 0) {
+				failure = ExportVerificationFailure.ChangesetsMissing;
+			} else if (!AuditableItemGraphExportVerifier.verifyVertexState(vertex, vertexChangesets)) {
+				failure = ExportVerificationFailure.StateMismatch;
+			} else if (!bundleVerification.verified) {
+				failure = ExportVerificationFailure.ChangesetFailed;
+			}
+
+			verification.vertices.push({
+				vertexId,
+				verified: Is.undefined(failure),
+				failure,
+				changesets: bundleVerification.changesets
+			});
+		}
+
+		if (!verification.vertices.some(v => v.vertexId === exportDocument.rootId)) {
+			verification.failure = ExportVerificationFailure.RootVertexMissing;
+		}
+		verification.verified =
+			Is.undefined(verification.failure) && verification.vertices.every(v => v.verified);
+
+		return verification;
+	}
+
+	/**
+	 * Verify that a vertex is the state its changesets describe, by replaying their patches from the
+	 * properties which are never patched.
+	 * @param vertex The vertex from the export.
+	 * @param changesets The changesets of the vertex in the order they were created.
+	 * @returns True if the vertex matches the replayed state.
+	 * @internal
+	 */
+	private static verifyVertexState(
+		vertex: IAuditableItemGraphVertex,
+		changesets: IAuditableItemGraphChangeset[]
+	): boolean {
+		let state: { [id: string]: unknown } = {
+			id: vertex.id,
+			nodeIdentity: vertex.nodeIdentity,
+			dateCreated: vertex.dateCreated,
+			dateModified: vertex.dateCreated
+		};
+
+		try {
+			for (const changeset of changesets) {
+				state = JsonHelper.patch(
+					state,
+					changeset.patches.map(p => ({
+						op: p.patchOperation,
+						path: p.patchPath,
+						from: p.patchFrom,
+						value: p.patchValue
+					}))
+				);
+			}
+		} catch {
+			return false;
+		}
+
+		// The modified date and revision are not part of the patches, but are derived from the changesets.
+		state.dateModified = changesets[changesets.length - 1].dateCreated;
+		// A vertex without a revision has not changed since revisions were introduced,
+		// so it is already at the revision its changesets count to.
+		if (!Is.undefined(vertex.revision)) {
+			state.revision = changesets.length;
+		}
+
+		// The elements of the vertex are only given their JSON-LD context and type when they are exported.
+		const exported = {
+			...ObjectHelper.omit(vertex, ["@context", "type", "changesets", "verified"]),
+			aliases: vertex.aliases?.map(a => ObjectHelper.omit(a, ["@context", "type"])),
+			resources: vertex.resources?.map(r => ObjectHelper.omit(r, ["@context", "type"])),
+			edges: vertex.edges?.map(e => ObjectHelper.omit(e, ["@context", "type"]))
+		};
+
+		return JsonHelper.canonicalize(exported) === JsonHelper.canonicalize(state);
+	}
+}
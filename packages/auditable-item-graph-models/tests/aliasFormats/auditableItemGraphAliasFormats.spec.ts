@@ -0,0 +1,88 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IValidationFailure } from "@twin.org/core";
+import { AuditableItemGraphAliasFormats } from "../../src/aliasFormats/auditableItemGraphAliasFormats";
+import { AliasFormatHandlerFactory } from "../../src/factories/aliasFormatHandlerFactory";
+import { AliasFormat } from "../../src/models/aliasFormat";
+
+/**
+ * Validate an alias id using the handler for the format.
+ * @param format The format of the alias.
+ * @param aliasId The id of the alias.
+ * @returns The validation failures.
+ */
+function validate(format: AliasFormat, aliasId: string): IValidationFailure[] {
+	const validationFailures: IValidationFailure[] = [];
+	AliasFormatHandlerFactory.get(format).validate("aliasId", aliasId, validationFailures);
+	return validationFailures;
+}
+
+describe("AuditableItemGraphAliasFormats", () => {
+	beforeAll(async () => {
+		AuditableItemGraphAliasFormats.registerFormats();
+	});
+
+	test("Can validate GS1 identifiers", async () => {
+		expect(validate(AliasFormat.Gtin, "96385074")).toEqual([]);
+		expect(validate(AliasFormat.Gtin, "036000291452")).toEqual([]);
+		expect(validate(AliasFormat.Gtin, "4006381333931")).toEqual([]);
+		expect(validate(AliasFormat.Gtin, "10614141000415")).toEqual([]);
+		expect(validate(AliasFormat.Sscc, "106141411234567897")).toEqual([]);
+		expect(validate(AliasFormat.Gln, "0614141000036")).toEqual([]);
+	});
+
+	test("Can fail to validate GS1 identifiers", async () => {
+		expect(validate(AliasFormat.Gtin, "4006381333932")).toEqual([
+			{
+				property: "aliasId",
+				reason: "validation.auditableItemGraphAliasFormats.checkDigitInvalid",
+				properties: { format: AliasFormat.Gtin, value: "4006381333932", checkDigit: 1 }
+			}
+		]);
+		expect(validate(AliasFormat.Gtin, "40063813339")).toEqual([
+			{
+				property: "aliasId",
+				reason: "validation.auditableItemGraphAliasFormats.formatInvalid",
+				properties: { format: AliasFormat.Gtin, value: "40063813339" }
+			}
+		]);
+		expect(validate(AliasFormat.Sscc, "4006381333931").length).toEqual(1);
+		expect(validate(AliasFormat.Gln, "061414100003A").length).toEqual(1);
+	});
+
+	test("Can normalise a GTIN to GTIN-14", async () => {
+		const handler = AliasFormatHandlerFactory.get(AliasFormat.Gtin);
+		expect(handler.normalise?.("4006381333931")).toEqual("04006381333931");
+		expect(handler.normalise?.("96385074")).toEqual("00000096385074");
+	});
+
+	test("Can validate URN, DID and UUID identifiers", async () => {
+		expect(validate(AliasFormat.Urn, "urn:example:1234")).toEqual([]);
+		expect(validate(AliasFormat.Urn, "example")).toHaveLength(1);
+		expect(validate(AliasFormat.Did, "did:iota:tst:0x1234")).toEqual([]);
+		expect(validate(AliasFormat.Did, "did:iota")).toHaveLength(1);
+		expect(validate(AliasFormat.Uuid, "0F8FAD5B-D9CB-469F-A165-70867728950E")).toEqual([]);
+		expect(validate(AliasFormat.Uuid, "0f8fad5b-d9cb-469f-a165")).toHaveLength(1);
+
+		const handler = AliasFormatHandlerFactory.get(AliasFormat.Uuid);
+		expect(handler.normalise?.("0F8FAD5B-D9CB-469F-A165-70867728950E")).toEqual(
+			"0f8fad5b-d9cb-469f-a165-70867728950e"
+		);
+	});
+
+	test("Can validate ISO 6346 container codes", async () => {
+		expect(validate(AliasFormat.Iso6346, "CSQU3054383")).toEqual([]);
+		expect(validate(AliasFormat.Iso6346, "msku9070323")).toEqual([]);
+		expect(validate(AliasFormat.Iso6346, "CSQU3054384")).toEqual([
+			{
+				property: "aliasId",
+				reason: "validation.auditableItemGraphAliasFormats.checkDigitInvalid",
+				properties: { format: AliasFormat.Iso6346, value: "CSQU3054384", checkDigit: 3 }
+			}
+		]);
+		expect(validate(AliasFormat.Iso6346, "CSQA3054383")).toHaveLength(1);
+
+		const handler = AliasFormatHandlerFactory.get(AliasFormat.Iso6346);
+		expect(handler.normalise?.("msku9070323")).toEqual("MSKU9070323");
+	});
+});
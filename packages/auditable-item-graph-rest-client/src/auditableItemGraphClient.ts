@@ -5,21 +5,66 @@ import {
 	HttpParameterHelper,
 	type IBaseRestClientConfig,
 	type ICreatedResponse,
+	type INoContentRequest,
 	type INoContentResponse
 } from "@twin.org/api-models";
 import type {
+	EdgeDirection,
+	IAuditableItemGraphAuditIntegrityResponse,
+	IAuditableItemGraphBatchCreateItem,
+	IAuditableItemGraphBatchResponse,
+	IAuditableItemGraphBatchResult,
+	IAuditableItemGraphBatchUpdateItem,
+	IAuditableItemGraphBlame,
+	IAuditableItemGraphBlameRequest,
+	IAuditableItemGraphBlameResponse,
+	IAuditableItemGraphChangeset,
+	IAuditableItemGraphChangesetGetRequest,
+	IAuditableItemGraphChangesetGetResponse,
+	IAuditableItemGraphChangesetList,
+	IAuditableItemGraphChangesetsRequest,
+	IAuditableItemGraphChangesetsResponse,
 	IAuditableItemGraphComponent,
+	IAuditableItemGraphCreateManyRequest,
 	IAuditableItemGraphCreateRequest,
+	IAuditableItemGraphDanglingEdge,
+	IAuditableItemGraphDiff,
+	IAuditableItemGraphDiffRequest,
+	IAuditableItemGraphDiffResponse,
+	IAuditableItemGraphEdgeList,
+	IAuditableItemGraphExport,
+	IAuditableItemGraphExportRequest,
+	IAuditableItemGraphExportResponse,
 	IAuditableItemGraphGetRequest,
 	IAuditableItemGraphGetResponse,
+	IAuditableItemGraphIncomingEdgesRequest,
+	IAuditableItemGraphIncomingEdgesResponse,
 	IAuditableItemGraphListRequest,
 	IAuditableItemGraphListResponse,
+	IAuditableItemGraphPatchDocument,
+	IAuditableItemGraphPatchRequest,
+	IAuditableItemGraphPath,
+	IAuditableItemGraphPathRequest,
+	IAuditableItemGraphPathResponse,
+	IAuditableItemGraphRemoveImmutableRequest,
+	IAuditableItemGraphRemoveImmutableResponse,
+	IAuditableItemGraphRemoveImmutableResult,
+	IAuditableItemGraphRemoveRequest,
+	IAuditableItemGraphResolveAliasRequest,
+	IAuditableItemGraphResolveAliasResponse,
+	IAuditableItemGraphRevertRequest,
+	IAuditableItemGraphTraverseRequest,
+	IAuditableItemGraphTraverseResponse,
+	IAuditableItemGraphUpdateManyRequest,
 	IAuditableItemGraphUpdateRequest,
+	IAuditableItemGraphVerificationBundle,
+	IAuditableItemGraphVerificationBundleRequest,
+	IAuditableItemGraphVerificationBundleResponse,
 	IAuditableItemGraphVertex,
 	IAuditableItemGraphVertexList,
 	VerifyDepth
 } from "@twin.org/auditable-item-graph-models";
-import { Guards, NotSupportedError } from "@twin.org/core";
+import { Guards, Is, Urn, type IPatchOperation } from "@twin.org/core";
 import type { IJsonLdNodeObject } from "@twin.org/data-json-ld";
 import type { IComparator, SortDirection } from "@twin.org/entity";
 import { nameof } from "@twin.org/nameof";
@@ -50,8 +95,13 @@ export class AuditableItemGraphClient
 	 * @param annotationObject The annotation object for the vertex.
 	 * @param aliases Alternative aliases that can be used to identify the vertex.
 	 * @param resources The resources attached to the vertex.
-	 * @param edges The edges connected to the vertex.
+	 * @param edges The edges connected to the vertex, a bidirectional edge or one with an inverse relationship also maintains the matching edge on the target vertex.
+	 * @param userIdentity The identity to create the auditable item graph operation with, not used by the client.
+	 * @param nodeIdentity The node identity to use for vault operations, not used by the client.
+	 * @param options Additional options for the create operation.
+	 * @param options.idempotencyKey A key which makes repeating the same create by the same user return the original vertex.
 	 * @returns The id of the new graph item.
+	 * @throws ConflictError if the idempotency key was used with a different request.
 	 */
 	public async create(
 		annotationObject?: IJsonLdNodeObject,
@@ -68,12 +118,24 @@ export class AuditableItemGraphClient
 			id: string;
 			edgeRelationship: string;
 			annotationObject?: IJsonLdNodeObject;
-		}[]
+			bidirectional?: boolean;
+			inverseRelationship?: string;
+		}[],
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: {
+			idempotencyKey?: string;
+		}
 	): Promise<string> {
 		const response = await this.fetch<IAuditableItemGraphCreateRequest, ICreatedResponse>(
 			"/",
 			"POST",
 			{
+				headers: Is.stringValue(options?.idempotencyKey)
+					? {
+							"idempotency-key": options.idempotencyKey
+						}
+					: undefined,
 				body: {
 					annotationObject,
 					aliases,
@@ -90,9 +152,10 @@ export class AuditableItemGraphClient
 	 * Get a graph vertex.
 	 * @param id The id of the vertex to get.
 	 * @param options Additional options for the get operation.
-	 * @param options.includeDeleted Whether to include deleted/updated aliases, resource, edges, defaults to false.
+	 * @param options.includeDeleted Whether to include a deleted vertex and its deleted/updated aliases, resource, edges, defaults to false.
 	 * @param options.includeChangesets Whether to include the changesets of the vertex, defaults to false.
 	 * @param options.verifySignatureDepth How many signatures to verify, defaults to "none".
+	 * @param options.asOf The date time or changeset id to reconstruct the vertex at, defaults to the current state.
 	 * @returns The vertex if found.
 	 * @throws NotFoundError if the vertex is not found.
 	 */
@@ -102,6 +165,7 @@ export class AuditableItemGraphClient
 			includeDeleted?: boolean;
 			includeChangesets?: boolean;
 			verifySignatureDepth?: VerifyDepth;
+			asOf?: string;
 		}
 	): Promise<IAuditableItemGraphVertex> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
@@ -119,7 +183,8 @@ export class AuditableItemGraphClient
 			query: {
 				includeDeleted: options?.includeDeleted,
 				includeChangesets: options?.includeChangesets,
-				verifySignatureDepth: options?.verifySignatureDepth
+				verifySignatureDepth: options?.verifySignatureDepth,
+				asOf: options?.asOf
 			}
 		});
 
@@ -132,8 +197,13 @@ export class AuditableItemGraphClient
 	 * @param annotationObject The annotation object for the vertex as JSON-LD.
 	 * @param aliases Alternative aliases that can be used to identify the vertex.
 	 * @param resources The resources attached to the vertex.
-	 * @param edges The edges connected to the vertex.
+	 * @param edges The edges connected to the vertex, a bidirectional edge or one with an inverse relationship also maintains the matching edge on the target vertex.
+	 * @param userIdentity The identity to create the auditable item graph operation with, not used by the client.
+	 * @param nodeIdentity The node identity to use for vault operations, not used by the client.
+	 * @param options Additional options for the update operation.
+	 * @param options.expectedRevision The revision the vertex must be at for the update to be applied.
 	 * @returns Nothing.
+	 * @throws ConflictError if the vertex is not at the expected revision.
 	 */
 	public async update(
 		id: string,
@@ -151,11 +221,23 @@ export class AuditableItemGraphClient
 			id: string;
 			edgeRelationship: string;
 			annotationObject?: IJsonLdNodeObject;
-		}[]
+			bidirectional?: boolean;
+			inverseRelationship?: string;
+		}[],
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: {
+			expectedRevision?: number;
+		}
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
 		await this.fetch<IAuditableItemGraphUpdateRequest, INoContentResponse>("/:id", "PUT", {
+			headers: Is.integer(options?.expectedRevision)
+				? {
+						"if-match": `"${options.expectedRevision}"`
+					}
+				: undefined,
 			pathParams: {
 				id
 			},
@@ -169,14 +251,40 @@ export class AuditableItemGraphClient
 	}
 
 	/**
-	 * Remove the immutable storage for an item.
-	 * @param id The id of the vertex to get.
+	 * Remove a graph vertex, the vertex is marked as deleted and the removal is recorded as a changeset.
+	 * @param id The id of the vertex to remove.
 	 * @returns Nothing.
 	 * @throws NotFoundError if the vertex is not found.
-	 * @internal
 	 */
-	public async removeImmutable(id: string): Promise<void> {
-		throw new NotSupportedError(this.CLASS_NAME, "removeImmutable");
+	public async remove(id: string): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		await this.fetch<IAuditableItemGraphRemoveRequest, INoContentResponse>("/:id", "DELETE", {
+			pathParams: {
+				id
+			}
+		});
+	}
+
+	/**
+	 * Remove the immutable storage for an item, a failure for one changeset does not stop the others being removed.
+	 * @param id The id of the vertex to remove the storage from.
+	 * @returns The outcome for each changeset of the vertex.
+	 * @throws NotFoundError if the vertex is not found.
+	 */
+	public async removeImmutable(id: string): Promise<IAuditableItemGraphRemoveImmutableResult[]> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		const response = await this.fetch<
+			IAuditableItemGraphRemoveImmutableRequest,
+			IAuditableItemGraphRemoveImmutableResponse
+		>("/:id/immutable", "DELETE", {
+			pathParams: {
+				id
+			}
+		});
+
+		return response.body;
 	}
 
 	/**
@@ -184,6 +292,10 @@ export class AuditableItemGraphClient
 	 * @param options The query options.
 	 * @param options.id The optional id to look for.
 	 * @param options.idMode Look in id, alias or both, defaults to both.
+	 * @param options.includeDeleted Whether to include deleted vertices, defaults to false.
+	 * @param options.aliasMatch How to match the aliases, includes matches part of an alias, exact matches the whole alias, defaults to includes.
+	 * @param options.aliasCaseSensitive Whether an exact alias match is case sensitive, defaults to false.
+	 * @param options.aliasFormat Only match aliases with this format when using an exact alias match.
 	 * @param conditions Conditions to use in the query.
 	 * @param orderBy The order for the results, defaults to created.
 	 * @param orderByDirection The direction for the order, defaults to descending.
@@ -196,6 +308,10 @@ export class AuditableItemGraphClient
 		options?: {
 			id?: string;
 			idMode?: "id" | "alias" | "both";
+			includeDeleted?: boolean;
+			aliasMatch?: "includes" | "exact";
+			aliasCaseSensitive?: boolean;
+			aliasFormat?: string;
 		},
 		conditions?: IComparator[],
 		orderBy?: keyof Pick<IAuditableItemGraphVertex, "dateCreated" | "dateModified">,
@@ -214,6 +330,10 @@ export class AuditableItemGraphClient
 			query: {
 				id: options?.id,
 				idMode: options?.idMode,
+				includeDeleted: options?.includeDeleted,
+				aliasMatch: options?.aliasMatch,
+				aliasCaseSensitive: options?.aliasCaseSensitive,
+				aliasFormat: options?.aliasFormat,
 				conditions: HttpParameterHelper.objectToString(conditions),
 				orderBy,
 				orderByDirection,
@@ -225,4 +345,483 @@ export class AuditableItemGraphClient
 
 		return response.body;
 	}
+
+	/**
+	 * Get the edges from other vertices which point at the vertex.
+	 * @param id The id of the vertex to get the incoming edges for.
+	 * @param options Additional options for the operation.
+	 * @param options.includeDeleted Whether to include deleted edges, defaults to false.
+	 * @param options.edgeRelationships The relationships to filter the edges by, defaults to all.
+	 * @param options.cursor The cursor to request the next page of edges.
+	 * @param options.pageSize The maximum number of edges in a page.
+	 * @returns The edges, the id of each edge is the vertex it originates from.
+	 */
+	public async getIncomingEdges(
+		id: string,
+		options?: {
+			includeDeleted?: boolean;
+			edgeRelationships?: string[];
+			cursor?: string;
+			pageSize?: number;
+		}
+	): Promise<IAuditableItemGraphEdgeList> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		const response = await this.fetch<
+			IAuditableItemGraphIncomingEdgesRequest,
+			IAuditableItemGraphIncomingEdgesResponse
+		>("/:id/incoming-edges", "GET", {
+			headers: {
+				[HeaderTypes.Accept]: MimeTypes.JsonLd
+			},
+			pathParams: {
+				id
+			},
+			query: {
+				includeDeleted: options?.includeDeleted,
+				edgeRelationships: HttpParameterHelper.arrayToString(options?.edgeRelationships),
+				cursor: options?.cursor,
+				pageSize: options?.pageSize
+			}
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Traverse the graph starting from a vertex and return the subgraph reached.
+	 * @param startId The id of the vertex to start the traversal from.
+	 * @param options Additional options for the traversal.
+	 * @param options.direction The direction to follow the edges, defaults to outgoing.
+	 * @param options.maxDepth The maximum number of edges to follow from the start vertex, defaults to 1, at most 10.
+	 * @param options.edgeRelationships The relationships of the edges to follow, defaults to all.
+	 * @param options.includeResources Whether to include the resources of the vertices, defaults to false.
+	 * @returns The vertices in the subgraph, including the start vertex.
+	 * @throws NotFoundError if the start vertex is not found.
+	 */
+	public async traverse(
+		startId: string,
+		options?: {
+			direction?: EdgeDirection;
+			maxDepth?: number;
+			edgeRelationships?: string[];
+			includeResources?: boolean;
+		}
+	): Promise<IAuditableItemGraphVertexList> {
+		Guards.stringValue(this.CLASS_NAME, nameof(startId), startId);
+
+		const response = await this.fetch<
+			IAuditableItemGraphTraverseRequest,
+			IAuditableItemGraphTraverseResponse
+		>("/:id/traverse", "GET", {
+			headers: {
+				[HeaderTypes.Accept]: MimeTypes.JsonLd
+			},
+			pathParams: {
+				id: startId
+			},
+			query: {
+				direction: options?.direction,
+				maxDepth: options?.maxDepth,
+				edgeRelationships: HttpParameterHelper.arrayToString(options?.edgeRelationships),
+				includeResources: options?.includeResources
+			}
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Find the shortest path between two vertices.
+	 * @param fromId The id of the vertex to start the path from.
+	 * @param toId The id of the vertex to find the path to.
+	 * @param options Additional options for finding the path.
+	 * @param options.edgeRelationships The relationships of the edges which can be followed, defaults to all.
+	 * @param options.maxHops The maximum number of edges on the path, defaults to 10, at most 50.
+	 * @param options.direction The direction to follow the edges, defaults to outgoing.
+	 * @returns The path between the vertices, connected is false if there is no path.
+	 * @throws NotFoundError if the from vertex is not found.
+	 */
+	public async findPath(
+		fromId: string,
+		toId: string,
+		options?: {
+			edgeRelationships?: string[];
+			maxHops?: number;
+			direction?: EdgeDirection;
+		}
+	): Promise<IAuditableItemGraphPath> {
+		Guards.stringValue(this.CLASS_NAME, nameof(fromId), fromId);
+		Guards.stringValue(this.CLASS_NAME, nameof(toId), toId);
+
+		const response = await this.fetch<
+			IAuditableItemGraphPathRequest,
+			IAuditableItemGraphPathResponse
+		>("/:id/path", "GET", {
+			headers: {
+				[HeaderTypes.Accept]: MimeTypes.JsonLd
+			},
+			pathParams: {
+				id: fromId
+			},
+			query: {
+				toId,
+				edgeRelationships: HttpParameterHelper.arrayToString(options?.edgeRelationships),
+				maxHops: options?.maxHops,
+				direction: options?.direction
+			}
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Get the changesets for a vertex in the order they were created.
+	 * @param id The id of the vertex to get the changesets for.
+	 * @param options Additional options for the operation.
+	 * @param options.cursor The cursor to request the next page of changesets.
+	 * @param options.pageSize The maximum number of changesets in a page.
+	 * @param options.from Only include changesets created on or after this date time.
+	 * @param options.to Only include changesets created on or before this date time.
+	 * @param options.userIdentity Only include changesets created by this user identity.
+	 * @param options.verify Whether to verify the signatures of the changesets and the links between them, defaults to false.
+	 * @returns The changesets and a cursor if there are more.
+	 * @throws NotFoundError if the vertex is not found.
+	 */
+	public async getChangesets(
+		id: string,
+		options?: {
+			cursor?: string;
+			pageSize?: number;
+			from?: string;
+			to?: string;
+			userIdentity?: string;
+			verify?: boolean;
+		}
+	): Promise<IAuditableItemGraphChangesetList> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		const response = await this.fetch<
+			IAuditableItemGraphChangesetsRequest,
+			IAuditableItemGraphChangesetsResponse
+		>("/:id/changesets", "GET", {
+			headers: {
+				[HeaderTypes.Accept]: MimeTypes.JsonLd
+			},
+			pathParams: {
+				id
+			},
+			query: {
+				cursor: options?.cursor,
+				pageSize: options?.pageSize,
+				from: options?.from,
+				to: options?.to,
+				userIdentity: options?.userIdentity,
+				verify: options?.verify
+			}
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Get a single changeset using the id it was given in its proof.
+	 * @param changesetId The id of the changeset in the form aig:<vertex>:changeset:<changeset>.
+	 * @param options Additional options for the operation.
+	 * @param options.verify Whether to verify the signature of the changeset, defaults to false.
+	 * @returns The changeset.
+	 * @throws NotFoundError if the changeset is not found.
+	 */
+	public async getChangeset(
+		changesetId: string,
+		options?: {
+			verify?: boolean;
+		}
+	): Promise<IAuditableItemGraphChangeset> {
+		Guards.stringValue(this.CLASS_NAME, nameof(changesetId), changesetId);
+
+		const urnParsed = Urn.fromValidString(changesetId);
+		const urnParts = urnParsed.namespaceSpecificParts();
+
+		const response = await this.fetch<
+			IAuditableItemGraphChangesetGetRequest,
+			IAuditableItemGraphChangesetGetResponse
+		>("/:id/changesets/:changesetId", "GET", {
+			headers: {
+				[HeaderTypes.Accept]: MimeTypes.JsonLd
+			},
+			pathParams: {
+				id: `${urnParsed.namespaceIdentifier()}:${urnParts[0]}`,
+				changesetId: urnParts[urnParts.length - 1]
+			},
+			query: {
+				verify: options?.verify
+			}
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Get the differences between two versions of a vertex.
+	 * @param id The id of the vertex to get the differences for.
+	 * @param from The date time or changeset id of the version to compare from.
+	 * @param to The date time or changeset id of the version to compare to, defaults to the current state.
+	 * @returns The patches between the versions and a summary of the changes.
+	 * @throws NotFoundError if the vertex or a changeset is not found.
+	 */
+	public async diff(id: string, from: string, to?: string): Promise<IAuditableItemGraphDiff> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		Guards.stringValue(this.CLASS_NAME, nameof(from), from);
+
+		const response = await this.fetch<
+			IAuditableItemGraphDiffRequest,
+			IAuditableItemGraphDiffResponse
+		>("/:id/diff", "GET", {
+			headers: {
+				[HeaderTypes.Accept]: MimeTypes.JsonLd
+			},
+			pathParams: {
+				id
+			},
+			query: {
+				from,
+				to
+			}
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Revert a vertex to the state it was in after a previous changeset, the revert is recorded as a new changeset.
+	 * @param id The id of the vertex to revert.
+	 * @param toChangesetId The id of the changeset to revert the vertex to.
+	 * @returns Nothing.
+	 * @throws NotFoundError if the vertex or changeset is not found.
+	 */
+	public async revert(id: string, toChangesetId: string): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		Guards.stringValue(this.CLASS_NAME, nameof(toChangesetId), toChangesetId);
+
+		await this.fetch<IAuditableItemGraphRevertRequest, INoContentResponse>("/:id/revert", "POST", {
+			pathParams: {
+				id
+			},
+			body: {
+				changesetId: toChangesetId
+			}
+		});
+	}
+
+	/**
+	 * Get the changeset which last modified each property of a vertex.
+	 * @param id The id of the vertex to get the blame for.
+	 * @returns The JSON pointer of each property with the changeset which last modified it.
+	 * @throws NotFoundError if the vertex is not found.
+	 */
+	public async blame(id: string): Promise<IAuditableItemGraphBlame> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		const response = await this.fetch<
+			IAuditableItemGraphBlameRequest,
+			IAuditableItemGraphBlameResponse
+		>("/:id/blame", "GET", {
+			headers: {
+				[HeaderTypes.Accept]: MimeTypes.JsonLd
+			},
+			pathParams: {
+				id
+			}
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Partially update a graph vertex, the patch is applied to the vertex in the form of a patch document.
+	 * @param id The id of the vertex to update.
+	 * @param operations Either RFC 6902 JSON patch operations or an RFC 7396 merge patch document.
+	 * @param userIdentity The identity to create the auditable item graph operation with, not used by the client.
+	 * @param nodeIdentity The node identity to use for vault operations, not used by the client.
+	 * @param options Additional options for the patch operation.
+	 * @param options.expectedRevision The revision the vertex must be at for the patch to be applied.
+	 * @returns Nothing.
+	 * @throws NotFoundError if the vertex is not found.
+	 * @throws ConflictError if the vertex is not at the expected revision.
+	 */
+	public async patch(
+		id: string,
+		operations: IPatchOperation[] | IAuditableItemGraphPatchDocument,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: {
+			expectedRevision?: number;
+		}
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		if (!Is.array(operations)) {
+			Guards.object<IAuditableItemGraphPatchDocument>(
+				this.CLASS_NAME,
+				nameof(operations),
+				operations
+			);
+		}
+
+		await this.fetch<IAuditableItemGraphPatchRequest, INoContentResponse>("/:id", "PATCH", {
+			headers: Is.integer(options?.expectedRevision)
+				? {
+						"if-match": `"${options.expectedRevision}"`
+					}
+				: undefined,
+			pathParams: {
+				id
+			},
+			body: operations
+		});
+	}
+
+	/**
+	 * Create many graph vertices, all the items are validated before any of the vertices are created.
+	 * @param items The vertices to create, edges can reference other items in the batch using their local id.
+	 * @returns The result for each item in the same order as the items.
+	 */
+	public async createMany(
+		items: IAuditableItemGraphBatchCreateItem[]
+	): Promise<IAuditableItemGraphBatchResult[]> {
+		Guards.array<IAuditableItemGraphBatchCreateItem>(this.CLASS_NAME, nameof(items), items);
+
+		const response = await this.fetch<
+			IAuditableItemGraphCreateManyRequest,
+			IAuditableItemGraphBatchResponse
+		>("/batch", "POST", {
+			body: items
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Update many graph vertices, all the items are validated before any of the vertices are updated.
+	 * @param items The vertices to update.
+	 * @returns The result for each item in the same order as the items.
+	 */
+	public async updateMany(
+		items: IAuditableItemGraphBatchUpdateItem[]
+	): Promise<IAuditableItemGraphBatchResult[]> {
+		Guards.array<IAuditableItemGraphBatchUpdateItem>(this.CLASS_NAME, nameof(items), items);
+
+		const response = await this.fetch<
+			IAuditableItemGraphUpdateManyRequest,
+			IAuditableItemGraphBatchResponse
+		>("/batch", "PUT", {
+			body: items
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Resolve an alias to the vertex which uses it.
+	 * @param alias The id of the alias to resolve.
+	 * @param aliasFormat The format of the alias, if not provided any format matches.
+	 * @returns The id of the vertex which uses the alias.
+	 * @throws NotFoundError if no vertex uses the alias.
+	 * @throws ConflictError if more than one vertex uses the alias.
+	 */
+	public async resolveAlias(alias: string, aliasFormat?: string): Promise<string> {
+		Guards.stringValue(this.CLASS_NAME, nameof(alias), alias);
+
+		const response = await this.fetch<
+			IAuditableItemGraphResolveAliasRequest,
+			IAuditableItemGraphResolveAliasResponse
+		>("/aliases/:alias", "GET", {
+			pathParams: {
+				alias
+			},
+			query: {
+				aliasFormat
+			}
+		});
+
+		return response.body.id;
+	}
+
+	/**
+	 * Audit the integrity of the graph by finding the edges of active vertices which point at missing or deleted vertices.
+	 * @returns The dangling edges.
+	 */
+	public async auditIntegrity(): Promise<IAuditableItemGraphDanglingEdge[]> {
+		const response = await this.fetch<INoContentRequest, IAuditableItemGraphAuditIntegrityResponse>(
+			"/integrity",
+			"GET"
+		);
+
+		return response.body;
+	}
+
+	/**
+	 * Export the subgraph starting from a vertex as a single JSON-LD dataset, which can be verified without access to the node.
+	 * @param rootId The id of the vertex to start the export from.
+	 * @param options Additional options for the export.
+	 * @param options.depth The maximum number of edges to follow from the root vertex, defaults to 1, at most 10.
+	 * @param options.relationships The relationships of the edges to follow, defaults to all.
+	 * @param options.includeChangesets Whether to include the changesets of the vertices, defaults to true.
+	 * @param options.includeProofs Whether to include the immutable proofs of the changesets, defaults to true.
+	 * @returns The subgraph as a JSON-LD dataset.
+	 * @throws NotFoundError if the root vertex is not found.
+	 */
+	public async exportSubgraph(
+		rootId: string,
+		options?: {
+			depth?: number;
+			relationships?: string[];
+			includeChangesets?: boolean;
+			includeProofs?: boolean;
+		}
+	): Promise<IAuditableItemGraphExport> {
+		Guards.stringValue(this.CLASS_NAME, nameof(rootId), rootId);
+
+		const response = await this.fetch<
+			IAuditableItemGraphExportRequest,
+			IAuditableItemGraphExportResponse
+		>("/:id/export", "GET", {
+			headers: {
+				[HeaderTypes.Accept]: MimeTypes.JsonLd
+			},
+			pathParams: {
+				id: rootId
+			},
+			query: {
+				depth: options?.depth,
+				relationships: HttpParameterHelper.arrayToString(options?.relationships),
+				includeChangesets: options?.includeChangesets,
+				includeProofs: options?.includeProofs
+			}
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Get the verification bundle for a vertex, which contains its changesets, the reduced changeset JSON-LD each
+	 * proof was created for and the immutable proofs, so the changesets can be verified without access to the node.
+	 * @param id The id of the vertex to get the verification bundle for.
+	 * @returns The verification bundle.
+	 * @throws NotFoundError if the vertex is not found.
+	 */
+	public async getVerificationBundle(id: string): Promise<IAuditableItemGraphVerificationBundle> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		const response = await this.fetch<
+			IAuditableItemGraphVerificationBundleRequest,
+			IAuditableItemGraphVerificationBundleResponse
+		>("/:id/verification-bundle", "GET", {
+			pathParams: {
+				id
+			}
+		});
+
+		return response.body;
+	}
 }
@@ -1,10 +1,191 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
+import { EdgeDirection } from "@twin.org/auditable-item-graph-models";
+import type { MockInstance } from "vitest";
 import { AuditableItemGraphClient } from "../src/auditableItemGraphClient";
 
+const ENDPOINT = "http://localhost:8080";
+const PREFIX = `${ENDPOINT}/auditable-item-graph`;
+
+/**
+ * Mock the fetch so the request the client makes can be inspected.
+ * @param status The status code of the response.
+ * @param body The body of the response.
+ * @returns The mocked fetch.
+ */
+function mockFetch(status: number, body?: unknown): MockInstance<typeof fetch> {
+	return vi.spyOn(globalThis, "fetch").mockImplementation(
+		async () =>
+			new Response(status === 204 ? null : JSON.stringify(body), {
+				status,
+				headers: { "content-type": "application/json" }
+			})
+	);
+}
+
 describe("AuditableItemGraphClient", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
 	test("Can create an instance", async () => {
-		const client = new AuditableItemGraphClient({ endpoint: "http://localhost:8080" });
+		const client = new AuditableItemGraphClient({ endpoint: ENDPOINT });
 		expect(client).toBeDefined();
 	});
+
+	test("Can get the incoming edges of a vertex", async () => {
+		const edgeList = { "@context": [], type: "AuditableItemGraphEdgeList", edges: [] };
+		const fetchMock = mockFetch(200, edgeList);
+
+		const client = new AuditableItemGraphClient({ endpoint: ENDPOINT });
+		const result = await client.getIncomingEdges("aig:1234", {
+			includeDeleted: true,
+			edgeRelationships: ["contains"],
+			pageSize: 5
+		});
+
+		expect(result).toEqual(edgeList);
+		expect(fetchMock.mock.calls[0][0]).toEqual(
+			`${PREFIX}/aig:1234/incoming-edges?includeDeleted=true&edgeRelationships=contains&pageSize=5`
+		);
+		expect(fetchMock.mock.calls[0][1]).toMatchObject({ method: "GET" });
+	});
+
+	test("Can traverse and find paths in the graph", async () => {
+		const fetchMock = mockFetch(200, {});
+
+		const client = new AuditableItemGraphClient({ endpoint: ENDPOINT });
+		await client.traverse("aig:1234", { direction: EdgeDirection.Incoming, maxDepth: 2 });
+		await client.findPath("aig:1234", "aig:5678", { maxHops: 3 });
+
+		expect(fetchMock.mock.calls.map(c => c[0])).toEqual([
+			`${PREFIX}/aig:1234/traverse?direction=incoming&maxDepth=2`,
+			`${PREFIX}/aig:1234/path?toId=aig%3A5678&maxHops=3`
+		]);
+	});
+
+	test("Can get the history of a vertex", async () => {
+		const fetchMock = mockFetch(200, {});
+
+		const client = new AuditableItemGraphClient({ endpoint: ENDPOINT });
+		await client.getChangesets("aig:1234", { pageSize: 10, verify: true });
+		await client.getChangeset("aig:1234:changeset:5678", { verify: true });
+		await client.diff("aig:1234", "5678");
+		await client.blame("aig:1234");
+
+		expect(fetchMock.mock.calls.map(c => c[0])).toEqual([
+			`${PREFIX}/aig:1234/changesets?pageSize=10&verify=true`,
+			`${PREFIX}/aig:1234/changesets/5678?verify=true`,
+			`${PREFIX}/aig:1234/diff?from=5678`,
+			`${PREFIX}/aig:1234/blame`
+		]);
+	});
+
+	test("Can revert a vertex to a changeset", async () => {
+		const fetchMock = mockFetch(204);
+
+		const client = new AuditableItemGraphClient({ endpoint: ENDPOINT });
+		await client.revert("aig:1234", "5678");
+
+		expect(fetchMock.mock.calls[0][0]).toEqual(`${PREFIX}/aig:1234/revert`);
+		expect(fetchMock.mock.calls[0][1]).toMatchObject({
+			method: "POST",
+			body: JSON.stringify({ changesetId: "5678" })
+		});
+	});
+
+	test("Can send the expected revision when updating and patching a vertex", async () => {
+		const fetchMock = mockFetch(204);
+
+		const client = new AuditableItemGraphClient({ endpoint: ENDPOINT });
+		await client.update(
+			"aig:1234",
+			undefined,
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			{
+				expectedRevision: 2
+			}
+		);
+		await client.patch("aig:1234", { aliases: { foo123: null } }, undefined, undefined, {
+			expectedRevision: 3
+		});
+		await client.update("aig:1234", undefined, [{ id: "foo123" }]);
+
+		expect(fetchMock.mock.calls[0][0]).toEqual(`${PREFIX}/aig:1234`);
+		expect(fetchMock.mock.calls[0][1]).toMatchObject({
+			method: "PUT",
+			headers: { "if-match": '"2"' }
+		});
+		expect(fetchMock.mock.calls[1][1]).toMatchObject({
+			method: "PATCH",
+			headers: { "if-match": '"3"' }
+		});
+		expect(fetchMock.mock.calls[2][1]?.headers).not.toHaveProperty("if-match");
+	});
+
+	test("Can fail an update when the vertex is not at the expected revision", async () => {
+		mockFetch(409, {
+			name: "ConflictError",
+			source: "AuditableItemGraphService",
+			message: "auditableItemGraphService.revisionMismatch"
+		});
+
+		const client = new AuditableItemGraphClient({ endpoint: ENDPOINT });
+		await expect(
+			client.update("aig:1234", undefined, undefined, undefined, undefined, undefined, undefined, {
+				expectedRevision: 1
+			})
+		).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "auditableItemGraphService.revisionMismatch"
+		});
+	});
+
+	test("Can create and update vertices in a batch", async () => {
+		const results = [{ id: "aig:1234" }];
+		const fetchMock = mockFetch(200, results);
+
+		const client = new AuditableItemGraphClient({ endpoint: ENDPOINT });
+		expect(await client.createMany([{ aliases: [{ id: "foo123" }] }])).toEqual(results);
+		expect(await client.updateMany([{ id: "aig:1234", aliases: [{ id: "foo123" }] }])).toEqual(
+			results
+		);
+
+		expect(fetchMock.mock.calls.map(c => [c[0], c[1]?.method])).toEqual([
+			[`${PREFIX}/batch`, "POST"],
+			[`${PREFIX}/batch`, "PUT"]
+		]);
+	});
+
+	test("Can resolve an alias and audit the integrity of the graph", async () => {
+		const fetchMock = mockFetch(200, { id: "aig:1234" });
+
+		const client = new AuditableItemGraphClient({ endpoint: ENDPOINT });
+		expect(await client.resolveAlias("foo123", "gtin")).toEqual("aig:1234");
+		await client.auditIntegrity();
+
+		expect(fetchMock.mock.calls.map(c => c[0])).toEqual([
+			`${PREFIX}/aliases/foo123?aliasFormat=gtin`,
+			`${PREFIX}/integrity`
+		]);
+	});
+
+	test("Can export a subgraph, get a verification bundle and remove immutable storage", async () => {
+		const fetchMock = mockFetch(200, {});
+
+		const client = new AuditableItemGraphClient({ endpoint: ENDPOINT });
+		await client.exportSubgraph("aig:1234", { depth: 2, includeProofs: false });
+		await client.getVerificationBundle("aig:1234");
+		await client.removeImmutable("aig:1234");
+
+		expect(fetchMock.mock.calls.map(c => [c[0], c[1]?.method])).toEqual([
+			[`${PREFIX}/aig:1234/export?depth=2&includeProofs=false`, "GET"],
+			[`${PREFIX}/aig:1234/verification-bundle`, "GET"],
+			[`${PREFIX}/aig:1234/immutable`, "DELETE"]
+		]);
+	});
 });
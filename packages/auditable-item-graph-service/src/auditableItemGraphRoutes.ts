@@ -4,24 +4,57 @@ import {
 	HttpParameterHelper,
 	type ICreatedResponse,
 	type IHttpRequestContext,
+	type INoContentRequest,
 	type INoContentResponse,
 	type IRestRoute,
 	type ITag
 } from "@twin.org/api-models";
 import {
 	AuditableItemGraphTypes,
+	EdgeDirection,
+	type IAuditableItemGraphAuditIntegrityResponse,
+	type IAuditableItemGraphBatchResponse,
+	type IAuditableItemGraphBlameRequest,
+	type IAuditableItemGraphBlameResponse,
+	type IAuditableItemGraphChangesetGetRequest,
+	type IAuditableItemGraphChangesetGetResponse,
+	type IAuditableItemGraphChangesetsRequest,
+	type IAuditableItemGraphChangesetsResponse,
 	type IAuditableItemGraphComponent,
+	type IAuditableItemGraphDiffRequest,
+	type IAuditableItemGraphDiffResponse,
+	type IAuditableItemGraphExportRequest,
+	type IAuditableItemGraphExportResponse,
+	type IAuditableItemGraphCreateManyRequest,
 	type IAuditableItemGraphCreateRequest,
 	type IAuditableItemGraphGetRequest,
 	type IAuditableItemGraphGetResponse,
+	type IAuditableItemGraphIncomingEdgesRequest,
+	type IAuditableItemGraphIncomingEdgesResponse,
 	type IAuditableItemGraphListRequest,
 	type IAuditableItemGraphListResponse,
-	type IAuditableItemGraphUpdateRequest
+	type IAuditableItemGraphPatchRequest,
+	type IAuditableItemGraphPathRequest,
+	type IAuditableItemGraphPathResponse,
+	type IAuditableItemGraphRemoveImmutableRequest,
+	type IAuditableItemGraphRemoveImmutableResponse,
+	type IAuditableItemGraphRemoveRequest,
+	type IAuditableItemGraphResolveAliasRequest,
+	type IAuditableItemGraphResolveAliasResponse,
+	type IAuditableItemGraphRevertRequest,
+	type IAuditableItemGraphTraverseRequest,
+	type IAuditableItemGraphTraverseResponse,
+	type IAuditableItemGraphUpdateManyRequest,
+	type IAuditableItemGraphUpdateRequest,
+	type IAuditableItemGraphVerificationBundleRequest,
+	type IAuditableItemGraphVerificationBundleResponse
 } from "@twin.org/auditable-item-graph-models";
-import { ComponentFactory, Guards } from "@twin.org/core";
+import { ComponentFactory, Guards, Is } from "@twin.org/core";
 import { SchemaOrgTypes } from "@twin.org/data-schema-org";
+import { ImmutableProofTypes } from "@twin.org/immutable-proof-models";
 import { nameof } from "@twin.org/nameof";
 import { HeaderTypes, HttpStatusCode, MimeTypes } from "@twin.org/web";
+import { AuditableItemGraphService } from "./auditableItemGraphService";
 
 /**
  * The source used when communicating about these routes.
@@ -62,6 +95,9 @@ export function generateRestRoutesAuditableItemGraph(
 				{
 					id: "auditableItemGraphCreateRequestExample",
 					request: {
+						headers: {
+							"idempotency-key": "6f1b2c4e-8a5d-4f3e-9b7a-2d1c0e9f8a7b"
+						},
 						body: {
 							annotationObject: {
 								"@context": "http://schema.org/",
@@ -185,6 +221,7 @@ export function generateRestRoutesAuditableItemGraph(
 								id: "aig:1234567890",
 								dateCreated: "2024-08-22T11:55:16.271Z",
 								dateModified: "2024-08-22T11:55:16.271Z",
+								revision: 1,
 								annotationObject: {
 									"@context": "http://schema.org/",
 									"@type": "Note",
@@ -211,7 +248,8 @@ export function generateRestRoutesAuditableItemGraph(
 						id: "auditableItemGraphJsonLdGetResponseExample",
 						response: {
 							headers: {
-								[HeaderTypes.ContentType]: MimeTypes.JsonLd
+								[HeaderTypes.ContentType]: MimeTypes.JsonLd,
+								etag: '"1"'
 							},
 							body: {
 								"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
@@ -219,6 +257,7 @@ export function generateRestRoutesAuditableItemGraph(
 								id: "aig:1234567890",
 								dateCreated: "2024-08-22T11:55:16.271Z",
 								dateModified: "2024-08-22T11:55:16.271Z",
+								revision: 1,
 								annotationObject: {
 									"@context": "http://schema.org/",
 									"@type": "Note",
@@ -254,6 +293,9 @@ export function generateRestRoutesAuditableItemGraph(
 				{
 					id: "auditableItemGraphUpdateRequestExample",
 					request: {
+						headers: {
+							"if-match": '"1"'
+						},
 						pathParams: {
 							id: "aig:1234567890"
 						},
@@ -432,147 +474,1794 @@ export function generateRestRoutesAuditableItemGraph(
 		]
 	};
 
-	return [createRoute, getRoute, updateRoute, listRoute];
-}
-
-/**
- * Create the graph vertex.
- * @param httpRequestContext The request context for the API.
- * @param componentName The name of the component to use in the routes.
- * @param request The request.
- * @returns The response object with additional http response properties.
- */
-export async function auditableItemGraphCreate(
-	httpRequestContext: IHttpRequestContext,
-	componentName: string,
-	request: IAuditableItemGraphCreateRequest
-): Promise<ICreatedResponse> {
-	Guards.object<IAuditableItemGraphCreateRequest>(ROUTES_SOURCE, nameof(request), request);
-
-	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
-	const id = await component.create(
-		request.body?.annotationObject,
-		request.body?.aliases,
-		request.body?.resources,
-		request.body?.edges,
-		httpRequestContext.userIdentity,
-		httpRequestContext.nodeIdentity
-	);
-	return {
-		statusCode: HttpStatusCode.created,
-		headers: {
-			[HeaderTypes.Location]: id
-		}
+	const incomingEdgesRoute: IRestRoute<
+		IAuditableItemGraphIncomingEdgesRequest,
+		IAuditableItemGraphIncomingEdgesResponse
+	> = {
+		operationId: "auditableItemGraphIncomingEdges",
+		summary: "Get the edges from other vertices which point at a graph vertex",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "GET",
+		path: `${baseRouteName}/:id/incoming-edges`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphIncomingEdges(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphIncomingEdgesRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphIncomingEdgesRequestExample",
+					request: {
+						headers: {
+							[HeaderTypes.Accept]: MimeTypes.Json
+						},
+						pathParams: {
+							id: "aig:1234567890"
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphIncomingEdgesResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphIncomingEdgesResponseExample",
+						response: {
+							body: {
+								"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+								type: AuditableItemGraphTypes.EdgeList,
+								edges: [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.Edge,
+										id: "0101010101010101010101010101010101010101010101010101010101010101",
+										dateCreated: "2024-08-22T11:55:16.271Z",
+										edgeRelationship: "contains"
+									}
+								]
+							}
+						}
+					}
+				]
+			},
+			{
+				type: nameof<IAuditableItemGraphIncomingEdgesResponse>(),
+				mimeType: MimeTypes.JsonLd,
+				examples: [
+					{
+						id: "auditableItemGraphJsonLdIncomingEdgesResponseExample",
+						response: {
+							headers: {
+								[HeaderTypes.ContentType]: MimeTypes.JsonLd
+							},
+							body: {
+								"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+								type: AuditableItemGraphTypes.EdgeList,
+								edges: [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.Edge,
+										id: "0101010101010101010101010101010101010101010101010101010101010101",
+										dateCreated: "2024-08-22T11:55:16.271Z",
+										edgeRelationship: "contains"
+									}
+								]
+							}
+						}
+					}
+				]
+			}
+		]
 	};
-}
-
-/**
- * Get the graph vertex.
- * @param httpRequestContext The request context for the API.
- * @param componentName The name of the component to use in the routes.
- * @param request The request.
- * @returns The response object with additional http response properties.
- */
-export async function auditableItemGraphGet(
-	httpRequestContext: IHttpRequestContext,
-	componentName: string,
-	request: IAuditableItemGraphGetRequest
-): Promise<IAuditableItemGraphGetResponse> {
-	Guards.object<IAuditableItemGraphGetRequest>(ROUTES_SOURCE, nameof(request), request);
-	Guards.object<IAuditableItemGraphGetRequest["pathParams"]>(
-		ROUTES_SOURCE,
-		nameof(request.pathParams),
-		request.pathParams
-	);
-	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
-
-	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
 
-	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
-	const result = await component.get(request.pathParams.id, {
-		includeDeleted: request.query?.includeDeleted,
-		includeChangesets: request.query?.includeChangesets,
-		verifySignatureDepth: request.query?.verifySignatureDepth
-	});
+	const traverseRoute: IRestRoute<
+		IAuditableItemGraphTraverseRequest,
+		IAuditableItemGraphTraverseResponse
+	> = {
+		operationId: "auditableItemGraphTraverse",
+		summary: "Traverse the graph starting from a vertex",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "GET",
+		path: `${baseRouteName}/:id/traverse`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphTraverse(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphTraverseRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphTraverseRequestExample",
+					request: {
+						headers: {
+							[HeaderTypes.Accept]: MimeTypes.Json
+						},
+						pathParams: {
+							id: "aig:1234567890"
+						},
+						query: {
+							direction: EdgeDirection.Outgoing,
+							maxDepth: 2,
+							edgeRelationships: "contains"
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphTraverseResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphTraverseResponseExample",
+						response: {
+							body: {
+								"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+								type: AuditableItemGraphTypes.VertexList,
+								vertices: [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.Vertex,
+										id: "0101010101010101010101010101010101010101010101010101010101010101",
+										dateCreated: "2024-08-22T11:55:16.271Z",
+										edges: [
+											{
+												"@context": [
+													AuditableItemGraphTypes.ContextRoot,
+													SchemaOrgTypes.ContextRoot
+												],
+												type: AuditableItemGraphTypes.Edge,
+												id: "aig:0202020202020202020202020202020202020202020202020202020202020202",
+												dateCreated: "2024-08-22T11:55:16.271Z",
+												edgeRelationship: "contains"
+											}
+										]
+									},
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.Vertex,
+										id: "0202020202020202020202020202020202020202020202020202020202020202",
+										dateCreated: "2024-08-22T11:55:16.271Z"
+									}
+								]
+							}
+						}
+					}
+				]
+			},
+			{
+				type: nameof<IAuditableItemGraphTraverseResponse>(),
+				mimeType: MimeTypes.JsonLd,
+				examples: [
+					{
+						id: "auditableItemGraphJsonLdTraverseResponseExample",
+						response: {
+							headers: {
+								[HeaderTypes.ContentType]: MimeTypes.JsonLd
+							},
+							body: {
+								"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+								type: AuditableItemGraphTypes.VertexList,
+								vertices: [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.Vertex,
+										id: "0101010101010101010101010101010101010101010101010101010101010101",
+										dateCreated: "2024-08-22T11:55:16.271Z",
+										edges: [
+											{
+												"@context": [
+													AuditableItemGraphTypes.ContextRoot,
+													SchemaOrgTypes.ContextRoot
+												],
+												type: AuditableItemGraphTypes.Edge,
+												id: "aig:0202020202020202020202020202020202020202020202020202020202020202",
+												dateCreated: "2024-08-22T11:55:16.271Z",
+												edgeRelationship: "contains"
+											}
+										]
+									},
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.Vertex,
+										id: "0202020202020202020202020202020202020202020202020202020202020202",
+										dateCreated: "2024-08-22T11:55:16.271Z"
+									}
+								]
+							}
+						}
+					}
+				]
+			}
+		]
+	};
 
-	return {
-		headers: {
-			[HeaderTypes.ContentType]: mimeType === "json" ? MimeTypes.Json : MimeTypes.JsonLd
+	const exportRoute: IRestRoute<
+		IAuditableItemGraphExportRequest,
+		IAuditableItemGraphExportResponse
+	> = {
+		operationId: "auditableItemGraphExport",
+		summary: "Export the subgraph starting from a vertex as a JSON-LD dataset",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "GET",
+		path: `${baseRouteName}/:id/export`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphExport(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphExportRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphExportRequestExample",
+					request: {
+						headers: {
+							[HeaderTypes.Accept]: MimeTypes.Json
+						},
+						pathParams: {
+							id: "aig:1234567890"
+						},
+						query: {
+							depth: 2,
+							relationships: "contains"
+						}
+					}
+				}
+			]
 		},
-		body: result
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphExportResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphExportResponseExample",
+						response: {
+							body: {
+								"@context": [
+									AuditableItemGraphTypes.ContextRoot,
+									ImmutableProofTypes.ContextRoot,
+									SchemaOrgTypes.ContextRoot
+								],
+								type: AuditableItemGraphTypes.Export,
+								rootId: "aig:0101010101010101010101010101010101010101010101010101010101010101",
+								dateCreated: "2024-08-22T11:56:56.272Z",
+								"@graph": [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.Vertex,
+										id: "0101010101010101010101010101010101010101010101010101010101010101",
+										dateCreated: "2024-08-22T11:55:16.271Z"
+									},
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.Changeset,
+										id: "aig:0101010101010101010101010101010101010101010101010101010101010101:changeset:0202020202020202020202020202020202020202020202020202020202020202",
+										dateCreated: "2024-08-22T11:55:16.271Z",
+										userIdentity:
+											"did:entity-storage:0x5858585858585858585858585858585858585858585858585858585858585858",
+										patches: [],
+										proofId:
+											"immutable-proof:0303030303030303030303030303030303030303030303030303030303030303"
+									}
+								]
+							}
+						}
+					}
+				]
+			}
+		]
 	};
-}
 
-/**
- * Update the graph vertex.
+	const verificationBundleRoute: IRestRoute<
+		IAuditableItemGraphVerificationBundleRequest,
+		IAuditableItemGraphVerificationBundleResponse
+	> = {
+		operationId: "auditableItemGraphVerificationBundle",
+		summary: "Get the changesets and proofs of a graph vertex for verification without the node",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "GET",
+		path: `${baseRouteName}/:id/verification-bundle`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphVerificationBundle(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphVerificationBundleRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphVerificationBundleRequestExample",
+					request: {
+						pathParams: {
+							id: "aig:1234567890"
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphVerificationBundleResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphVerificationBundleResponseExample",
+						response: {
+							body: {
+								"@context": [
+									AuditableItemGraphTypes.ContextRoot,
+									ImmutableProofTypes.ContextRoot,
+									SchemaOrgTypes.ContextRoot
+								],
+								type: AuditableItemGraphTypes.VerificationBundle,
+								vertexId: "aig:0101010101010101010101010101010101010101010101010101010101010101",
+								dateCreated: "2024-08-22T11:56:56.272Z",
+								entries: [
+									{
+										changeset: {
+											"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+											type: AuditableItemGraphTypes.Changeset,
+											id: "0202020202020202020202020202020202020202020202020202020202020202",
+											dateCreated: "2024-08-22T11:55:16.271Z",
+											userIdentity:
+												"did:entity-storage:0x5858585858585858585858585858585858585858585858585858585858585858",
+											patches: [],
+											proofId:
+												"immutable-proof:0303030303030303030303030303030303030303030303030303030303030303"
+										},
+										proofObject: {
+											"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+											type: AuditableItemGraphTypes.Changeset,
+											id: "aig:0101010101010101010101010101010101010101010101010101010101010101:changeset:0202020202020202020202020202020202020202020202020202020202020202",
+											dateCreated: "2024-08-22T11:55:16.271Z",
+											userIdentity:
+												"did:entity-storage:0x5858585858585858585858585858585858585858585858585858585858585858",
+											patches: []
+										}
+									}
+								]
+							}
+						}
+					}
+				]
+			}
+		]
+	};
+
+	const findPathRoute: IRestRoute<IAuditableItemGraphPathRequest, IAuditableItemGraphPathResponse> =
+		{
+			operationId: "auditableItemGraphFindPath",
+			summary: "Find the shortest path between two graph vertices",
+			tag: tagsAuditableItemGraph[0].name,
+			method: "GET",
+			path: `${baseRouteName}/:id/path`,
+			handler: async (httpRequestContext, request) =>
+				auditableItemGraphFindPath(httpRequestContext, componentName, request),
+			requestType: {
+				type: nameof<IAuditableItemGraphPathRequest>(),
+				examples: [
+					{
+						id: "auditableItemGraphFindPathRequestExample",
+						request: {
+							headers: {
+								[HeaderTypes.Accept]: MimeTypes.Json
+							},
+							pathParams: {
+								id: "aig:0101010101010101010101010101010101010101010101010101010101010101"
+							},
+							query: {
+								toId: "aig:0202020202020202020202020202020202020202020202020202020202020202",
+								edgeRelationships: "contains",
+								maxHops: 5
+							}
+						}
+					}
+				]
+			},
+			responseType: [
+				{
+					type: nameof<IAuditableItemGraphPathResponse>(),
+					examples: [
+						{
+							id: "auditableItemGraphFindPathResponseExample",
+							response: {
+								body: {
+									"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+									type: AuditableItemGraphTypes.Path,
+									connected: true,
+									vertices: [
+										"aig:0101010101010101010101010101010101010101010101010101010101010101",
+										"aig:0202020202020202020202020202020202020202020202020202020202020202"
+									],
+									edges: [
+										{
+											type: AuditableItemGraphTypes.PathEdge,
+											sourceId:
+												"aig:0101010101010101010101010101010101010101010101010101010101010101",
+											targetId:
+												"aig:0202020202020202020202020202020202020202020202020202020202020202",
+											edgeRelationship: "contains"
+										}
+									]
+								}
+							}
+						}
+					]
+				},
+				{
+					type: nameof<IAuditableItemGraphPathResponse>(),
+					mimeType: MimeTypes.JsonLd,
+					examples: [
+						{
+							id: "auditableItemGraphJsonLdFindPathResponseExample",
+							response: {
+								headers: {
+									[HeaderTypes.ContentType]: MimeTypes.JsonLd
+								},
+								body: {
+									"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+									type: AuditableItemGraphTypes.Path,
+									connected: true,
+									vertices: [
+										"aig:0101010101010101010101010101010101010101010101010101010101010101",
+										"aig:0202020202020202020202020202020202020202020202020202020202020202"
+									],
+									edges: [
+										{
+											type: AuditableItemGraphTypes.PathEdge,
+											sourceId:
+												"aig:0101010101010101010101010101010101010101010101010101010101010101",
+											targetId:
+												"aig:0202020202020202020202020202020202020202020202020202020202020202",
+											edgeRelationship: "contains"
+										}
+									]
+								}
+							}
+						}
+					]
+				}
+			]
+		};
+
+	const changesetsRoute: IRestRoute<
+		IAuditableItemGraphChangesetsRequest,
+		IAuditableItemGraphChangesetsResponse
+	> = {
+		operationId: "auditableItemGraphChangesets",
+		summary: "Get the changesets for a graph vertex",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "GET",
+		path: `${baseRouteName}/:id/changesets`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphChangesets(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphChangesetsRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphChangesetsRequestExample",
+					request: {
+						headers: {
+							[HeaderTypes.Accept]: MimeTypes.Json
+						},
+						pathParams: {
+							id: "aig:1234567890"
+						},
+						query: {
+							from: "2024-08-01T00:00:00.000Z",
+							pageSize: 10
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphChangesetsResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphChangesetsResponseExample",
+						response: {
+							body: {
+								"@context": [
+									AuditableItemGraphTypes.ContextRoot,
+									ImmutableProofTypes.ContextRoot,
+									SchemaOrgTypes.ContextRoot
+								],
+								type: AuditableItemGraphTypes.ChangesetList,
+								changesets: [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.Changeset,
+										id: "0202020202020202020202020202020202020202020202020202020202020202",
+										dateCreated: "2024-08-22T11:55:16.271Z",
+										userIdentity:
+											"did:entity-storage:0x5858585858585858585858585858585858585858585858585858585858585858",
+										patches: [
+											{
+												"@context": [
+													AuditableItemGraphTypes.ContextRoot,
+													SchemaOrgTypes.ContextRoot
+												],
+												type: AuditableItemGraphTypes.PatchOperation,
+												patchOperation: "add",
+												patchPath: "/aliases",
+												patchValue: [{ id: "foo4", dateCreated: "2024-08-22T11:55:16.271Z" }]
+											}
+										],
+										proofId:
+											"immutable-proof:0303030303030303030303030303030303030303030303030303030303030303"
+									}
+								],
+								cursor: "1"
+							}
+						}
+					}
+				]
+			},
+			{
+				type: nameof<IAuditableItemGraphChangesetsResponse>(),
+				mimeType: MimeTypes.JsonLd,
+				examples: [
+					{
+						id: "auditableItemGraphJsonLdChangesetsResponseExample",
+						response: {
+							headers: {
+								[HeaderTypes.ContentType]: MimeTypes.JsonLd
+							},
+							body: {
+								"@context": [
+									AuditableItemGraphTypes.ContextRoot,
+									ImmutableProofTypes.ContextRoot,
+									SchemaOrgTypes.ContextRoot
+								],
+								type: AuditableItemGraphTypes.ChangesetList,
+								changesets: [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.Changeset,
+										id: "0202020202020202020202020202020202020202020202020202020202020202",
+										dateCreated: "2024-08-22T11:55:16.271Z",
+										userIdentity:
+											"did:entity-storage:0x5858585858585858585858585858585858585858585858585858585858585858",
+										patches: [
+											{
+												"@context": [
+													AuditableItemGraphTypes.ContextRoot,
+													SchemaOrgTypes.ContextRoot
+												],
+												type: AuditableItemGraphTypes.PatchOperation,
+												patchOperation: "add",
+												patchPath: "/aliases",
+												patchValue: [{ id: "foo4", dateCreated: "2024-08-22T11:55:16.271Z" }]
+											}
+										],
+										proofId:
+											"immutable-proof:0303030303030303030303030303030303030303030303030303030303030303"
+									}
+								],
+								cursor: "1"
+							}
+						}
+					}
+				]
+			}
+		]
+	};
+
+	const changesetGetRoute: IRestRoute<
+		IAuditableItemGraphChangesetGetRequest,
+		IAuditableItemGraphChangesetGetResponse
+	> = {
+		operationId: "auditableItemGraphChangesetGet",
+		summary: "Get a single changeset for a graph vertex",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "GET",
+		path: `${baseRouteName}/:id/changesets/:changesetId`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphChangesetGet(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphChangesetGetRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphChangesetGetRequestExample",
+					request: {
+						headers: {
+							[HeaderTypes.Accept]: MimeTypes.Json
+						},
+						pathParams: {
+							id: "aig:0101010101010101010101010101010101010101010101010101010101010101",
+							changesetId: "0202020202020202020202020202020202020202020202020202020202020202"
+						},
+						query: {
+							verify: true
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphChangesetGetResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphChangesetGetResponseExample",
+						response: {
+							body: {
+								"@context": [
+									AuditableItemGraphTypes.ContextRoot,
+									ImmutableProofTypes.ContextRoot,
+									SchemaOrgTypes.ContextRoot
+								],
+								type: AuditableItemGraphTypes.Changeset,
+								id: "0202020202020202020202020202020202020202020202020202020202020202",
+								dateCreated: "2024-08-22T11:55:16.271Z",
+								userIdentity:
+									"did:entity-storage:0x5858585858585858585858585858585858585858585858585858585858585858",
+								patches: [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.PatchOperation,
+										patchOperation: "add",
+										patchPath: "/aliases",
+										patchValue: [{ id: "foo4", dateCreated: "2024-08-22T11:55:16.271Z" }]
+									}
+								],
+								proofId:
+									"immutable-proof:0303030303030303030303030303030303030303030303030303030303030303",
+								verification: {
+									"@context": ImmutableProofTypes.ContextRoot,
+									type: ImmutableProofTypes.ImmutableProofVerification,
+									verified: true
+								}
+							}
+						}
+					}
+				]
+			},
+			{
+				type: nameof<IAuditableItemGraphChangesetGetResponse>(),
+				mimeType: MimeTypes.JsonLd,
+				examples: [
+					{
+						id: "auditableItemGraphJsonLdChangesetGetResponseExample",
+						response: {
+							headers: {
+								[HeaderTypes.ContentType]: MimeTypes.JsonLd
+							},
+							body: {
+								"@context": [
+									AuditableItemGraphTypes.ContextRoot,
+									ImmutableProofTypes.ContextRoot,
+									SchemaOrgTypes.ContextRoot
+								],
+								type: AuditableItemGraphTypes.Changeset,
+								id: "0202020202020202020202020202020202020202020202020202020202020202",
+								dateCreated: "2024-08-22T11:55:16.271Z",
+								userIdentity:
+									"did:entity-storage:0x5858585858585858585858585858585858585858585858585858585858585858",
+								patches: [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.PatchOperation,
+										patchOperation: "add",
+										patchPath: "/aliases",
+										patchValue: [{ id: "foo4", dateCreated: "2024-08-22T11:55:16.271Z" }]
+									}
+								],
+								proofId:
+									"immutable-proof:0303030303030303030303030303030303030303030303030303030303030303",
+								verification: {
+									"@context": ImmutableProofTypes.ContextRoot,
+									type: ImmutableProofTypes.ImmutableProofVerification,
+									verified: true
+								}
+							}
+						}
+					}
+				]
+			}
+		]
+	};
+
+	const diffRoute: IRestRoute<IAuditableItemGraphDiffRequest, IAuditableItemGraphDiffResponse> = {
+		operationId: "auditableItemGraphDiff",
+		summary: "Get the differences between two versions of a graph vertex",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "GET",
+		path: `${baseRouteName}/:id/diff`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphDiff(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphDiffRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphDiffRequestExample",
+					request: {
+						headers: {
+							[HeaderTypes.Accept]: MimeTypes.Json
+						},
+						pathParams: {
+							id: "aig:1234567890"
+						},
+						query: {
+							from: "2024-08-22T11:55:16.271Z"
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphDiffResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphDiffResponseExample",
+						response: {
+							body: {
+								"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+								type: AuditableItemGraphTypes.Diff,
+								patches: [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.PatchOperation,
+										patchOperation: "add",
+										patchPath: "/aliases/-",
+										patchValue: { id: "foo5", dateCreated: "2024-08-22T11:56:56.272Z" }
+									}
+								],
+								annotationObjectModified: false,
+								aliases: {
+									type: AuditableItemGraphTypes.DiffSummary,
+									added: ["foo5"],
+									removed: [],
+									modified: []
+								},
+								resources: {
+									type: AuditableItemGraphTypes.DiffSummary,
+									added: [],
+									removed: [],
+									modified: []
+								},
+								edges: {
+									type: AuditableItemGraphTypes.DiffSummary,
+									added: [],
+									removed: [],
+									modified: []
+								}
+							}
+						}
+					}
+				]
+			},
+			{
+				type: nameof<IAuditableItemGraphDiffResponse>(),
+				mimeType: MimeTypes.JsonLd,
+				examples: [
+					{
+						id: "auditableItemGraphJsonLdDiffResponseExample",
+						response: {
+							headers: {
+								[HeaderTypes.ContentType]: MimeTypes.JsonLd
+							},
+							body: {
+								"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+								type: AuditableItemGraphTypes.Diff,
+								patches: [
+									{
+										"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+										type: AuditableItemGraphTypes.PatchOperation,
+										patchOperation: "add",
+										patchPath: "/aliases/-",
+										patchValue: { id: "foo5", dateCreated: "2024-08-22T11:56:56.272Z" }
+									}
+								],
+								annotationObjectModified: false,
+								aliases: {
+									type: AuditableItemGraphTypes.DiffSummary,
+									added: ["foo5"],
+									removed: [],
+									modified: []
+								},
+								resources: {
+									type: AuditableItemGraphTypes.DiffSummary,
+									added: [],
+									removed: [],
+									modified: []
+								},
+								edges: {
+									type: AuditableItemGraphTypes.DiffSummary,
+									added: [],
+									removed: [],
+									modified: []
+								}
+							}
+						}
+					}
+				]
+			}
+		]
+	};
+
+	const revertRoute: IRestRoute<IAuditableItemGraphRevertRequest, INoContentResponse> = {
+		operationId: "auditableItemGraphRevert",
+		summary: "Revert a graph vertex to a previous version",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "POST",
+		path: `${baseRouteName}/:id/revert`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphRevert(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphRevertRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphRevertRequestExample",
+					request: {
+						pathParams: {
+							id: "aig:1234567890"
+						},
+						body: {
+							changesetId: "0202020202020202020202020202020202020202020202020202020202020202"
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<INoContentResponse>()
+			}
+		]
+	};
+
+	const blameRoute: IRestRoute<IAuditableItemGraphBlameRequest, IAuditableItemGraphBlameResponse> =
+		{
+			operationId: "auditableItemGraphBlame",
+			summary: "Get the changeset which last modified each property of a graph vertex",
+			tag: tagsAuditableItemGraph[0].name,
+			method: "GET",
+			path: `${baseRouteName}/:id/blame`,
+			handler: async (httpRequestContext, request) =>
+				auditableItemGraphBlame(httpRequestContext, componentName, request),
+			requestType: {
+				type: nameof<IAuditableItemGraphBlameRequest>(),
+				examples: [
+					{
+						id: "auditableItemGraphBlameRequestExample",
+						request: {
+							headers: {
+								[HeaderTypes.Accept]: MimeTypes.Json
+							},
+							pathParams: {
+								id: "aig:1234567890"
+							}
+						}
+					}
+				]
+			},
+			responseType: [
+				{
+					type: nameof<IAuditableItemGraphBlameResponse>(),
+					examples: [
+						{
+							id: "auditableItemGraphBlameResponseExample",
+							response: {
+								body: {
+									"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+									type: AuditableItemGraphTypes.Blame,
+									entries: [
+										{
+											type: AuditableItemGraphTypes.BlameEntry,
+											pointer: "/annotationObject/content",
+											changesetId:
+												"0202020202020202020202020202020202020202020202020202020202020202",
+											userIdentity:
+												"did:entity-storage:0x5858585858585858585858585858585858585858585858585858585858585858",
+											dateCreated: "2024-08-22T11:55:16.271Z"
+										}
+									]
+								}
+							}
+						}
+					]
+				},
+				{
+					type: nameof<IAuditableItemGraphBlameResponse>(),
+					mimeType: MimeTypes.JsonLd,
+					examples: [
+						{
+							id: "auditableItemGraphJsonLdBlameResponseExample",
+							response: {
+								headers: {
+									[HeaderTypes.ContentType]: MimeTypes.JsonLd
+								},
+								body: {
+									"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+									type: AuditableItemGraphTypes.Blame,
+									entries: [
+										{
+											type: AuditableItemGraphTypes.BlameEntry,
+											pointer: "/annotationObject/content",
+											changesetId:
+												"0202020202020202020202020202020202020202020202020202020202020202",
+											userIdentity:
+												"did:entity-storage:0x5858585858585858585858585858585858585858585858585858585858585858",
+											dateCreated: "2024-08-22T11:55:16.271Z"
+										}
+									]
+								}
+							}
+						}
+					]
+				}
+			]
+		};
+
+	const patchRoute: IRestRoute<IAuditableItemGraphPatchRequest, INoContentResponse> = {
+		operationId: "auditableItemGraphPatch",
+		summary: "Partially update a graph vertex",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "PATCH",
+		path: `${baseRouteName}/:id`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphPatch(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphPatchRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphPatchRequestExample",
+					request: {
+						headers: {
+							"if-match": '"1"'
+						},
+						pathParams: {
+							id: "aig:1234567890"
+						},
+						body: [
+							{
+								op: "add",
+								path: "/aliases/bar456",
+								value: {}
+							}
+						]
+					}
+				},
+				{
+					id: "auditableItemGraphMergePatchRequestExample",
+					request: {
+						pathParams: {
+							id: "aig:1234567890"
+						},
+						body: {
+							aliases: {
+								foo123: null
+							}
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<INoContentResponse>()
+			}
+		]
+	};
+
+	const removeRoute: IRestRoute<IAuditableItemGraphRemoveRequest, INoContentResponse> = {
+		operationId: "auditableItemGraphRemove",
+		summary: "Remove a graph vertex",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "DELETE",
+		path: `${baseRouteName}/:id`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphRemove(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphRemoveRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphRemoveRequestExample",
+					request: {
+						pathParams: {
+							id: "aig:1234567890"
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<INoContentResponse>()
+			}
+		]
+	};
+
+	const createManyRoute: IRestRoute<
+		IAuditableItemGraphCreateManyRequest,
+		IAuditableItemGraphBatchResponse
+	> = {
+		operationId: "auditableItemGraphCreateMany",
+		summary: "Create many graph vertices",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "POST",
+		path: `${baseRouteName}/batch`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphCreateMany(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphCreateManyRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphCreateManyRequestExample",
+					request: {
+						body: [
+							{
+								localId: "pallet",
+								annotationObject: {
+									"@context": "http://schema.org/",
+									"@type": "Note",
+									content: "This is a pallet"
+								},
+								aliases: [{ id: "pallet123" }]
+							},
+							{
+								annotationObject: {
+									"@context": "http://schema.org/",
+									"@type": "Note",
+									content: "This is a box on the pallet"
+								},
+								edges: [{ localId: "pallet", edgeRelationship: "packedOn" }]
+							}
+						]
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphBatchResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphCreateManyResponseExample",
+						response: {
+							body: [
+								{
+									id: "aig:0101010101010101010101010101010101010101010101010101010101010101",
+									localId: "pallet"
+								},
+								{
+									id: "aig:0202020202020202020202020202020202020202020202020202020202020202"
+								}
+							]
+						}
+					}
+				]
+			}
+		]
+	};
+
+	const updateManyRoute: IRestRoute<
+		IAuditableItemGraphUpdateManyRequest,
+		IAuditableItemGraphBatchResponse
+	> = {
+		operationId: "auditableItemGraphUpdateMany",
+		summary: "Update many graph vertices",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "PUT",
+		path: `${baseRouteName}/batch`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphUpdateMany(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphUpdateManyRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphUpdateManyRequestExample",
+					request: {
+						body: [
+							{
+								id: "aig:0101010101010101010101010101010101010101010101010101010101010101",
+								annotationObject: {
+									"@context": "http://schema.org/",
+									"@type": "Note",
+									content: "This is an updated pallet"
+								}
+							}
+						]
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphBatchResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphUpdateManyResponseExample",
+						response: {
+							body: [
+								{
+									id: "aig:0101010101010101010101010101010101010101010101010101010101010101"
+								}
+							]
+						}
+					}
+				]
+			}
+		]
+	};
+
+	const resolveAliasRoute: IRestRoute<
+		IAuditableItemGraphResolveAliasRequest,
+		IAuditableItemGraphResolveAliasResponse
+	> = {
+		operationId: "auditableItemGraphResolveAlias",
+		summary: "Resolve an alias to the graph vertex which uses it",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "GET",
+		path: `${baseRouteName}/aliases/:alias`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphResolveAlias(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphResolveAliasRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphResolveAliasRequestExample",
+					request: {
+						pathParams: {
+							alias: "tst:1234567890"
+						},
+						query: {
+							aliasFormat: "type1"
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphResolveAliasResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphResolveAliasResponseExample",
+						response: {
+							body: {
+								id: "aig:1234567890"
+							}
+						}
+					}
+				]
+			}
+		]
+	};
+
+	const auditIntegrityRoute: IRestRoute<
+		INoContentRequest,
+		IAuditableItemGraphAuditIntegrityResponse
+	> = {
+		operationId: "auditableItemGraphAuditIntegrity",
+		summary: "Find the edges which point at missing or deleted graph vertices",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "GET",
+		path: `${baseRouteName}/integrity`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphAuditIntegrity(httpRequestContext, componentName, request),
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphAuditIntegrityResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphAuditIntegrityResponseExample",
+						response: {
+							body: [
+								{
+									vertexId: "aig:1234567890",
+									edgeId: "aig:0987654321",
+									edgeRelationship: "frenemy",
+									reason: "missing"
+								}
+							]
+						}
+					}
+				]
+			}
+		]
+	};
+
+	const removeImmutableRoute: IRestRoute<
+		IAuditableItemGraphRemoveImmutableRequest,
+		IAuditableItemGraphRemoveImmutableResponse
+	> = {
+		operationId: "auditableItemGraphRemoveImmutable",
+		summary:
+			"Remove the immutable storage for a graph vertex, only the node or the vertex owner can do this",
+		tag: tagsAuditableItemGraph[0].name,
+		method: "DELETE",
+		path: `${baseRouteName}/:id/immutable`,
+		handler: async (httpRequestContext, request) =>
+			auditableItemGraphRemoveImmutable(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IAuditableItemGraphRemoveImmutableRequest>(),
+			examples: [
+				{
+					id: "auditableItemGraphRemoveImmutableRequestExample",
+					request: {
+						pathParams: {
+							id: "aig:1234567890"
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IAuditableItemGraphRemoveImmutableResponse>(),
+				examples: [
+					{
+						id: "auditableItemGraphRemoveImmutableResponseExample",
+						response: {
+							body: [
+								{
+									changesetId: "0202020202020202020202020202020202020202020202020202020202020202",
+									removed: true
+								}
+							]
+						}
+					}
+				]
+			}
+		]
+	};
+
+	return [
+		createRoute,
+		createManyRoute,
+		updateManyRoute,
+		resolveAliasRoute,
+		auditIntegrityRoute,
+		getRoute,
+		updateRoute,
+		listRoute,
+		incomingEdgesRoute,
+		traverseRoute,
+		exportRoute,
+		verificationBundleRoute,
+		findPathRoute,
+		changesetsRoute,
+		changesetGetRoute,
+		diffRoute,
+		revertRoute,
+		blameRoute,
+		patchRoute,
+		removeRoute,
+		removeImmutableRoute
+	];
+}
+
+/**
+ * Create the graph vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphCreate(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphCreateRequest
+): Promise<ICreatedResponse> {
+	Guards.object<IAuditableItemGraphCreateRequest>(ROUTES_SOURCE, nameof(request), request);
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const id = await component.create(
+		request.body?.annotationObject,
+		request.body?.aliases,
+		request.body?.resources,
+		request.body?.edges,
+		httpRequestContext.userIdentity,
+		httpRequestContext.nodeIdentity,
+		{ idempotencyKey: request.headers?.["idempotency-key"] }
+	);
+	return {
+		statusCode: HttpStatusCode.created,
+		headers: {
+			[HeaderTypes.Location]: id
+		}
+	};
+}
+
+/**
+ * Get the graph vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphGet(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphGetRequest
+): Promise<IAuditableItemGraphGetResponse> {
+	Guards.object<IAuditableItemGraphGetRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphGetRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+
+	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const result = await component.get(request.pathParams.id, {
+		includeDeleted: request.query?.includeDeleted,
+		includeChangesets: request.query?.includeChangesets,
+		verifySignatureDepth: request.query?.verifySignatureDepth,
+		asOf: request.query?.asOf
+	});
+
+	return {
+		headers: {
+			[HeaderTypes.ContentType]: mimeType === "json" ? MimeTypes.Json : MimeTypes.JsonLd,
+			etag: Is.integer(result.revision) ? `"${result.revision}"` : undefined
+		},
+		body: result
+	};
+}
+
+/**
+ * Update the graph vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphUpdate(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphUpdateRequest
+): Promise<INoContentResponse> {
+	Guards.object<IAuditableItemGraphUpdateRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphUpdateRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+
+	// The etag is the quoted revision of the vertex, a wildcard matches any revision.
+	const ifMatch = request.headers?.["if-match"]?.replace(/^W\//, "").replace(/"/g, "");
+	const expectedRevision =
+		Is.stringValue(ifMatch) && ifMatch !== "*" ? Number.parseInt(ifMatch, 10) : undefined;
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	await component.update(
+		request.pathParams.id,
+		request.body?.annotationObject,
+		request.body?.aliases,
+		request.body?.resources,
+		request.body?.edges,
+		httpRequestContext.userIdentity,
+		httpRequestContext.nodeIdentity,
+		{ expectedRevision }
+	);
+	return {
+		statusCode: HttpStatusCode.noContent
+	};
+}
+
+/**
+ * Query the graph vertices.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphList(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphListRequest
+): Promise<IAuditableItemGraphListResponse> {
+	Guards.object<IAuditableItemGraphListRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphListRequest["query"]>(
+		ROUTES_SOURCE,
+		nameof(request.query),
+		request.query
+	);
+
+	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+
+	const result = await component.query(
+		{
+			id: request.query?.id,
+			idMode: request.query?.idMode,
+			includeDeleted: request.query?.includeDeleted,
+			aliasMatch: request.query?.aliasMatch,
+			aliasCaseSensitive: request.query?.aliasCaseSensitive,
+			aliasFormat: request.query?.aliasFormat
+		},
+		HttpParameterHelper.objectFromString(request.query?.conditions),
+		request.query?.orderBy,
+		request.query?.orderByDirection,
+		HttpParameterHelper.arrayFromString(request.query?.properties),
+		request.query?.cursor,
+		request.query?.pageSize
+	);
+
+	return {
+		headers: {
+			[HeaderTypes.ContentType]: mimeType === "json" ? MimeTypes.Json : MimeTypes.JsonLd
+		},
+		body: result
+	};
+}
+
+/**
+ * Get the edges from other vertices which point at the graph vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphIncomingEdges(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphIncomingEdgesRequest
+): Promise<IAuditableItemGraphIncomingEdgesResponse> {
+	Guards.object<IAuditableItemGraphIncomingEdgesRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphIncomingEdgesRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+
+	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const result = await component.getIncomingEdges(request.pathParams.id, {
+		includeDeleted: request.query?.includeDeleted,
+		edgeRelationships: HttpParameterHelper.arrayFromString(request.query?.edgeRelationships),
+		cursor: request.query?.cursor,
+		pageSize: request.query?.pageSize
+	});
+
+	return {
+		headers: {
+			[HeaderTypes.ContentType]: mimeType === "json" ? MimeTypes.Json : MimeTypes.JsonLd
+		},
+		body: result
+	};
+}
+
+/**
+ * Traverse the graph starting from a vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphTraverse(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphTraverseRequest
+): Promise<IAuditableItemGraphTraverseResponse> {
+	Guards.object<IAuditableItemGraphTraverseRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphTraverseRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+
+	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const result = await component.traverse(request.pathParams.id, {
+		direction: request.query?.direction,
+		maxDepth: request.query?.maxDepth,
+		edgeRelationships: HttpParameterHelper.arrayFromString(request.query?.edgeRelationships),
+		includeResources: request.query?.includeResources
+	});
+
+	return {
+		headers: {
+			[HeaderTypes.ContentType]: mimeType === "json" ? MimeTypes.Json : MimeTypes.JsonLd
+		},
+		body: result
+	};
+}
+
+/**
+ * Export the subgraph starting from a graph vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphExport(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphExportRequest
+): Promise<IAuditableItemGraphExportResponse> {
+	Guards.object<IAuditableItemGraphExportRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphExportRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+
+	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const result = await component.exportSubgraph(request.pathParams.id, {
+		depth: request.query?.depth,
+		relationships: HttpParameterHelper.arrayFromString(request.query?.relationships),
+		includeChangesets: request.query?.includeChangesets,
+		includeProofs: request.query?.includeProofs
+	});
+
+	return {
+		headers: {
+			[HeaderTypes.ContentType]: mimeType === "json" ? MimeTypes.Json : MimeTypes.JsonLd
+		},
+		body: result
+	};
+}
+
+/**
+ * Get the verification bundle for a graph vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphVerificationBundle(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphVerificationBundleRequest
+): Promise<IAuditableItemGraphVerificationBundleResponse> {
+	Guards.object<IAuditableItemGraphVerificationBundleRequest>(
+		ROUTES_SOURCE,
+		nameof(request),
+		request
+	);
+	Guards.object<IAuditableItemGraphVerificationBundleRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const result = await component.getVerificationBundle(request.pathParams.id);
+
+	return {
+		body: result
+	};
+}
+
+/**
+ * Find the shortest path between two graph vertices.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphFindPath(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphPathRequest
+): Promise<IAuditableItemGraphPathResponse> {
+	Guards.object<IAuditableItemGraphPathRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphPathRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+	Guards.object<IAuditableItemGraphPathRequest["query"]>(
+		ROUTES_SOURCE,
+		nameof(request.query),
+		request.query
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.query.toId), request.query.toId);
+
+	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const result = await component.findPath(request.pathParams.id, request.query.toId, {
+		edgeRelationships: HttpParameterHelper.arrayFromString(request.query.edgeRelationships),
+		maxHops: request.query.maxHops,
+		direction: request.query.direction
+	});
+
+	return {
+		headers: {
+			[HeaderTypes.ContentType]: mimeType === "json" ? MimeTypes.Json : MimeTypes.JsonLd
+		},
+		body: result
+	};
+}
+
+/**
+ * Get the changesets for a graph vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphChangesets(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphChangesetsRequest
+): Promise<IAuditableItemGraphChangesetsResponse> {
+	Guards.object<IAuditableItemGraphChangesetsRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphChangesetsRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+
+	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const result = await component.getChangesets(request.pathParams.id, {
+		cursor: request.query?.cursor,
+		pageSize: request.query?.pageSize,
+		from: request.query?.from,
+		to: request.query?.to,
+		userIdentity: request.query?.userIdentity,
+		verify: request.query?.verify
+	});
+
+	return {
+		headers: {
+			[HeaderTypes.ContentType]: mimeType === "json" ? MimeTypes.Json : MimeTypes.JsonLd
+		},
+		body: result
+	};
+}
+
+/**
+ * Get a single changeset for a graph vertex.
  * @param httpRequestContext The request context for the API.
  * @param componentName The name of the component to use in the routes.
  * @param request The request.
  * @returns The response object with additional http response properties.
  */
-export async function auditableItemGraphUpdate(
+export async function auditableItemGraphChangesetGet(
 	httpRequestContext: IHttpRequestContext,
 	componentName: string,
-	request: IAuditableItemGraphUpdateRequest
-): Promise<INoContentResponse> {
-	Guards.object<IAuditableItemGraphUpdateRequest>(ROUTES_SOURCE, nameof(request), request);
-	Guards.object<IAuditableItemGraphUpdateRequest["pathParams"]>(
+	request: IAuditableItemGraphChangesetGetRequest
+): Promise<IAuditableItemGraphChangesetGetResponse> {
+	Guards.object<IAuditableItemGraphChangesetGetRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphChangesetGetRequest["pathParams"]>(
 		ROUTES_SOURCE,
 		nameof(request.pathParams),
 		request.pathParams
 	);
 	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+	Guards.stringValue(
+		ROUTES_SOURCE,
+		nameof(request.pathParams.changesetId),
+		request.pathParams.changesetId
+	);
+
+	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
 
 	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
-	await component.update(
-		request.pathParams.id,
-		request.body?.annotationObject,
-		request.body?.aliases,
-		request.body?.resources,
-		request.body?.edges,
-		httpRequestContext.userIdentity,
-		httpRequestContext.nodeIdentity
+	const result = await component.getChangeset(
+		`${request.pathParams.id}:${AuditableItemGraphService.NAMESPACE_CHANGESET}:${request.pathParams.changesetId}`,
+		{
+			verify: request.query?.verify
+		}
 	);
+
 	return {
-		statusCode: HttpStatusCode.noContent
+		headers: {
+			[HeaderTypes.ContentType]: mimeType === "json" ? MimeTypes.Json : MimeTypes.JsonLd
+		},
+		body: result
 	};
 }
 
 /**
- * Query the graph vertices.
+ * Get the differences between two versions of a graph vertex.
  * @param httpRequestContext The request context for the API.
  * @param componentName The name of the component to use in the routes.
  * @param request The request.
  * @returns The response object with additional http response properties.
  */
-export async function auditableItemGraphList(
+export async function auditableItemGraphDiff(
 	httpRequestContext: IHttpRequestContext,
 	componentName: string,
-	request: IAuditableItemGraphListRequest
-): Promise<IAuditableItemGraphListResponse> {
-	Guards.object<IAuditableItemGraphListRequest>(ROUTES_SOURCE, nameof(request), request);
-	Guards.object<IAuditableItemGraphListRequest["query"]>(
+	request: IAuditableItemGraphDiffRequest
+): Promise<IAuditableItemGraphDiffResponse> {
+	Guards.object<IAuditableItemGraphDiffRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphDiffRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+	Guards.object<IAuditableItemGraphDiffRequest["query"]>(
 		ROUTES_SOURCE,
 		nameof(request.query),
 		request.query
 	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.query.from), request.query.from);
 
 	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
 
 	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const result = await component.diff(request.pathParams.id, request.query.from, request.query.to);
 
-	const result = await component.query(
-		{
-			id: request.query?.id,
-			idMode: request.query?.idMode
+	return {
+		headers: {
+			[HeaderTypes.ContentType]: mimeType === "json" ? MimeTypes.Json : MimeTypes.JsonLd
 		},
-		HttpParameterHelper.objectFromString(request.query?.conditions),
-		request.query?.orderBy,
-		request.query?.orderByDirection,
-		HttpParameterHelper.arrayFromString(request.query?.properties),
-		request.query?.cursor,
-		request.query?.pageSize
+		body: result
+	};
+}
+
+/**
+ * Revert a graph vertex to a previous version.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphRevert(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphRevertRequest
+): Promise<INoContentResponse> {
+	Guards.object<IAuditableItemGraphRevertRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphRevertRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+	Guards.object<IAuditableItemGraphRevertRequest["body"]>(
+		ROUTES_SOURCE,
+		nameof(request.body),
+		request.body
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.body.changesetId), request.body.changesetId);
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	await component.revert(
+		request.pathParams.id,
+		request.body.changesetId,
+		httpRequestContext.userIdentity,
+		httpRequestContext.nodeIdentity
+	);
+	return {
+		statusCode: HttpStatusCode.noContent
+	};
+}
+
+/**
+ * Get the changeset which last modified each property of a graph vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphBlame(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphBlameRequest
+): Promise<IAuditableItemGraphBlameResponse> {
+	Guards.object<IAuditableItemGraphBlameRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphBlameRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
 	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+
+	const mimeType = request.headers?.[HeaderTypes.Accept] === MimeTypes.JsonLd ? "jsonld" : "json";
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const result = await component.blame(request.pathParams.id);
 
 	return {
 		headers: {
@@ -581,3 +2270,208 @@ export async function auditableItemGraphList(
 		body: result
 	};
 }
+
+/**
+ * Partially update a graph vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphPatch(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphPatchRequest
+): Promise<INoContentResponse> {
+	Guards.object<IAuditableItemGraphPatchRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphPatchRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+	Guards.object<IAuditableItemGraphPatchRequest["body"]>(
+		ROUTES_SOURCE,
+		nameof(request.body),
+		request.body
+	);
+
+	// The etag is the quoted revision of the vertex, a wildcard matches any revision.
+	const ifMatch = request.headers?.["if-match"]?.replace(/^W\//, "").replace(/"/g, "");
+	const expectedRevision =
+		Is.stringValue(ifMatch) && ifMatch !== "*" ? Number.parseInt(ifMatch, 10) : undefined;
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	await component.patch(
+		request.pathParams.id,
+		request.body,
+		httpRequestContext.userIdentity,
+		httpRequestContext.nodeIdentity,
+		{ expectedRevision }
+	);
+	return {
+		statusCode: HttpStatusCode.noContent
+	};
+}
+
+/**
+ * Remove a graph vertex.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphRemove(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphRemoveRequest
+): Promise<INoContentResponse> {
+	Guards.object<IAuditableItemGraphRemoveRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphRemoveRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	await component.remove(
+		request.pathParams.id,
+		httpRequestContext.userIdentity,
+		httpRequestContext.nodeIdentity
+	);
+	return {
+		statusCode: HttpStatusCode.noContent
+	};
+}
+
+/**
+ * Create many graph vertices.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphCreateMany(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphCreateManyRequest
+): Promise<IAuditableItemGraphBatchResponse> {
+	Guards.object<IAuditableItemGraphCreateManyRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.array(ROUTES_SOURCE, nameof(request.body), request.body);
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const results = await component.createMany(
+		request.body,
+		httpRequestContext.userIdentity,
+		httpRequestContext.nodeIdentity
+	);
+	return {
+		body: results
+	};
+}
+
+/**
+ * Update many graph vertices.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphUpdateMany(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphUpdateManyRequest
+): Promise<IAuditableItemGraphBatchResponse> {
+	Guards.object<IAuditableItemGraphUpdateManyRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.array(ROUTES_SOURCE, nameof(request.body), request.body);
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const results = await component.updateMany(
+		request.body,
+		httpRequestContext.userIdentity,
+		httpRequestContext.nodeIdentity
+	);
+	return {
+		body: results
+	};
+}
+
+/**
+ * Remove the immutable storage for a graph vertex, only the node or the vertex owner can do this.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphRemoveImmutable(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphRemoveImmutableRequest
+): Promise<IAuditableItemGraphRemoveImmutableResponse> {
+	Guards.object<IAuditableItemGraphRemoveImmutableRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphRemoveImmutableRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const results = await component.removeImmutable(
+		request.pathParams.id,
+		httpRequestContext.userIdentity,
+		httpRequestContext.nodeIdentity
+	);
+	return {
+		body: results
+	};
+}
+
+/**
+ * Resolve an alias to the graph vertex which uses it.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphResolveAlias(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IAuditableItemGraphResolveAliasRequest
+): Promise<IAuditableItemGraphResolveAliasResponse> {
+	Guards.object<IAuditableItemGraphResolveAliasRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IAuditableItemGraphResolveAliasRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
+	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.alias), request.pathParams.alias);
+
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const id = await component.resolveAlias(request.pathParams.alias, request.query?.aliasFormat);
+	return {
+		body: {
+			id
+		}
+	};
+}
+
+/**
+ * Find the edges which point at missing or deleted graph vertices.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function auditableItemGraphAuditIntegrity(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: INoContentRequest
+): Promise<IAuditableItemGraphAuditIntegrityResponse> {
+	const component = ComponentFactory.get<IAuditableItemGraphComponent>(componentName);
+	const danglingEdges = await component.auditIntegrity();
+	return {
+		body: danglingEdges
+	};
+}
@@ -1,23 +1,55 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
 import {
+	AliasFormatHandlerFactory,
+	AliasUniqueness,
+	AuditableItemGraphAliasFormats,
+	AuditableItemGraphRelationships,
 	AuditableItemGraphTopics,
 	AuditableItemGraphTypes,
+	ChangesetChainFailure,
+	EdgeCardinality,
+	EdgeDirection,
+	EdgeIntegrity,
+	EdgeRelationshipFactory,
 	VerifyDepth,
+	type IAliasFormatHandler,
 	type IAuditableItemGraphAlias,
+	type IAuditableItemGraphBatchCreateItem,
+	type IAuditableItemGraphBatchResult,
+	type IAuditableItemGraphBatchUpdateItem,
+	type IAuditableItemGraphBlame,
 	type IAuditableItemGraphChangeset,
+	type IAuditableItemGraphChangesetList,
 	type IAuditableItemGraphComponent,
+	type IAuditableItemGraphDanglingEdge,
+	type IAuditableItemGraphDiff,
+	type IAuditableItemGraphDiffSummary,
 	type IAuditableItemGraphEdge,
+	type IAuditableItemGraphEdgeRelationship,
+	type IAuditableItemGraphExport,
+	type IAuditableItemGraphEdgeList,
 	type IAuditableItemGraphEventBusVertexCreated,
+	type IAuditableItemGraphEventBusVertexDeleted,
 	type IAuditableItemGraphEventBusVertexUpdated,
+	type IAuditableItemGraphPath,
+	type IAuditableItemGraphPathEdge,
+	type IAuditableItemGraphPatchDocument,
+	type IAuditableItemGraphPatchOperation,
+	type IAuditableItemGraphRemoveImmutableResult,
 	type IAuditableItemGraphResource,
+	type IAuditableItemGraphVerificationBundle,
+	type IAuditableItemGraphVerificationBundleEntry,
 	type IAuditableItemGraphVertex,
 	type IAuditableItemGraphVertexList
 } from "@twin.org/auditable-item-graph-models";
 import {
+	BaseError,
 	ComponentFactory,
+	ConflictError,
 	Converter,
 	GeneralError,
+	GuardError,
 	Guards,
 	Is,
 	JsonHelper,
@@ -25,15 +57,18 @@ import {
 	ObjectHelper,
 	RandomHelper,
 	StringHelper,
+	UnauthorizedError,
 	Urn,
 	Validation,
 	type IPatchOperation,
 	type IValidationFailure
 } from "@twin.org/core";
+import { Sha256 } from "@twin.org/crypto";
 import { JsonLdHelper, JsonLdProcessor, type IJsonLdNodeObject } from "@twin.org/data-json-ld";
 import { SchemaOrgDataTypes, SchemaOrgTypes } from "@twin.org/data-schema-org";
 import {
 	ComparisonOperator,
+	type EntityCondition,
 	type IComparator,
 	LogicalOperator,
 	SortDirection
@@ -46,12 +81,15 @@ import type { IEventBusComponent } from "@twin.org/event-bus-models";
 import {
 	ImmutableProofFailure,
 	ImmutableProofTypes,
+	type IImmutableProof,
 	type IImmutableProofComponent
 } from "@twin.org/immutable-proof-models";
 import { nameof } from "@twin.org/nameof";
 import type { AuditableItemGraphAlias } from "./entities/auditableItemGraphAlias";
+import type { AuditableItemGraphAliasIndex } from "./entities/auditableItemGraphAliasIndex";
 import type { AuditableItemGraphChangeset } from "./entities/auditableItemGraphChangeset";
 import type { AuditableItemGraphEdge } from "./entities/auditableItemGraphEdge";
+import type { AuditableItemGraphIncomingEdge } from "./entities/auditableItemGraphIncomingEdge";
 import type { AuditableItemGraphResource } from "./entities/auditableItemGraphResource";
 import type { AuditableItemGraphVertex } from "./entities/auditableItemGraphVertex";
 import type { IAuditableItemGraphServiceConstructorOptions } from "./models/IAuditableItemGraphServiceConstructorOptions";
@@ -79,9 +117,36 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 		"vertexId",
 		"userIdentity",
 		"dateCreated",
-		"patches"
+		"patches",
+		"previousChangesetId",
+		"previousChangesetHash"
 	];
 
+	/**
+	 * The default number of edges to follow when traversing the graph.
+	 */
+	private static readonly _DEFAULT_TRAVERSE_DEPTH: number = 1;
+
+	/**
+	 * The maximum number of edges which can be followed when traversing the graph.
+	 */
+	private static readonly _MAX_TRAVERSE_DEPTH: number = 10;
+
+	/**
+	 * The default maximum number of edges on a path between two vertices.
+	 */
+	private static readonly _DEFAULT_PATH_MAX_HOPS: number = 10;
+
+	/**
+	 * The maximum number of edges on a path which can be searched for between two vertices.
+	 */
+	private static readonly _MAX_PATH_MAX_HOPS: number = 50;
+
+	/**
+	 * The maximum number of vertices which are visited when checking an edge does not close a cycle.
+	 */
+	private static readonly _MAX_ACYCLIC_VERTICES: number = 1000;
+
 	/**
 	 * Runtime name for the class.
 	 */
@@ -105,12 +170,49 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 	 */
 	private readonly _changesetStorage: IEntityStorageConnector<AuditableItemGraphChangeset>;
 
+	/**
+	 * The entity storage for the incoming edges index.
+	 * @internal
+	 */
+	private readonly _incomingEdgeStorage: IEntityStorageConnector<AuditableItemGraphIncomingEdge>;
+
+	/**
+	 * The entity storage for the alias index.
+	 * @internal
+	 */
+	private readonly _aliasIndexStorage: IEntityStorageConnector<AuditableItemGraphAliasIndex>;
+
+	/**
+	 * How unique aliases must be across the vertices.
+	 * @internal
+	 */
+	private readonly _aliasUniqueness: AliasUniqueness;
+
+	/**
+	 * How the targets of edges are checked when edges are added to a vertex.
+	 * @internal
+	 */
+	private readonly _edgeIntegrity: EdgeIntegrity;
+
+	/**
+	 * Only allow edges with a relationship registered in the edge relationship vocabulary.
+	 * @internal
+	 */
+	private readonly _registeredEdgeRelationshipsOnly: boolean;
+
 	/**
 	 * The event bus component.
 	 * @internal
 	 */
 	private readonly _eventBusComponent?: IEventBusComponent;
 
+	/**
+	 * The pending operations for each lock, used to serialise the read-compare-write of updates
+	 * and the reservation of idempotency keys.
+	 * @internal
+	 */
+	private readonly _locks: Map<string, Promise<void>>;
+
 	/**
 	 * Create a new instance of AuditableItemGraphService.
 	 * @param options The dependencies for the auditable item graph connector.
@@ -129,11 +231,37 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 				StringHelper.kebabCase(nameof<AuditableItemGraphChangeset>())
 		);
 
+		this._incomingEdgeStorage = EntityStorageConnectorFactory.get(
+			options?.incomingEdgeEntityStorageType ??
+				StringHelper.kebabCase(nameof<AuditableItemGraphIncomingEdge>())
+		);
+
+		this._aliasIndexStorage = EntityStorageConnectorFactory.get(
+			options?.aliasIndexEntityStorageType ??
+				StringHelper.kebabCase(nameof<AuditableItemGraphAliasIndex>())
+		);
+
+		this._aliasUniqueness = options?.config?.aliasUniqueness ?? AliasUniqueness.None;
+		this._edgeIntegrity = options?.config?.edgeIntegrity ?? EdgeIntegrity.None;
+		this._registeredEdgeRelationshipsOnly =
+			options?.config?.registeredEdgeRelationshipsOnly ?? false;
+		this._locks = new Map<string, Promise<void>>();
+
 		if (Is.stringValue(options?.eventBusComponentType)) {
 			this._eventBusComponent = ComponentFactory.get(options.eventBusComponentType);
 		}
 
 		SchemaOrgDataTypes.registerRedirects();
+		AuditableItemGraphAliasFormats.registerFormats();
+	}
+
+	/**
+	 * The component needs to be started when the node is initialized.
+	 * Relationships registered in the vocabulary before the node starts are published as a context.
+	 * @returns Nothing.
+	 */
+	public async start(): Promise<void> {
+		await AuditableItemGraphRelationships.publishContext();
 	}
 
 	/**
@@ -141,10 +269,13 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 	 * @param annotationObject The annotation object for the vertex as JSON-LD.
 	 * @param aliases Alternative aliases that can be used to identify the vertex.
 	 * @param resources The resources attached to the vertex.
-	 * @param edges The edges connected to the vertex.
+	 * @param edges The edges connected to the vertex, a bidirectional edge or one with an inverse relationship also maintains the matching edge on the target vertex.
 	 * @param userIdentity The identity to create the auditable item graph operation with.
 	 * @param nodeIdentity The node identity to include in the auditable item graph.
+	 * @param options Additional options for the create operation.
+	 * @param options.idempotencyKey A key which makes repeating the same create by the same user return the original vertex.
 	 * @returns The id of the new graph item.
+	 * @throws ConflictError if the idempotency key was used with a different request.
 	 */
 	public async create(
 		annotationObject?: IJsonLdNodeObject,
@@ -161,13 +292,19 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 			id: string;
 			edgeRelationship: string;
 			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
 		}[],
 		userIdentity?: string,
-		nodeIdentity?: string
+		nodeIdentity?: string,
+		options?: {
+			idempotencyKey?: string;
+		}
 	): Promise<string> {
 		Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
 		Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
 
+		let releaseLock: (() => void) | undefined;
 		try {
 			if (Is.object(annotationObject)) {
 				const validationFailures: IValidationFailure[] = [];
@@ -175,6 +312,57 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 				Validation.asValidationError(this.CLASS_NAME, nameof(annotationObject), validationFailures);
 			}
 
+			let idempotency: { key: string; userIdentity: string; hash: string } | undefined;
+			if (Is.stringValue(options?.idempotencyKey)) {
+				idempotency = {
+					key: options.idempotencyKey,
+					userIdentity,
+					hash: this.calculateIdempotencyHash(userIdentity, {
+						annotationObject,
+						aliases,
+						resources,
+						edges
+					})
+				};
+
+				// The key is scoped to the user and held until the vertex is stored,
+				// so concurrent retries of the same request wait and then find the original vertex.
+				releaseLock = await this.acquireLock(`idempotency:${userIdentity}:${idempotency.key}`);
+
+				const existing = await this._vertexStorage.query(
+					{
+						conditions: [
+							{
+								property: "idempotencyKey",
+								comparison: ComparisonOperator.Equals,
+								value: idempotency.key
+							},
+							{
+								property: "idempotencyUserIdentity",
+								comparison: ComparisonOperator.Equals,
+								value: idempotency.userIdentity
+							}
+						],
+						logicalOperator: LogicalOperator.And
+					},
+					undefined,
+					["id", "idempotencyHash"],
+					undefined,
+					1
+				);
+
+				if (existing.entities.length > 0) {
+					// A repeated request returns the original vertex, but the key can not be reused for a different request.
+					if (existing.entities[0].idempotencyHash !== idempotency.hash) {
+						throw new ConflictError(this.CLASS_NAME, "idempotencyKeyConflict", idempotency.key);
+					}
+					return new Urn(
+						AuditableItemGraphService.NAMESPACE,
+						existing.entities[0].id as string
+					).toString();
+				}
+			}
+
 			const id = Converter.bytesToHex(RandomHelper.generate(32), false);
 
 			const context: IAuditableItemGraphServiceContext = {
@@ -183,41 +371,132 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 				nodeIdentity
 			};
 
-			const vertex: AuditableItemGraphVertex = {
+			return await this.createVertex(
+				context,
 				id,
-				nodeIdentity,
-				dateCreated: context.now,
-				dateModified: context.now
-			};
-			const originalEntity = ObjectHelper.clone(vertex);
+				annotationObject,
+				aliases,
+				resources,
+				edges,
+				idempotency
+			);
+		} catch (error) {
+			// A reused idempotency key is not wrapped, so it is reported as a conflict rather than a failure.
+			if (BaseError.isErrorName(error, ConflictError.CLASS_NAME)) {
+				throw error;
+			}
+			throw new GeneralError(this.CLASS_NAME, "createFailed", undefined, error);
+		} finally {
+			releaseLock?.();
+		}
+	}
 
-			vertex.annotationObject = annotationObject;
+	/**
+	 * Create many graph vertices, all the items are validated before any of the vertices are created.
+	 * @param items The vertices to create, edges can reference other items in the batch using their local id.
+	 * @param userIdentity The identity to create the auditable item graph operation with.
+	 * @param nodeIdentity The node identity to include in the auditable item graph.
+	 * @returns The result for each item in the same order as the items.
+	 */
+	public async createMany(
+		items: IAuditableItemGraphBatchCreateItem[],
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<IAuditableItemGraphBatchResult[]> {
+		Guards.array<IAuditableItemGraphBatchCreateItem>(this.CLASS_NAME, nameof(items), items);
+		Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
+		Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
 
-			await this.updateAliasList(context, vertex, aliases);
-			await this.updateResourceList(context, vertex, resources);
-			await this.updateEdgeList(context, vertex, edges);
+		try {
+			// The ids are allocated up front so that edges can point at vertices later in the batch.
+			const vertexIds: string[] = [];
+			const localIds: { [localId: string]: { index: number; id: string } } = {};
+			for (let i = 0; i < items.length; i++) {
+				const vertexId = Converter.bytesToHex(RandomHelper.generate(32), false);
+				vertexIds.push(vertexId);
 
-			delete originalEntity.aliasIndex;
-			await this.addChangeset(context, originalEntity, vertex, true);
+				const localId = items[i]?.localId;
+				if (Is.stringValue(localId) && Is.empty(localIds[localId])) {
+					localIds[localId] = {
+						index: i,
+						id: new Urn(AuditableItemGraphService.NAMESPACE, vertexId).toString()
+					};
+				}
+			}
 
-			await this._vertexStorage.set({
-				...vertex,
-				aliasIndex: vertex.aliases
-					?.map(a => a.id)
-					.join("||")
-					.toLowerCase()
-			});
+			const results: IAuditableItemGraphBatchResult[] = [];
+			for (let i = 0; i < items.length; i++) {
+				results.push({ localId: items[i]?.localId });
+				try {
+					await this.validateBatchCreateItem(items, i, localIds);
+				} catch (error) {
+					results[i].error = BaseError.fromError(error).toJsonObject();
+				}
+			}
 
-			const fullId = new Urn(AuditableItemGraphService.NAMESPACE, id).toString();
+			const context: IAuditableItemGraphServiceContext = {
+				now: new Date(Date.now()).toISOString(),
+				userIdentity,
+				nodeIdentity
+			};
 
-			await this._eventBusComponent?.publish<IAuditableItemGraphEventBusVertexCreated>(
-				AuditableItemGraphTopics.VertexCreated,
-				{ id: fullId }
-			);
+			// Every vertex is prepared, which validates it, before any of them are stored. When a vertex
+			// fails it no longer adds its inverse edges to the other vertices in the batch, so the
+			// remaining vertices are prepared again until none of them fail.
+			const prepared: {
+				originalEntity: AuditableItemGraphVertex;
+				vertex: AuditableItemGraphVertex;
+			}[] = [];
+			let batchChanged = true;
+			while (batchChanged) {
+				batchChanged = false;
+				context.pendingVertexIds = vertexIds.filter((vertexId, i) => Is.empty(results[i].error));
+
+				const itemEdges = this.getBatchCreateEdges(items, vertexIds, localIds, results);
+				context.pendingVertexEdges = {};
+				for (let i = 0; i < items.length; i++) {
+					if (Is.empty(results[i].error)) {
+						context.pendingVertexEdges[vertexIds[i]] = itemEdges[i];
+					}
+				}
+
+				for (let i = 0; i < items.length; i++) {
+					if (Is.empty(results[i].error)) {
+						const item = items[i];
+						try {
+							prepared[i] = await this.prepareVertex(
+								context,
+								vertexIds[i],
+								item.annotationObject,
+								item.aliases,
+								item.resources,
+								itemEdges[i]
+							);
+						} catch (error) {
+							results[i].error = BaseError.fromError(error).toJsonObject();
+							batchChanged = true;
+						}
+					}
+				}
+			}
+
+			for (let i = 0; i < items.length; i++) {
+				if (Is.empty(results[i].error)) {
+					try {
+						results[i].id = await this.storeVertex(
+							context,
+							prepared[i].originalEntity,
+							prepared[i].vertex
+						);
+					} catch (error) {
+						results[i].error = BaseError.fromError(error).toJsonObject();
+					}
+				}
+			}
 
-			return fullId;
+			return results;
 		} catch (error) {
-			throw new GeneralError(this.CLASS_NAME, "createFailed", undefined, error);
+			throw new GeneralError(this.CLASS_NAME, "createManyFailed", undefined, error);
 		}
 	}
 
@@ -225,9 +504,10 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 	 * Get a graph vertex.
 	 * @param id The id of the vertex to get.
 	 * @param options Additional options for the get operation.
-	 * @param options.includeDeleted Whether to include deleted/updated aliases, resource, edges, defaults to false.
+	 * @param options.includeDeleted Whether to include a deleted vertex and its deleted/updated aliases, resource, edges, defaults to false.
 	 * @param options.includeChangesets Whether to include the changesets of the vertex, defaults to false.
 	 * @param options.verifySignatureDepth How many signatures to verify, defaults to "none".
+	 * @param options.asOf The date time or changeset id to reconstruct the vertex at, defaults to the current state.
 	 * @returns The vertex if found.
 	 * @throws NotFoundError if the vertex is not found.
 	 */
@@ -237,6 +517,7 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 			includeDeleted?: boolean;
 			includeChangesets?: boolean;
 			verifySignatureDepth?: VerifyDepth;
+			asOf?: string;
 		}
 	): Promise<IAuditableItemGraphVertex> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
@@ -258,7 +539,27 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
 			}
 
-			const vertexModel = this.vertexEntityToJsonLd(vertexEntity);
+			// A deleted vertex is only visible when explicitly requested, e.g. for auditing.
+			if (Is.stringValue(vertexEntity.dateDeleted) && !(options?.includeDeleted ?? false)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
+			}
+
+			let vertexModel: IAuditableItemGraphVertex;
+			let changesetEntities: AuditableItemGraphChangeset[] | undefined;
+
+			if (Is.stringValue(options?.asOf)) {
+				// Only the changesets up to the requested point are replayed and verified.
+				changesetEntities = this.changesetsAsOf(
+					id,
+					await this.getChangesetEntities(vertexId),
+					options.asOf
+				);
+				vertexModel = this.vertexEntityToJsonLd(
+					this.replayChangesets(vertexEntity, changesetEntities)
+				);
+			} else {
+				vertexModel = this.vertexEntityToJsonLd(vertexEntity);
+			}
 
 			const includeChangesets = options?.includeChangesets ?? false;
 			const verifySignatureDepth = options?.verifySignatureDepth ?? "none";
@@ -271,30 +572,19 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 				verifySignatureDepth === VerifyDepth.All ||
 				includeChangesets
 			) {
-				const verifyResult = await this.verifyChangesets(vertexModel, verifySignatureDepth);
+				const isFullHistory = Is.undefined(changesetEntities);
+				changesetEntities ??= await this.getChangesetEntities(vertexId);
+				const verifyResult = await this.verifyChangesets(
+					changesetEntities,
+					verifySignatureDepth,
+					isFullHistory ? vertexEntity : undefined
+				);
 				verified = verifyResult.verified;
 				changesets = verifyResult.changesets;
 			}
 
 			if (!(options?.includeDeleted ?? false)) {
-				if (Is.arrayValue(vertexModel.aliases)) {
-					vertexModel.aliases = vertexModel.aliases.filter(a => Is.undefined(a.dateDeleted));
-					if (vertexModel.aliases.length === 0) {
-						delete vertexModel.aliases;
-					}
-				}
-				if (Is.arrayValue(vertexModel.resources)) {
-					vertexModel.resources = vertexModel.resources.filter(r => Is.undefined(r.dateDeleted));
-					if (vertexModel.resources.length === 0) {
-						delete vertexModel.resources;
-					}
-				}
-				if (Is.arrayValue(vertexModel.edges)) {
-					vertexModel.edges = vertexModel.edges.filter(r => Is.undefined(r.dateDeleted));
-					if (vertexModel.edges.length === 0) {
-						delete vertexModel.edges;
-					}
-				}
+				this.removeDeletedElements(vertexModel);
 			}
 
 			if (includeChangesets) {
@@ -318,10 +608,13 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 	 * @param annotationObject The annotation object for the vertex.
 	 * @param aliases Alternative aliases that can be used to identify the vertex.
 	 * @param resources The resources attached to the vertex.
-	 * @param edges The edges connected to the vertex.
+	 * @param edges The edges connected to the vertex, a bidirectional edge or one with an inverse relationship also maintains the matching edge on the target vertex.
 	 * @param userIdentity The identity to create the auditable item graph operation with.
 	 * @param nodeIdentity The node identity to include in the auditable item graph.
+	 * @param options Additional options for the update operation.
+	 * @param options.expectedRevision The revision the vertex must be at for the update to be applied.
 	 * @returns Nothing.
+	 * @throws ConflictError if the vertex is not at the expected revision.
 	 */
 	public async update(
 		id: string,
@@ -339,13 +632,21 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 			id: string;
 			edgeRelationship: string;
 			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
 		}[],
 		userIdentity?: string,
-		nodeIdentity?: string
+		nodeIdentity?: string,
+		options?: {
+			expectedRevision?: number;
+		}
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 		Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
 		Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
+		if (!Is.undefined(options?.expectedRevision)) {
+			Guards.integer(this.CLASS_NAME, nameof(options.expectedRevision), options.expectedRevision);
+		}
 
 		const urnParsed = Urn.fromValidString(id);
 
@@ -356,46 +657,36 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 			});
 		}
 
-		try {
-			const vertexId = urnParsed.namespaceSpecific(0);
-			const vertexEntity = await this._vertexStorage.get(vertexId);
-
-			if (Is.empty(vertexEntity)) {
-				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
-			}
-
-			if (Is.object(annotationObject)) {
-				const validationFailures: IValidationFailure[] = [];
-				await JsonLdHelper.validate(annotationObject, validationFailures);
-				Validation.asValidationError(this.CLASS_NAME, nameof(annotationObject), validationFailures);
-			}
+		// The vertex is locked from the revision check until it is stored,
+		// so concurrent updates can not both pass the check for the same revision.
+		const vertexId = urnParsed.namespaceSpecific(0);
+		const releaseLock = await this.acquireLock(`vertex:${vertexId}`);
 
+		try {
 			const context: IAuditableItemGraphServiceContext = {
 				now: new Date(Date.now()).toISOString(),
 				userIdentity,
 				nodeIdentity
 			};
 
-			delete vertexEntity.aliasIndex;
-			const originalEntity = ObjectHelper.clone(vertexEntity);
-			const newEntity = ObjectHelper.clone(vertexEntity);
+			const prepared = await this.prepareUpdate(
+				context,
+				id,
+				annotationObject,
+				aliases,
+				resources,
+				edges,
+				options?.expectedRevision
+			);
 
-			newEntity.annotationObject = annotationObject;
+			const patches = await this.storeUpdate(context, prepared.originalEntity, prepared.vertex);
 
-			await this.updateAliasList(context, newEntity, aliases);
-			await this.updateResourceList(context, newEntity, resources);
-			await this.updateEdgeList(context, newEntity, edges);
+			// The lock is released before the matching edges are maintained, each target is locked in
+			// turn and holding both locks could deadlock with an update of the target.
+			releaseLock();
 
-			const patches = await this.addChangeset(context, originalEntity, newEntity, false);
 			if (patches.length > 0) {
-				newEntity.dateModified = context.now;
-				await this._vertexStorage.set({
-					...newEntity,
-					aliasIndex: newEntity.aliases
-						?.map(a => a.id)
-						.join("||")
-						.toLowerCase()
-				});
+				await this.updateInverseEdges(context, prepared.originalEntity, prepared.vertex);
 
 				await this._eventBusComponent?.publish<IAuditableItemGraphEventBusVertexUpdated>(
 					AuditableItemGraphTopics.VertexUpdated,
@@ -404,18 +695,151 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 			}
 		} catch (error) {
 			throw new GeneralError(this.CLASS_NAME, "updateFailed", undefined, error);
+		} finally {
+			releaseLock();
 		}
 	}
 
 	/**
-	 * Remove the immutable storage for an item.
-	 * @param id The id of the vertex to get.
+	 * Update many graph vertices, all the items are validated before any of the vertices are updated.
+	 * @param items The vertices to update.
+	 * @param userIdentity The identity to create the auditable item graph operation with.
+	 * @param nodeIdentity The node identity to include in the auditable item graph.
+	 * @returns The result for each item in the same order as the items.
+	 */
+	public async updateMany(
+		items: IAuditableItemGraphBatchUpdateItem[],
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<IAuditableItemGraphBatchResult[]> {
+		Guards.array<IAuditableItemGraphBatchUpdateItem>(this.CLASS_NAME, nameof(items), items);
+		Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
+		Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
+
+		try {
+			const results: IAuditableItemGraphBatchResult[] = [];
+			const vertexIds: string[] = [];
+			for (const item of items) {
+				const result: IAuditableItemGraphBatchResult = { id: item?.id };
+				try {
+					Guards.object<IAuditableItemGraphBatchUpdateItem>(this.CLASS_NAME, nameof(item), item);
+					Guards.stringValue(this.CLASS_NAME, nameof(item.id), item.id);
+					const urnParsed = Urn.fromValidString(item.id);
+					if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+						throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+							namespace: AuditableItemGraphService.NAMESPACE,
+							id: item.id
+						});
+					}
+					vertexIds.push(urnParsed.namespaceSpecific(0));
+				} catch (error) {
+					result.error = BaseError.fromError(error).toJsonObject();
+					vertexIds.push("");
+				}
+				results.push(result);
+			}
+
+			const context: IAuditableItemGraphServiceContext = {
+				now: new Date(Date.now()).toISOString(),
+				userIdentity,
+				nodeIdentity
+			};
+
+			// Every item is checked the same way update does before any of them are stored, the edges
+			// of the batch replace the stored edges of their vertices when looking for cycles. When an
+			// item fails its edges are no longer part of the batch, so the remaining items are checked
+			// again until none of them fail.
+			let batchChanged = true;
+			while (batchChanged) {
+				batchChanged = false;
+				context.pendingVertexEdges = {};
+				for (let i = 0; i < items.length; i++) {
+					if (Is.empty(results[i].error)) {
+						context.pendingVertexEdges[vertexIds[i]] = (items[i].edges ?? [])
+							.filter(edge => Is.object(edge))
+							.map(edge => ({ id: edge.id, edgeRelationship: edge.edgeRelationship }));
+					}
+				}
+
+				for (let i = 0; i < items.length; i++) {
+					if (Is.empty(results[i].error)) {
+						const item = items[i];
+						try {
+							await this.prepareUpdate(
+								context,
+								item.id,
+								item.annotationObject,
+								item.aliases,
+								item.resources,
+								item.edges
+							);
+						} catch (error) {
+							results[i].error = BaseError.fromError(
+								new GeneralError(this.CLASS_NAME, "updateFailed", undefined, error)
+							).toJsonObject();
+							batchChanged = true;
+						}
+					}
+				}
+			}
+
+			// Each item is stored through update, which repeats the checks against the current
+			// state of the vertex while holding its lock.
+			for (let i = 0; i < items.length; i++) {
+				if (Is.empty(results[i].error)) {
+					const item = items[i];
+					try {
+						await this.update(
+							item.id,
+							item.annotationObject,
+							item.aliases,
+							item.resources,
+							item.edges,
+							userIdentity,
+							nodeIdentity
+						);
+					} catch (error) {
+						results[i].error = BaseError.fromError(error).toJsonObject();
+					}
+				}
+			}
+
+			return results;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "updateManyFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Partially update a graph vertex, the patch is applied to the vertex in the form of a patch document.
+	 * @param id The id of the vertex to update.
+	 * @param operations Either RFC 6902 JSON patch operations or an RFC 7396 merge patch document.
+	 * @param userIdentity The identity to create the auditable item graph operation with.
 	 * @param nodeIdentity The node identity to use for vault operations.
+	 * @param options Additional options for the patch operation.
+	 * @param options.expectedRevision The revision the vertex must be at for the patch to be applied.
 	 * @returns Nothing.
 	 * @throws NotFoundError if the vertex is not found.
+	 * @throws ConflictError if the vertex is not at the expected revision.
 	 */
-	public async removeImmutable(id: string, nodeIdentity?: string): Promise<void> {
+	public async patch(
+		id: string,
+		operations: IPatchOperation[] | IAuditableItemGraphPatchDocument,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: {
+			expectedRevision?: number;
+		}
+	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		if (!Is.array(operations)) {
+			Guards.object<IAuditableItemGraphPatchDocument>(
+				this.CLASS_NAME,
+				nameof(operations),
+				operations
+			);
+		}
+		Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
 		Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
 
 		const urnParsed = Urn.fromValidString(id);
@@ -431,60 +855,254 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 			const vertexId = urnParsed.namespaceSpecific(0);
 			const vertexEntity = await this._vertexStorage.get(vertexId);
 
-			if (Is.empty(vertexEntity)) {
+			if (Is.empty(vertexEntity) || Is.stringValue(vertexEntity.dateDeleted)) {
 				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
 			}
 
-			let changesetsResult;
-			do {
-				changesetsResult = await this._changesetStorage.query(
-					{
-						property: "vertexId",
-						value: vertexId,
-						comparison: ComparisonOperator.Equals
-					},
-					[
-						{
-							property: "dateCreated",
-							sortDirection: SortDirection.Ascending
-						}
-					],
-					undefined,
-					changesetsResult?.cursor
-				);
+			// The patch is applied to the revision read, so it is only stored if the vertex is still at it.
+			const revision = await this.getRevision(vertexEntity);
+			if (!Is.undefined(options?.expectedRevision) && options.expectedRevision !== revision) {
+				throw new ConflictError(this.CLASS_NAME, "revisionMismatch", id, [
+					options.expectedRevision.toString(),
+					revision.toString()
+				]);
+			}
 
-				for (const changeset of changesetsResult.entities) {
-					if (Is.stringValue(changeset.proofId)) {
-						await this._immutableProofComponent.removeImmutable(changeset.proofId, nodeIdentity);
-						delete changeset.proofId;
-						await this._changesetStorage.set(changeset as AuditableItemGraphChangeset);
-					}
-				}
-			} while (Is.stringValue(changesetsResult.cursor));
+			const document = this.vertexEntityToPatchDocument(vertexEntity);
+
+			const patched: IAuditableItemGraphPatchDocument = Is.array(operations)
+				? JsonHelper.patch(document, operations)
+				: (this.mergePatch(document, operations) as IAuditableItemGraphPatchDocument);
+
+			// The patched document is applied through update so it is audited like any other change,
+			// anything the patch removed from the document is marked as deleted.
+			await this.update(
+				id,
+				patched.annotationObject ?? undefined,
+				Object.entries(patched.aliases ?? {})
+					.filter(([, alias]) => Is.object(alias))
+					.map(([aliasId, alias]) => ({
+						id: aliasId,
+						aliasFormat: alias?.aliasFormat,
+						annotationObject: alias?.annotationObject
+					})),
+				Object.entries(patched.resources ?? {})
+					.filter(([, resource]) => Is.object(resource))
+					.map(([resourceId, resource]) => ({
+						id: resourceId,
+						resourceObject: resource?.resourceObject
+					})),
+				Object.entries(patched.edges ?? {})
+					.filter(([, edge]) => Is.object(edge))
+					.map(([edgeId, edge]) => ({
+						id: edgeId,
+						edgeRelationship: edge?.edgeRelationship ?? "",
+						annotationObject: edge?.annotationObject,
+						inverseRelationship: edge?.inverseRelationship
+					})),
+				userIdentity,
+				nodeIdentity,
+				{ expectedRevision: revision }
+			);
 		} catch (error) {
-			throw new GeneralError(this.CLASS_NAME, "removeImmutableFailed", undefined, error);
+			throw new GeneralError(this.CLASS_NAME, "patchFailed", undefined, error);
 		}
 	}
 
 	/**
-	 * Query the graph for vertices.
-	 * @param options The query options.
-	 * @param options.id The optional id to look for.
-	 * @param options.idMode Look in id, alias or both, defaults to both.
-	 * @param conditions Conditions to use in the query.
-	 * @param orderBy The order for the results, defaults to created.
-	 * @param orderByDirection The direction for the order, defaults to desc.
-	 * @param properties The properties to return, if not provided defaults to id, created, aliases and object.
-	 * @param cursor The cursor to request the next page of entities.
-	 * @param pageSize The maximum number of entities in a page.
-	 * @returns The entities, which can be partial if a limited keys list was provided.
+	 * Remove a graph vertex, the vertex is marked as deleted and the removal is recorded as a changeset.
+	 * @param id The id of the vertex to remove.
+	 * @param userIdentity The identity to create the auditable item graph operation with.
+	 * @param nodeIdentity The node identity to include in the auditable item graph.
+	 * @returns Nothing.
+	 * @throws NotFoundError if the vertex is not found.
 	 */
-	public async query(
-		options?: {
-			id?: string;
-			idMode?: "id" | "alias" | "both";
-		},
-		conditions?: IComparator[],
+	public async remove(id: string, userIdentity?: string, nodeIdentity?: string): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
+		Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
+
+		const urnParsed = Urn.fromValidString(id);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id
+			});
+		}
+
+		const vertexId = urnParsed.namespaceSpecific(0);
+		const releaseLock = await this.acquireLock(`vertex:${vertexId}`);
+
+		try {
+			const vertexEntity = await this._vertexStorage.get(vertexId);
+
+			if (Is.empty(vertexEntity)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
+			}
+
+			// Removing a vertex which is already deleted leaves the original deletion in place.
+			if (Is.stringValue(vertexEntity.dateDeleted)) {
+				return;
+			}
+
+			const context: IAuditableItemGraphServiceContext = {
+				now: new Date(Date.now()).toISOString(),
+				userIdentity,
+				nodeIdentity
+			};
+
+			const aliasIndex = vertexEntity.aliasIndex;
+			delete vertexEntity.aliasIndex;
+			const originalEntity = ObjectHelper.clone(vertexEntity);
+			const newEntity = ObjectHelper.clone(vertexEntity);
+
+			newEntity.dateDeleted = context.now;
+
+			const revision = await this.getRevision(originalEntity);
+			await this.addChangeset(context, originalEntity, newEntity, false);
+
+			newEntity.dateModified = context.now;
+			newEntity.revision = revision + 1;
+			await this._vertexStorage.set({
+				...newEntity,
+				aliasIndex
+			});
+			await this.updateIncomingEdges(context, newEntity);
+			await this.updateAliasIndex(context, newEntity);
+
+			// The lock is released before the matching edges are removed, as each target is locked in turn.
+			releaseLock();
+			await this.updateInverseEdges(context, originalEntity, newEntity);
+
+			await this._eventBusComponent?.publish<IAuditableItemGraphEventBusVertexDeleted>(
+				AuditableItemGraphTopics.VertexDeleted,
+				{ id }
+			);
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "removeFailed", undefined, error);
+		} finally {
+			releaseLock();
+		}
+	}
+
+	/**
+	 * Remove the immutable storage for an item, a failure for one changeset does not stop the others being removed.
+	 * @param id The id of the vertex to get.
+	 * @param userIdentity The identity removing the storage, which must be the node or the user who created the vertex.
+	 * @param nodeIdentity The node identity to use for vault operations.
+	 * @returns The outcome for each changeset of the vertex.
+	 * @throws NotFoundError if the vertex is not found.
+	 * @throws UnauthorizedError if the user is neither the node nor the user who created the vertex.
+	 */
+	public async removeImmutable(
+		id: string,
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<IAuditableItemGraphRemoveImmutableResult[]> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
+		Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
+
+		const urnParsed = Urn.fromValidString(id);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id
+			});
+		}
+
+		try {
+			const vertexId = urnParsed.namespaceSpecific(0);
+			const vertexEntity = await this._vertexStorage.get(vertexId);
+
+			if (Is.empty(vertexEntity)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
+			}
+
+			const results: IAuditableItemGraphRemoveImmutableResult[] = [];
+			let changesetsResult;
+			do {
+				const isFirstPage = Is.undefined(changesetsResult);
+				changesetsResult = await this._changesetStorage.query(
+					{
+						property: "vertexId",
+						value: vertexId,
+						comparison: ComparisonOperator.Equals
+					},
+					[
+						{
+							property: "dateCreated",
+							sortDirection: SortDirection.Ascending
+						}
+					],
+					undefined,
+					changesetsResult?.cursor
+				);
+
+				// Removing immutable storage can not be undone, so only the node itself
+				// or the user who created the vertex with the first changeset is allowed to do it.
+				if (
+					isFirstPage &&
+					userIdentity !== nodeIdentity &&
+					userIdentity !== changesetsResult.entities[0]?.userIdentity
+				) {
+					throw new UnauthorizedError(this.CLASS_NAME, "removeImmutableNotAllowed");
+				}
+
+				for (const changeset of changesetsResult.entities) {
+					const result: IAuditableItemGraphRemoveImmutableResult = {
+						changesetId: changeset.id as string,
+						removed: false
+					};
+					if (Is.stringValue(changeset.proofId)) {
+						try {
+							await this._immutableProofComponent.removeImmutable(changeset.proofId, nodeIdentity);
+							delete changeset.proofId;
+							await this._changesetStorage.set(changeset as AuditableItemGraphChangeset);
+							result.removed = true;
+						} catch (error) {
+							result.error = BaseError.fromError(error).toJsonObject();
+						}
+					}
+					results.push(result);
+				}
+			} while (Is.stringValue(changesetsResult.cursor));
+
+			return results;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "removeImmutableFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Query the graph for vertices.
+	 * @param options The query options.
+	 * @param options.id The optional id to look for.
+	 * @param options.idMode Look in id, alias or both, defaults to both.
+	 * @param options.includeDeleted Whether to include deleted vertices, defaults to false.
+	 * @param options.aliasMatch How to match the aliases, includes matches part of an alias, exact matches the whole alias, defaults to includes.
+	 * @param options.aliasCaseSensitive Whether an exact alias match is case sensitive, defaults to false.
+	 * @param options.aliasFormat Only match aliases with this format when using an exact alias match.
+	 * @param conditions Conditions to use in the query.
+	 * @param orderBy The order for the results, defaults to created.
+	 * @param orderByDirection The direction for the order, defaults to desc.
+	 * @param properties The properties to return, if not provided defaults to id, created, aliases and object.
+	 * @param cursor The cursor to request the next page of entities.
+	 * @param pageSize The maximum number of entities in a page.
+	 * @returns The entities, which can be partial if a limited keys list was provided.
+	 */
+	public async query(
+		options?: {
+			id?: string;
+			idMode?: "id" | "alias" | "both";
+			includeDeleted?: boolean;
+			aliasMatch?: "includes" | "exact";
+			aliasCaseSensitive?: boolean;
+			aliasFormat?: string;
+		},
+		conditions?: IComparator[],
 		orderBy?: keyof Pick<IAuditableItemGraphVertex, "dateCreated" | "dateModified">,
 		orderByDirection?: SortDirection,
 		properties?: (keyof IAuditableItemGraphVertex)[],
@@ -514,11 +1132,28 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 					});
 				}
 				if (idMode === "alias" || idMode === "both") {
-					combinedConditions.push({
-						property: "aliasIndex",
-						comparison: ComparisonOperator.Includes,
-						value: idOrAlias.toLowerCase()
-					});
+					if (options?.aliasMatch === "exact") {
+						// Exact matches are found using the alias index, the vertex ids
+						// from the index are then used to find the vertices.
+						const aliasFormat = options?.aliasFormat;
+						const aliasIndexEntries = await this.getAliasIndexEntries(
+							idOrAlias,
+							options?.aliasCaseSensitive ?? false
+						);
+						combinedConditions.push({
+							property: "id",
+							comparison: ComparisonOperator.In,
+							value: aliasIndexEntries
+								.filter(e => !Is.stringValue(aliasFormat) || e.aliasFormat === aliasFormat)
+								.map(e => e.vertexId)
+						});
+					} else {
+						combinedConditions.push({
+							property: "aliasIndex",
+							comparison: ComparisonOperator.Includes,
+							value: idOrAlias.toLowerCase()
+						});
+					}
 				}
 			}
 
@@ -526,13 +1161,30 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 				propertiesToReturn.unshift("id");
 			}
 
-			const results = await this._vertexStorage.query(
+			let queryConditions: EntityCondition<AuditableItemGraphVertex> | undefined =
 				combinedConditions.length > 0
 					? {
 							conditions: combinedConditions,
 							logicalOperator: LogicalOperator.Or
 						}
-					: undefined,
+					: undefined;
+
+			if (!(options?.includeDeleted ?? false)) {
+				const notDeleted: EntityCondition<AuditableItemGraphVertex> = {
+					property: "dateDeleted",
+					comparison: ComparisonOperator.Equals,
+					value: undefined
+				};
+				queryConditions = Is.undefined(queryConditions)
+					? notDeleted
+					: {
+							conditions: [queryConditions, notDeleted],
+							logicalOperator: LogicalOperator.And
+						};
+			}
+
+			const results = await this._vertexStorage.query(
+				queryConditions,
 				[
 					{
 						property: orderProperty,
@@ -563,517 +1215,3131 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 	}
 
 	/**
-	 * Map the vertex entity to JSON-LD.
-	 * @param vertexEntity The vertex entity.
-	 * @returns The model.
-	 * @internal
+	 * Get the edges from other vertices which point at the vertex.
+	 * @param id The id of the vertex to get the incoming edges for.
+	 * @param options Additional options for the operation.
+	 * @param options.includeDeleted Whether to include deleted edges, defaults to false.
+	 * @param options.edgeRelationships The relationships to filter the edges by, defaults to all.
+	 * @param options.cursor The cursor to request the next page of edges.
+	 * @param options.pageSize The maximum number of edges in a page.
+	 * @returns The edges, the id of each edge is the vertex it originates from.
 	 */
-	private vertexEntityToJsonLd(vertexEntity: AuditableItemGraphVertex): IAuditableItemGraphVertex {
-		const model: IAuditableItemGraphVertex = {
-			"@context": [
-				AuditableItemGraphTypes.ContextRoot,
-				ImmutableProofTypes.ContextRoot,
-				SchemaOrgTypes.ContextRoot
-			],
-			type: AuditableItemGraphTypes.Vertex,
-			id: vertexEntity.id,
-			dateCreated: vertexEntity.dateCreated,
-			dateModified: vertexEntity.dateModified,
-			nodeIdentity: vertexEntity.nodeIdentity,
-			annotationObject: vertexEntity.annotationObject
-		};
+	public async getIncomingEdges(
+		id: string,
+		options?: {
+			includeDeleted?: boolean;
+			edgeRelationships?: string[];
+			cursor?: string;
+			pageSize?: number;
+		}
+	): Promise<IAuditableItemGraphEdgeList> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
-		if (Is.arrayValue(vertexEntity.aliases)) {
-			model.aliases ??= [];
-			for (const aliasEntity of vertexEntity.aliases) {
-				const aliasModel: IAuditableItemGraphAlias = {
-					"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
-					type: AuditableItemGraphTypes.Alias,
-					id: aliasEntity.id,
-					aliasFormat: aliasEntity.aliasFormat,
-					dateCreated: aliasEntity.dateCreated,
-					dateModified: aliasEntity.dateModified,
-					dateDeleted: aliasEntity.dateDeleted,
-					annotationObject: aliasEntity.annotationObject
-				};
-				model.aliases.push(aliasModel);
-			}
+		const urnParsed = Urn.fromValidString(id);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id
+			});
 		}
 
-		if (Is.arrayValue(vertexEntity.resources)) {
-			model.resources ??= [];
-			for (const resourceEntity of vertexEntity.resources) {
-				const resourceModel: IAuditableItemGraphResource = {
-					"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
-					type: AuditableItemGraphTypes.Resource,
-					id: resourceEntity.id,
-					dateCreated: resourceEntity.dateCreated,
-					dateModified: resourceEntity.dateModified,
-					dateDeleted: resourceEntity.dateDeleted,
-					resourceObject: resourceEntity.resourceObject
-				};
-				model.resources.push(resourceModel);
+		try {
+			const vertexId = urnParsed.namespaceSpecific(0);
+
+			const conditions: IComparator[] = [
+				{
+					property: "vertexId",
+					value: vertexId,
+					comparison: ComparisonOperator.Equals
+				}
+			];
+
+			if (!(options?.includeDeleted ?? false)) {
+				conditions.push({
+					property: "dateDeleted",
+					value: undefined,
+					comparison: ComparisonOperator.Equals
+				});
 			}
-		}
 
-		if (Is.arrayValue(vertexEntity.edges)) {
-			model.edges ??= [];
-			for (const edgeEntity of vertexEntity.edges) {
-				const edgeModel: IAuditableItemGraphEdge = {
+			if (Is.arrayValue(options?.edgeRelationships)) {
+				conditions.push({
+					property: "edgeRelationship",
+					value: options.edgeRelationships,
+					comparison: ComparisonOperator.In
+				});
+			}
+
+			const results = await this._incomingEdgeStorage.query(
+				{
+					conditions,
+					logicalOperator: LogicalOperator.And
+				},
+				[
+					{
+						property: "dateCreated",
+						sortDirection: SortDirection.Ascending
+					}
+				],
+				undefined,
+				options?.cursor,
+				options?.pageSize
+			);
+
+			const edgeList: IAuditableItemGraphEdgeList = {
+				"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+				type: AuditableItemGraphTypes.EdgeList,
+				edges: (results.entities as AuditableItemGraphIncomingEdge[]).map(e => ({
 					"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
 					type: AuditableItemGraphTypes.Edge,
-					id: edgeEntity.id,
-					dateCreated: edgeEntity.dateCreated,
-					dateModified: edgeEntity.dateModified,
-					dateDeleted: edgeEntity.dateDeleted,
-					edgeRelationship: edgeEntity.edgeRelationship,
-					annotationObject: edgeEntity.annotationObject
-				};
-				model.edges.push(edgeModel);
-			}
-		}
+					id: e.sourceVertexId,
+					dateCreated: e.dateCreated,
+					dateModified: e.dateModified,
+					dateDeleted: e.dateDeleted,
+					edgeRelationship: e.edgeRelationship,
+					annotationObject: e.annotationObject
+				})),
+				cursor: results.cursor
+			};
 
-		return model;
+			const compacted = await JsonLdProcessor.compact(edgeList, edgeList["@context"]);
+			return compacted as IAuditableItemGraphEdgeList;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "getIncomingEdgesFailed", undefined, error);
+		}
 	}
 
 	/**
-	 * Map the changeset entity to a JSON-LD.
-	 * @param changesetEntity The changeset entity.
-	 * @returns The model.
-	 * @internal
+	 * Traverse the graph starting from a vertex and return the subgraph reached.
+	 * @param startId The id of the vertex to start the traversal from.
+	 * @param options Additional options for the traversal.
+	 * @param options.direction The direction to follow the edges, defaults to outgoing.
+	 * @param options.maxDepth The maximum number of edges to follow from the start vertex, defaults to 1, at most 10.
+	 * @param options.edgeRelationships The relationships of the edges to follow, defaults to all.
+	 * @param options.includeResources Whether to include the resources of the vertices, defaults to false.
+	 * @returns The vertices in the subgraph, including the start vertex.
+	 * @throws NotFoundError if the start vertex is not found.
 	 */
-	private changesetEntityToJsonLd(
-		changesetEntity: AuditableItemGraphChangeset
-	): IAuditableItemGraphChangeset {
-		const model: IAuditableItemGraphChangeset = {
-			"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
-			type: AuditableItemGraphTypes.Changeset,
-			id: changesetEntity.id,
-			dateCreated: changesetEntity.dateCreated,
-			userIdentity: changesetEntity.userIdentity,
-			patches: changesetEntity.patches.map(p => ({
-				"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
-				type: AuditableItemGraphTypes.PatchOperation,
-				patchOperation: p.op,
-				patchPath: p.path,
-				patchFrom: p.from,
-				patchValue: p.value
-			})),
+	public async traverse(
+		startId: string,
+		options?: {
+			direction?: EdgeDirection;
+			maxDepth?: number;
+			edgeRelationships?: string[];
+			includeResources?: boolean;
+		}
+	): Promise<IAuditableItemGraphVertexList> {
+		Guards.stringValue(this.CLASS_NAME, nameof(startId), startId);
+		if (!Is.undefined(options?.direction)) {
+			Guards.arrayOneOf(
+				this.CLASS_NAME,
+				nameof(options.direction),
+				options.direction,
+				Object.values(EdgeDirection)
+			);
+		}
+		if (!Is.undefined(options?.maxDepth)) {
+			this.guardIntegerRange(
+				nameof(options.maxDepth),
+				options.maxDepth,
+				0,
+				AuditableItemGraphService._MAX_TRAVERSE_DEPTH
+			);
+		}
+
+		const urnParsed = Urn.fromValidString(startId);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id: startId
+			});
+		}
+
+		try {
+			const startVertexId = urnParsed.namespaceSpecific(0);
+			const startEntity = await this._vertexStorage.get(startVertexId);
+
+			if (Is.empty(startEntity) || Is.stringValue(startEntity.dateDeleted)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", startId);
+			}
+
+			const vertexEntities = await this.walkSubgraph(
+				startEntity,
+				options?.direction ?? EdgeDirection.Outgoing,
+				options?.maxDepth ?? AuditableItemGraphService._DEFAULT_TRAVERSE_DEPTH,
+				options?.edgeRelationships
+			);
+
+			const models: IAuditableItemGraphVertex[] = vertexEntities.map(e => {
+				const model = this.vertexEntityToJsonLd(e);
+				this.removeDeletedElements(model);
+				if (!(options?.includeResources ?? false)) {
+					delete model.resources;
+				}
+				return model;
+			});
+
+			const vertexList: IAuditableItemGraphVertexList = {
+				"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+				type: AuditableItemGraphTypes.VertexList,
+				vertices: models
+			};
+
+			const compacted = await JsonLdProcessor.compact(vertexList, vertexList["@context"]);
+			return compacted as IAuditableItemGraphVertexList;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "traverseFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Find the shortest path between two vertices.
+	 * @param fromId The id of the vertex to start the path from.
+	 * @param toId The id of the vertex to find the path to.
+	 * @param options Additional options for finding the path.
+	 * @param options.edgeRelationships The relationships of the edges which can be followed, defaults to all.
+	 * @param options.maxHops The maximum number of edges on the path, defaults to 10, at most 50.
+	 * @param options.direction The direction to follow the edges, defaults to outgoing.
+	 * @returns The path between the vertices, connected is false if there is no path.
+	 * @throws NotFoundError if the from vertex is not found.
+	 */
+	public async findPath(
+		fromId: string,
+		toId: string,
+		options?: {
+			edgeRelationships?: string[];
+			maxHops?: number;
+			direction?: EdgeDirection;
+		}
+	): Promise<IAuditableItemGraphPath> {
+		Guards.stringValue(this.CLASS_NAME, nameof(fromId), fromId);
+		Guards.stringValue(this.CLASS_NAME, nameof(toId), toId);
+		if (!Is.undefined(options?.maxHops)) {
+			this.guardIntegerRange(
+				nameof(options.maxHops),
+				options.maxHops,
+				1,
+				AuditableItemGraphService._MAX_PATH_MAX_HOPS
+			);
+		}
+		if (!Is.undefined(options?.direction)) {
+			Guards.arrayOneOf(
+				this.CLASS_NAME,
+				nameof(options.direction),
+				options.direction,
+				Object.values(EdgeDirection)
+			);
+		}
+
+		const fromParsed = Urn.fromValidString(fromId);
+		const toParsed = Urn.fromValidString(toId);
+
+		for (const urnParsed of [fromParsed, toParsed]) {
+			if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+				throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+					namespace: AuditableItemGraphService.NAMESPACE,
+					id: urnParsed.toString()
+				});
+			}
+		}
+
+		try {
+			const fromVertexId = fromParsed.namespaceSpecific(0);
+			const toVertexId = toParsed.namespaceSpecific(0);
+
+			const fromEntity = await this._vertexStorage.get(fromVertexId);
+			if (Is.empty(fromEntity) || Is.stringValue(fromEntity.dateDeleted)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", fromId);
+			}
+
+			const direction = options?.direction ?? EdgeDirection.Outgoing;
+			const maxHops = options?.maxHops ?? AuditableItemGraphService._DEFAULT_PATH_MAX_HOPS;
+
+			// Breadth first search so the first time we reach the target it is by the shortest path,
+			// each reached vertex remembers the vertex and edge it was reached by.
+			const reachedBy = new Map<
+				string,
+				{
+					previousVertexId: string;
+					edge: IAuditableItemGraphPathEdge;
+				}
+			>();
+			const visited = new Set<string>([fromVertexId]);
+			let frontier: AuditableItemGraphVertex[] = [fromEntity];
+
+			for (
+				let hops = 0;
+				hops < maxHops && frontier.length > 0 && !visited.has(toVertexId);
+				hops++
+			) {
+				const nextFrontier: AuditableItemGraphVertex[] = [];
+
+				for (const vertexEntity of frontier) {
+					const neighbours = await this.getNeighbours(
+						vertexEntity,
+						direction,
+						options?.edgeRelationships
+					);
+
+					for (const neighbour of neighbours) {
+						if (!visited.has(neighbour.vertexId)) {
+							const neighbourEntity = await this._vertexStorage.get(neighbour.vertexId);
+							if (!Is.empty(neighbourEntity) && !Is.stringValue(neighbourEntity.dateDeleted)) {
+								visited.add(neighbour.vertexId);
+								reachedBy.set(neighbour.vertexId, {
+									previousVertexId: vertexEntity.id,
+									edge: {
+										type: AuditableItemGraphTypes.PathEdge,
+										sourceId: `${AuditableItemGraphService.NAMESPACE}:${neighbour.sourceVertexId}`,
+										targetId: `${AuditableItemGraphService.NAMESPACE}:${neighbour.targetVertexId}`,
+										edgeRelationship: neighbour.edgeRelationship
+									}
+								});
+								nextFrontier.push(neighbourEntity);
+							}
+						}
+					}
+				}
+
+				frontier = nextFrontier;
+			}
+
+			const path: IAuditableItemGraphPath = {
+				"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+				type: AuditableItemGraphTypes.Path,
+				connected: visited.has(toVertexId),
+				vertices: [],
+				edges: []
+			};
+
+			if (path.connected) {
+				let currentVertexId = toVertexId;
+				path.vertices.unshift(`${AuditableItemGraphService.NAMESPACE}:${currentVertexId}`);
+
+				let step = reachedBy.get(currentVertexId);
+				while (!Is.empty(step)) {
+					path.edges.unshift(step.edge);
+					currentVertexId = step.previousVertexId;
+					path.vertices.unshift(`${AuditableItemGraphService.NAMESPACE}:${currentVertexId}`);
+					step = reachedBy.get(currentVertexId);
+				}
+			}
+
+			const compacted = await JsonLdProcessor.compact(path, path["@context"]);
+			return compacted as IAuditableItemGraphPath;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "findPathFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Get the changesets for a vertex in the order they were created.
+	 * @param id The id of the vertex to get the changesets for.
+	 * @param options Additional options for the operation.
+	 * @param options.cursor The cursor to request the next page of changesets.
+	 * @param options.pageSize The maximum number of changesets in a page.
+	 * @param options.from Only include changesets created on or after this date time.
+	 * @param options.to Only include changesets created on or before this date time.
+	 * @param options.userIdentity Only include changesets created by this user identity.
+	 * @param options.verify Whether to verify the signatures of the changesets and the links between them, defaults to false.
+	 * @returns The changesets and a cursor if there are more.
+	 * @throws NotFoundError if the vertex is not found.
+	 */
+	public async getChangesets(
+		id: string,
+		options?: {
+			cursor?: string;
+			pageSize?: number;
+			from?: string;
+			to?: string;
+			userIdentity?: string;
+			verify?: boolean;
+		}
+	): Promise<IAuditableItemGraphChangesetList> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		const urnParsed = Urn.fromValidString(id);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id
+			});
+		}
+
+		try {
+			const vertexId = urnParsed.namespaceSpecific(0);
+			const vertexEntity = await this._vertexStorage.get(vertexId);
+
+			if (Is.empty(vertexEntity)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
+			}
+
+			const conditions: IComparator[] = [
+				{
+					property: "vertexId",
+					value: vertexId,
+					comparison: ComparisonOperator.Equals
+				}
+			];
+
+			if (Is.stringValue(options?.from)) {
+				conditions.push({
+					property: "dateCreated",
+					value: options.from,
+					comparison: ComparisonOperator.GreaterThanOrEqual
+				});
+			}
+
+			if (Is.stringValue(options?.to)) {
+				conditions.push({
+					property: "dateCreated",
+					value: options.to,
+					comparison: ComparisonOperator.LessThanOrEqual
+				});
+			}
+
+			if (Is.stringValue(options?.userIdentity)) {
+				conditions.push({
+					property: "userIdentity",
+					value: options.userIdentity,
+					comparison: ComparisonOperator.Equals
+				});
+			}
+
+			const changesetsResult = await this._changesetStorage.query(
+				{
+					conditions,
+					logicalOperator: LogicalOperator.And
+				},
+				[
+					{
+						property: "dateCreated",
+						sortDirection: SortDirection.Ascending
+					}
+				],
+				undefined,
+				options?.cursor,
+				options?.pageSize
+			);
+
+			// The last changeset of the page is only the last of the history if nothing was filtered out after it.
+			const changesetEntities = changesetsResult.entities as AuditableItemGraphChangeset[];
+			const isHistoryTail =
+				!Is.stringValue(changesetsResult.cursor) &&
+				!Is.stringValue(options?.to) &&
+				!Is.stringValue(options?.userIdentity);
+
+			const changesets: IAuditableItemGraphChangeset[] = [];
+			for (let i = 0; i < changesetEntities.length; i++) {
+				const changesetModel = this.changesetEntityToJsonLd(changesetEntities[i]);
+				if (options?.verify ?? false) {
+					await this.verifyChangeset(changesetEntities[i], changesetModel);
+					changesetModel.chainFailure = await this.verifyStoredChangesetChain(
+						changesetEntities[i],
+						isHistoryTail && i === changesetEntities.length - 1 ? vertexEntity : undefined
+					);
+				}
+				changesets.push(changesetModel);
+			}
+
+			const changesetList: IAuditableItemGraphChangesetList = {
+				"@context": [
+					AuditableItemGraphTypes.ContextRoot,
+					ImmutableProofTypes.ContextRoot,
+					SchemaOrgTypes.ContextRoot
+				],
+				type: AuditableItemGraphTypes.ChangesetList,
+				changesets,
+				cursor: changesetsResult.cursor
+			};
+
+			const compacted = await JsonLdProcessor.compact(changesetList, changesetList["@context"]);
+			return compacted as IAuditableItemGraphChangesetList;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "getChangesetsFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Get a single changeset using the id it was given in its proof.
+	 * @param changesetId The id of the changeset in the form aig:<vertex>:changeset:<changeset>.
+	 * @param options Additional options for the operation.
+	 * @param options.verify Whether to verify the signature of the changeset, defaults to false.
+	 * @returns The changeset.
+	 * @throws NotFoundError if the changeset is not found.
+	 */
+	public async getChangeset(
+		changesetId: string,
+		options?: {
+			verify?: boolean;
+		}
+	): Promise<IAuditableItemGraphChangeset> {
+		Guards.stringValue(this.CLASS_NAME, nameof(changesetId), changesetId);
+
+		const urnParsed = Urn.fromValidString(changesetId);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id: changesetId
+			});
+		}
+
+		const urnParts = urnParsed.namespaceSpecificParts();
+		if (
+			urnParts.length !== 3 ||
+			urnParts[1] !== AuditableItemGraphService.NAMESPACE_CHANGESET ||
+			!Is.stringValue(urnParts[2])
+		) {
+			throw new GeneralError(this.CLASS_NAME, "changesetIdInvalid", {
+				id: changesetId
+			});
+		}
+
+		try {
+			const changesetEntity = await this._changesetStorage.get(urnParts[2]);
+
+			// The changeset must also belong to the vertex in the urn.
+			if (Is.empty(changesetEntity) || changesetEntity.vertexId !== urnParts[0]) {
+				throw new NotFoundError(this.CLASS_NAME, "changesetNotFound", changesetId);
+			}
+
+			const changesetModel = this.changesetEntityToJsonLd(changesetEntity);
+
+			if (options?.verify ?? false) {
+				changesetModel["@context"] = [
+					AuditableItemGraphTypes.ContextRoot,
+					ImmutableProofTypes.ContextRoot,
+					SchemaOrgTypes.ContextRoot
+				];
+				await this.verifyChangeset(changesetEntity, changesetModel);
+			}
+
+			const compacted = await JsonLdProcessor.compact(changesetModel, changesetModel["@context"]);
+			return compacted as IAuditableItemGraphChangeset;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "getChangesetFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Get the differences between two versions of a vertex.
+	 * @param id The id of the vertex to get the differences for.
+	 * @param from The date time or changeset id of the version to compare from.
+	 * @param to The date time or changeset id of the version to compare to, defaults to the current state.
+	 * @returns The patches between the versions and a summary of the changes.
+	 * @throws NotFoundError if the vertex or a changeset is not found.
+	 */
+	public async diff(id: string, from: string, to?: string): Promise<IAuditableItemGraphDiff> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		Guards.stringValue(this.CLASS_NAME, nameof(from), from);
+
+		const urnParsed = Urn.fromValidString(id);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id
+			});
+		}
+
+		try {
+			const vertexId = urnParsed.namespaceSpecific(0);
+			const vertexEntity = await this._vertexStorage.get(vertexId);
+
+			if (Is.empty(vertexEntity)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
+			}
+
+			const changesetEntities = await this.getChangesetEntities(vertexId);
+
+			const fromVertex = this.replayChangesets(
+				vertexEntity,
+				this.changesetsAsOf(id, changesetEntities, from)
+			);
+			const toVertex = this.replayChangesets(
+				vertexEntity,
+				Is.stringValue(to) ? this.changesetsAsOf(id, changesetEntities, to) : changesetEntities
+			);
+
+			const vertexDiff: IAuditableItemGraphDiff = {
+				"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+				type: AuditableItemGraphTypes.Diff,
+				patches: this.patchesToJsonLd(JsonHelper.diff(fromVertex, toVertex)),
+				annotationObjectModified: !ObjectHelper.equal(
+					fromVertex.annotationObject,
+					toVertex.annotationObject,
+					false
+				),
+				aliases: this.summariseElementChanges(fromVertex.aliases, toVertex.aliases),
+				resources: this.summariseElementChanges(fromVertex.resources, toVertex.resources),
+				edges: this.summariseElementChanges(fromVertex.edges, toVertex.edges)
+			};
+
+			const compacted = await JsonLdProcessor.compact(vertexDiff, vertexDiff["@context"]);
+			return compacted as IAuditableItemGraphDiff;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "diffFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Revert a vertex to the state it was in after a previous changeset, the revert is recorded as a new changeset.
+	 * @param id The id of the vertex to revert.
+	 * @param toChangesetId The id of the changeset to revert the vertex to.
+	 * @param userIdentity The identity to create the auditable item graph operation with.
+	 * @param nodeIdentity The node identity to use for vault operations.
+	 * @returns Nothing.
+	 * @throws NotFoundError if the vertex or changeset is not found.
+	 * @throws ConflictError if the vertex is modified while it is being reverted.
+	 */
+	public async revert(
+		id: string,
+		toChangesetId: string,
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		Guards.stringValue(this.CLASS_NAME, nameof(toChangesetId), toChangesetId);
+		Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
+		Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
+
+		const urnParsed = Urn.fromValidString(id);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id
+			});
+		}
+
+		try {
+			const vertexId = urnParsed.namespaceSpecific(0);
+			const vertexEntity = await this._vertexStorage.get(vertexId);
+
+			if (Is.empty(vertexEntity) || Is.stringValue(vertexEntity.dateDeleted)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
+			}
+
+			const changesetEntities = await this.getChangesetEntities(vertexId);
+			if (!changesetEntities.some(c => c.id === toChangesetId)) {
+				throw new NotFoundError(this.CLASS_NAME, "changesetNotFound", toChangesetId);
+			}
+
+			const revertTo = this.replayChangesets(
+				vertexEntity,
+				this.changesetsAsOf(id, changesetEntities, toChangesetId)
+			);
+
+			// Apply the old state through update so the revert is audited like any other change.
+			await this.update(
+				id,
+				revertTo.annotationObject,
+				revertTo.aliases
+					?.filter(a => Is.empty(a.dateDeleted))
+					.map(a => ({
+						id: a.id,
+						aliasFormat: a.aliasFormat,
+						annotationObject: a.annotationObject
+					})),
+				revertTo.resources
+					?.filter(r => Is.empty(r.dateDeleted))
+					.map(r => ({
+						id: r.id,
+						resourceObject: r.resourceObject
+					})),
+				revertTo.edges
+					?.filter(e => Is.empty(e.dateDeleted))
+					.map(e => ({
+						id: e.id,
+						edgeRelationship: e.edgeRelationship,
+						annotationObject: e.annotationObject,
+						// The inverse is always given so edges without one in the revision lose it.
+						bidirectional: false,
+						inverseRelationship: e.inverseRelationship
+					})),
+				userIdentity,
+				nodeIdentity,
+				// The revert is computed from the revision read, so it is only applied if the vertex is still at it.
+				{ expectedRevision: await this.getRevision(vertexEntity) }
+			);
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "revertFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Get the changeset which last modified each property of a vertex.
+	 * @param id The id of the vertex to get the blame for.
+	 * @returns The JSON pointer of each property with the changeset which last modified it.
+	 * @throws NotFoundError if the vertex is not found.
+	 */
+	public async blame(id: string): Promise<IAuditableItemGraphBlame> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		const urnParsed = Urn.fromValidString(id);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id
+			});
+		}
+
+		try {
+			const vertexId = urnParsed.namespaceSpecific(0);
+			const vertexEntity = await this._vertexStorage.get(vertexId);
+
+			if (Is.empty(vertexEntity)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
+			}
+
+			const changesetEntities = await this.getChangesetEntities(vertexId);
+
+			// Replay the history and compare the leaf values after each changeset,
+			// any value which is new or different is attributed to that changeset.
+			let state = this.replayStartingPoint(vertexEntity);
+			let previousLeaves = new Map<string, unknown>();
+			const attributions = new Map<string, AuditableItemGraphChangeset>();
+
+			for (const changesetEntity of changesetEntities) {
+				state = JsonHelper.patch(state, changesetEntity.patches);
+				state.dateModified = changesetEntity.dateCreated;
+
+				const leaves = new Map<string, unknown>();
+				this.flattenPointers(state, "", leaves);
+
+				for (const [pointer, value] of leaves) {
+					if (
+						!previousLeaves.has(pointer) ||
+						!ObjectHelper.equal(previousLeaves.get(pointer), value, false)
+					) {
+						attributions.set(pointer, changesetEntity);
+					}
+				}
+
+				previousLeaves = leaves;
+			}
+
+			const blame: IAuditableItemGraphBlame = {
+				"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+				type: AuditableItemGraphTypes.Blame,
+				entries: []
+			};
+
+			// The pointers are reported against the vertex as get returns it, so deleted
+			// elements are left out and the array indices only count the active elements.
+			for (const pointer of previousLeaves.keys()) {
+				const changesetEntity = attributions.get(pointer);
+				const activePointer = this.activeElementPointer(state, pointer);
+				if (!Is.empty(changesetEntity) && Is.stringValue(activePointer)) {
+					blame.entries.push({
+						type: AuditableItemGraphTypes.BlameEntry,
+						pointer: activePointer,
+						changesetId: changesetEntity.id,
+						userIdentity: changesetEntity.userIdentity,
+						dateCreated: changesetEntity.dateCreated
+					});
+				}
+			}
+
+			const compacted = await JsonLdProcessor.compact(blame, blame["@context"]);
+			return compacted as IAuditableItemGraphBlame;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "blameFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Resolve an alias to the vertex which uses it.
+	 * @param alias The id of the alias to resolve.
+	 * @param aliasFormat The format of the alias, if not provided any format matches.
+	 * @returns The id of the vertex which uses the alias.
+	 * @throws NotFoundError if no vertex uses the alias.
+	 * @throws ConflictError if more than one vertex uses the alias.
+	 */
+	public async resolveAlias(alias: string, aliasFormat?: string): Promise<string> {
+		Guards.stringValue(this.CLASS_NAME, nameof(alias), alias);
+
+		try {
+			const aliasIndexEntries = await this.getAliasIndexEntries(alias);
+
+			const vertexIds: string[] = [];
+			for (const aliasIndexEntry of aliasIndexEntries) {
+				if (
+					(!Is.stringValue(aliasFormat) || aliasIndexEntry.aliasFormat === aliasFormat) &&
+					!vertexIds.includes(aliasIndexEntry.vertexId)
+				) {
+					vertexIds.push(aliasIndexEntry.vertexId);
+				}
+			}
+
+			if (vertexIds.length === 0) {
+				throw new NotFoundError(this.CLASS_NAME, "aliasNotFound", alias);
+			}
+
+			if (vertexIds.length > 1) {
+				throw new ConflictError(
+					this.CLASS_NAME,
+					"aliasNotUnique",
+					alias,
+					vertexIds.map(vertexId =>
+						new Urn(AuditableItemGraphService.NAMESPACE, vertexId).toString()
+					)
+				);
+			}
+
+			return new Urn(AuditableItemGraphService.NAMESPACE, vertexIds[0]).toString();
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "resolveAliasFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Audit the integrity of the graph by finding the edges of active vertices which point at missing or deleted vertices.
+	 * @returns The dangling edges.
+	 */
+	public async auditIntegrity(): Promise<IAuditableItemGraphDanglingEdge[]> {
+		try {
+			const danglingEdges: IAuditableItemGraphDanglingEdge[] = [];
+			const targetStates: { [vertexId: string]: "active" | "missing" | "deleted" } = {};
+
+			let vertexResult;
+			do {
+				vertexResult = await this._vertexStorage.query(
+					{
+						property: "dateDeleted",
+						comparison: ComparisonOperator.Equals,
+						value: undefined
+					},
+					undefined,
+					["id", "edges"],
+					vertexResult?.cursor
+				);
+
+				for (const vertexEntity of vertexResult.entities as AuditableItemGraphVertex[]) {
+					for (const edge of vertexEntity.edges ?? []) {
+						if (Is.empty(edge.dateDeleted)) {
+							const targetVertexId = this.getVertexIdFromEdgeId(edge.id);
+
+							if (Is.empty(targetStates[targetVertexId])) {
+								const targetVertex = await this._vertexStorage.get(targetVertexId);
+								if (Is.empty(targetVertex)) {
+									targetStates[targetVertexId] = "missing";
+								} else if (Is.stringValue(targetVertex.dateDeleted)) {
+									targetStates[targetVertexId] = "deleted";
+								} else {
+									targetStates[targetVertexId] = "active";
+								}
+							}
+
+							const targetState = targetStates[targetVertexId];
+							if (targetState !== "active") {
+								danglingEdges.push({
+									vertexId: new Urn(
+										AuditableItemGraphService.NAMESPACE,
+										vertexEntity.id
+									).toString(),
+									edgeId: edge.id,
+									edgeRelationship: edge.edgeRelationship,
+									reason: targetState
+								});
+							}
+						}
+					}
+				}
+			} while (Is.stringValue(vertexResult.cursor));
+
+			return danglingEdges;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "auditIntegrityFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Rebuild the incoming edges index from the edges stored on the vertices, the index is only maintained
+	 * for edges written since it was introduced, so this backfills the edges which were stored before then.
+	 * @returns The number of incoming edge entries written.
+	 */
+	public async rebuildIncomingEdges(): Promise<number> {
+		try {
+			let count = 0;
+
+			let vertexResult;
+			do {
+				vertexResult = await this._vertexStorage.query(
+					undefined,
+					undefined,
+					["id", "dateDeleted", "edges"],
+					vertexResult?.cursor
+				);
+
+				for (const vertexEntity of vertexResult.entities as AuditableItemGraphVertex[]) {
+					for (const edge of vertexEntity.edges ?? []) {
+						const targetVertexId = this.getVertexIdFromEdgeId(edge.id);
+						await this._incomingEdgeStorage.set({
+							id: `${vertexEntity.id}:${targetVertexId}`,
+							vertexId: targetVertexId,
+							sourceVertexId: vertexEntity.id,
+							dateCreated: edge.dateCreated,
+							dateModified: edge.dateModified,
+							dateDeleted: edge.dateDeleted ?? vertexEntity.dateDeleted,
+							edgeRelationship: edge.edgeRelationship,
+							annotationObject: edge.annotationObject
+						});
+						count++;
+					}
+				}
+			} while (Is.stringValue(vertexResult.cursor));
+
+			return count;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "rebuildIncomingEdgesFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Export the subgraph starting from a vertex as a single JSON-LD dataset, which can be verified without access to the node.
+	 * @param rootId The id of the vertex to start the export from.
+	 * @param options Additional options for the export.
+	 * @param options.depth The maximum number of edges to follow from the root vertex, defaults to 1, at most 10.
+	 * @param options.relationships The relationships of the edges to follow, defaults to all.
+	 * @param options.includeChangesets Whether to include the changesets of the vertices, defaults to true.
+	 * @param options.includeProofs Whether to include the immutable proofs of the changesets, defaults to true.
+	 * @returns The subgraph as a JSON-LD dataset.
+	 * @throws NotFoundError if the root vertex is not found.
+	 */
+	public async exportSubgraph(
+		rootId: string,
+		options?: {
+			depth?: number;
+			relationships?: string[];
+			includeChangesets?: boolean;
+			includeProofs?: boolean;
+		}
+	): Promise<IAuditableItemGraphExport> {
+		Guards.stringValue(this.CLASS_NAME, nameof(rootId), rootId);
+		if (!Is.undefined(options?.depth)) {
+			this.guardIntegerRange(
+				nameof(options.depth),
+				options.depth,
+				0,
+				AuditableItemGraphService._MAX_TRAVERSE_DEPTH
+			);
+		}
+
+		const urnParsed = Urn.fromValidString(rootId);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id: rootId
+			});
+		}
+
+		try {
+			const rootVertexId = urnParsed.namespaceSpecific(0);
+			const rootEntity = await this._vertexStorage.get(rootVertexId);
+
+			if (Is.empty(rootEntity)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", rootId);
+			}
+
+			const vertexEntities = await this.walkSubgraph(
+				rootEntity,
+				EdgeDirection.Outgoing,
+				options?.depth ?? AuditableItemGraphService._DEFAULT_TRAVERSE_DEPTH,
+				options?.relationships
+			);
+
+			const includeChangesets = options?.includeChangesets ?? true;
+			const includeProofs = options?.includeProofs ?? true;
+
+			// The vertices are exported with their deleted elements as the changesets describe them,
+			// and each node keeps its own context so it can be used on its own.
+			const vertices: IAuditableItemGraphVertex[] = [];
+			const changesets: IAuditableItemGraphChangeset[] = [];
+			const proofs: IImmutableProof[] = [];
+
+			for (const vertexEntity of vertexEntities) {
+				// The deleted date is included so the vertex matches the state its changesets describe.
+				const vertexModel = this.vertexEntityToJsonLd(vertexEntity);
+				vertexModel.dateDeleted = vertexEntity.dateDeleted;
+				vertices.push(vertexModel);
+
+				if (includeChangesets) {
+					const changesetEntities = await this.getChangesetEntities(vertexEntity.id);
+					for (const changesetEntity of changesetEntities) {
+						// The changeset is given the full id it was signed with, so removing the proof id
+						// from it gives the document the proof was created for.
+						changesets.push(
+							this.changesetEntityToJsonLd({
+								...changesetEntity,
+								id: `${AuditableItemGraphService.NAMESPACE}:${vertexEntity.id}:${AuditableItemGraphService.NAMESPACE_CHANGESET}:${changesetEntity.id}`
+							})
+						);
+
+						if (includeProofs && Is.stringValue(changesetEntity.proofId)) {
+							proofs.push(await this._immutableProofComponent.get(changesetEntity.proofId));
+						}
+					}
+				}
+			}
+
+			return {
+				"@context": [
+					AuditableItemGraphTypes.ContextRoot,
+					ImmutableProofTypes.ContextRoot,
+					SchemaOrgTypes.ContextRoot
+				],
+				type: AuditableItemGraphTypes.Export,
+				rootId,
+				dateCreated: new Date(Date.now()).toISOString(),
+				"@graph": [...vertices, ...changesets, ...proofs]
+			};
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "exportSubgraphFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Get the verification bundle for a vertex, which contains its changesets, the reduced changeset JSON-LD each
+	 * proof was created for and the immutable proofs, so the changesets can be verified without access to the node.
+	 * @param id The id of the vertex to get the verification bundle for.
+	 * @returns The verification bundle.
+	 * @throws NotFoundError if the vertex is not found.
+	 */
+	public async getVerificationBundle(id: string): Promise<IAuditableItemGraphVerificationBundle> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		const urnParsed = Urn.fromValidString(id);
+
+		if (urnParsed.namespaceIdentifier() !== AuditableItemGraphService.NAMESPACE) {
+			throw new GeneralError(this.CLASS_NAME, "namespaceMismatch", {
+				namespace: AuditableItemGraphService.NAMESPACE,
+				id
+			});
+		}
+
+		try {
+			const vertexId = urnParsed.namespaceSpecific(0);
+			const vertexEntity = await this._vertexStorage.get(vertexId);
+
+			if (Is.empty(vertexEntity)) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
+			}
+
+			const entries: IAuditableItemGraphVerificationBundleEntry[] = [];
+			const changesetEntities = await this.getChangesetEntities(vertexId);
+			for (const changesetEntity of changesetEntities) {
+				entries.push({
+					changeset: this.changesetEntityToJsonLd(changesetEntity),
+					proofObject: this.changesetEntityToProofJsonLd(changesetEntity),
+					immutableProof: Is.stringValue(changesetEntity.proofId)
+						? await this._immutableProofComponent.get(changesetEntity.proofId)
+						: undefined
+				});
+			}
+
+			return {
+				"@context": [
+					AuditableItemGraphTypes.ContextRoot,
+					ImmutableProofTypes.ContextRoot,
+					SchemaOrgTypes.ContextRoot
+				],
+				type: AuditableItemGraphTypes.VerificationBundle,
+				vertexId: id,
+				dateCreated: new Date(Date.now()).toISOString(),
+				entries,
+				lastChangesetId: vertexEntity.lastChangesetId,
+				lastChangesetHash: vertexEntity.lastChangesetHash
+			};
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "getVerificationBundleFailed", undefined, error);
+		}
+	}
+
+	/**
+	 * Map the vertex entity to JSON-LD.
+	 * @param vertexEntity The vertex entity.
+	 * @returns The model.
+	 * @internal
+	 */
+	private vertexEntityToJsonLd(vertexEntity: AuditableItemGraphVertex): IAuditableItemGraphVertex {
+		const model: IAuditableItemGraphVertex = {
+			"@context": [
+				AuditableItemGraphTypes.ContextRoot,
+				ImmutableProofTypes.ContextRoot,
+				SchemaOrgTypes.ContextRoot
+			],
+			type: AuditableItemGraphTypes.Vertex,
+			id: vertexEntity.id,
+			dateCreated: vertexEntity.dateCreated,
+			dateModified: vertexEntity.dateModified,
+			nodeIdentity: vertexEntity.nodeIdentity,
+			revision: vertexEntity.revision,
+			annotationObject: vertexEntity.annotationObject
+		};
+
+		if (Is.arrayValue(vertexEntity.aliases)) {
+			model.aliases ??= [];
+			for (const aliasEntity of vertexEntity.aliases) {
+				const aliasModel: IAuditableItemGraphAlias = {
+					"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+					type: AuditableItemGraphTypes.Alias,
+					id: aliasEntity.id,
+					aliasFormat: aliasEntity.aliasFormat,
+					dateCreated: aliasEntity.dateCreated,
+					dateModified: aliasEntity.dateModified,
+					dateDeleted: aliasEntity.dateDeleted,
+					annotationObject: aliasEntity.annotationObject
+				};
+				model.aliases.push(aliasModel);
+			}
+		}
+
+		if (Is.arrayValue(vertexEntity.resources)) {
+			model.resources ??= [];
+			for (const resourceEntity of vertexEntity.resources) {
+				const resourceModel: IAuditableItemGraphResource = {
+					"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+					type: AuditableItemGraphTypes.Resource,
+					id: resourceEntity.id,
+					dateCreated: resourceEntity.dateCreated,
+					dateModified: resourceEntity.dateModified,
+					dateDeleted: resourceEntity.dateDeleted,
+					resourceObject: resourceEntity.resourceObject
+				};
+				model.resources.push(resourceModel);
+			}
+		}
+
+		if (Is.arrayValue(vertexEntity.edges)) {
+			model.edges ??= [];
+			for (const edgeEntity of vertexEntity.edges) {
+				const edgeModel: IAuditableItemGraphEdge = {
+					"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+					type: AuditableItemGraphTypes.Edge,
+					id: edgeEntity.id,
+					dateCreated: edgeEntity.dateCreated,
+					dateModified: edgeEntity.dateModified,
+					dateDeleted: edgeEntity.dateDeleted,
+					edgeRelationship: edgeEntity.edgeRelationship,
+					inverseRelationship: edgeEntity.inverseRelationship,
+					annotationObject: edgeEntity.annotationObject
+				};
+				model.edges.push(edgeModel);
+			}
+		}
+
+		return model;
+	}
+
+	/**
+	 * Remove the deleted aliases, resources and edges from the vertex model.
+	 * @param vertexModel The vertex model to update.
+	 * @internal
+	 */
+	private removeDeletedElements(vertexModel: IAuditableItemGraphVertex): void {
+		if (Is.arrayValue(vertexModel.aliases)) {
+			vertexModel.aliases = vertexModel.aliases.filter(a => Is.undefined(a.dateDeleted));
+			if (vertexModel.aliases.length === 0) {
+				delete vertexModel.aliases;
+			}
+		}
+		if (Is.arrayValue(vertexModel.resources)) {
+			vertexModel.resources = vertexModel.resources.filter(r => Is.undefined(r.dateDeleted));
+			if (vertexModel.resources.length === 0) {
+				delete vertexModel.resources;
+			}
+		}
+		if (Is.arrayValue(vertexModel.edges)) {
+			vertexModel.edges = vertexModel.edges.filter(r => Is.undefined(r.dateDeleted));
+			if (vertexModel.edges.length === 0) {
+				delete vertexModel.edges;
+			}
+		}
+	}
+
+	/**
+	 * Map the active elements of a vertex entity to the document used for partial updates.
+	 * @param vertexEntity The vertex entity.
+	 * @returns The patch document.
+	 * @internal
+	 */
+	private vertexEntityToPatchDocument(
+		vertexEntity: AuditableItemGraphVertex
+	): IAuditableItemGraphPatchDocument {
+		const aliases: IAuditableItemGraphPatchDocument["aliases"] = {};
+		for (const alias of vertexEntity.aliases ?? []) {
+			if (Is.empty(alias.dateDeleted)) {
+				aliases[alias.id] = {
+					aliasFormat: alias.aliasFormat,
+					annotationObject: alias.annotationObject
+				};
+			}
+		}
+
+		const resources: IAuditableItemGraphPatchDocument["resources"] = {};
+		for (const resource of vertexEntity.resources ?? []) {
+			// Resources are keyed the same way the update matches them, so resources
+			// which are only identified by their resource object keep their identity.
+			const resourceId = this.getResourceId(resource);
+			if (Is.empty(resource.dateDeleted) && Is.stringValue(resourceId)) {
+				resources[resourceId] = {
+					resourceObject: resource.resourceObject
+				};
+			}
+		}
+
+		const edges: IAuditableItemGraphPatchDocument["edges"] = {};
+		for (const edge of vertexEntity.edges ?? []) {
+			if (Is.empty(edge.dateDeleted)) {
+				edges[edge.id] = {
+					edgeRelationship: edge.edgeRelationship,
+					annotationObject: edge.annotationObject,
+					inverseRelationship: edge.inverseRelationship
+				};
+			}
+		}
+
+		return {
+			annotationObject: vertexEntity.annotationObject,
+			aliases,
+			resources,
+			edges
+		};
+	}
+
+	/**
+	 * Apply an RFC 7396 merge patch to a value.
+	 * @param target The value to apply the patch to.
+	 * @param mergePatch The merge patch, a null property removes it from the target.
+	 * @returns The patched value.
+	 * @internal
+	 */
+	private mergePatch(target: unknown, mergePatch: unknown): unknown {
+		if (!Is.object<{ [key: string]: unknown }>(mergePatch)) {
+			return mergePatch;
+		}
+
+		const result: { [key: string]: unknown } = Is.object<{ [key: string]: unknown }>(target)
+			? { ...target }
+			: {};
+
+		for (const key of Object.keys(mergePatch)) {
+			if (mergePatch[key] === null) {
+				delete result[key];
+			} else {
+				result[key] = this.mergePatch(result[key], mergePatch[key]);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Map the changeset entity to a JSON-LD.
+	 * @param changesetEntity The changeset entity.
+	 * @returns The model.
+	 * @internal
+	 */
+	private changesetEntityToJsonLd(
+		changesetEntity: AuditableItemGraphChangeset
+	): IAuditableItemGraphChangeset {
+		const model: IAuditableItemGraphChangeset = {
+			"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+			type: AuditableItemGraphTypes.Changeset,
+			id: changesetEntity.id,
+			dateCreated: changesetEntity.dateCreated,
+			userIdentity: changesetEntity.userIdentity,
+			patches: this.patchesToJsonLd(changesetEntity.patches),
+			previousChangesetId: changesetEntity.previousChangesetId,
+			previousChangesetHash: changesetEntity.previousChangesetHash,
 			proofId: changesetEntity.proofId
 		};
 
-		return model;
+		return model;
+	}
+
+	/**
+	 * Map the changeset entity to the JSON-LD object used for its proof,
+	 * this is a subset of fixed properties from the changeset object with the full changeset id.
+	 * @param changesetEntity The changeset entity.
+	 * @returns The model.
+	 * @internal
+	 */
+	private changesetEntityToProofJsonLd(
+		changesetEntity: AuditableItemGraphChangeset
+	): IAuditableItemGraphChangeset {
+		return this.changesetEntityToJsonLd({
+			...(ObjectHelper.pick(
+				changesetEntity,
+				AuditableItemGraphService._PROOF_KEYS_CHANGESET
+			) as AuditableItemGraphChangeset),
+			id: `${AuditableItemGraphService.NAMESPACE}:${changesetEntity.vertexId}:${AuditableItemGraphService.NAMESPACE_CHANGESET}:${changesetEntity.id}`
+		});
+	}
+
+	/**
+	 * Map the patches to JSON-LD.
+	 * @param patches The patches.
+	 * @returns The models.
+	 * @internal
+	 */
+	private patchesToJsonLd(patches: IPatchOperation[]): IAuditableItemGraphPatchOperation[] {
+		return patches.map(p => ({
+			"@context": [AuditableItemGraphTypes.ContextRoot, SchemaOrgTypes.ContextRoot],
+			type: AuditableItemGraphTypes.PatchOperation,
+			patchOperation: p.op,
+			patchPath: p.path,
+			patchFrom: p.from,
+			patchValue: p.value
+		}));
+	}
+
+	/**
+	 * Summarise the changes to a list of vertex elements between two versions.
+	 * @param fromElements The elements in the from version.
+	 * @param toElements The elements in the to version.
+	 * @returns The summary of the changes to the active elements.
+	 * @internal
+	 */
+	private summariseElementChanges(
+		fromElements: { id?: string; dateDeleted?: string }[] | undefined,
+		toElements: { id?: string; dateDeleted?: string }[] | undefined
+	): IAuditableItemGraphDiffSummary {
+		// Stored elements always have an id, the resource id is only optional on input.
+		const fromActive = (fromElements?.filter(e => Is.empty(e.dateDeleted)) ?? []) as {
+			id: string;
+		}[];
+		const toActive = (toElements?.filter(e => Is.empty(e.dateDeleted)) ?? []) as {
+			id: string;
+		}[];
+
+		const summary: IAuditableItemGraphDiffSummary = {
+			type: AuditableItemGraphTypes.DiffSummary,
+			added: [],
+			removed: [],
+			modified: []
+		};
+
+		for (const toElement of toActive) {
+			const fromElement = fromActive.find(e => e.id === toElement.id);
+			if (Is.empty(fromElement)) {
+				summary.added.push(toElement.id);
+			} else if (!ObjectHelper.equal(fromElement, toElement, false)) {
+				summary.modified.push(toElement.id);
+			}
+		}
+
+		for (const fromElement of fromActive) {
+			if (!toActive.some(e => e.id === fromElement.id)) {
+				summary.removed.push(fromElement.id);
+			}
+		}
+
+		return summary;
+	}
+
+	/**
+	 * Update the aliases of a vertex model.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex.
+	 * @param aliases The aliases to update.
+	 * @internal
+	 */
+	private async updateAliasList(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex,
+		aliases?: {
+			id: string;
+			aliasFormat?: string;
+			annotationObject?: IJsonLdNodeObject;
+		}[]
+	): Promise<void> {
+		const formattedAliases = this.formatAliases(aliases);
+		await this.validateAliasUniqueness(vertex.id, formattedAliases);
+
+		const active = vertex.aliases?.filter(a => Is.empty(a.dateDeleted)) ?? [];
+
+		// The active aliases that are not in the update list should be marked as deleted.
+		if (Is.arrayValue(active)) {
+			for (const alias of active) {
+				if (!formattedAliases?.find(a => a.id === alias.id)) {
+					alias.dateDeleted = context.now;
+				}
+			}
+		}
+
+		if (Is.arrayValue(formattedAliases)) {
+			for (const alias of formattedAliases) {
+				await this.updateAlias(context, vertex, alias);
+			}
+		}
+	}
+
+	/**
+	 * Validate the ids of the aliases which have a registered format handler, and normalise them.
+	 * @param aliases The aliases to format.
+	 * @returns The aliases with their ids normalised.
+	 * @internal
+	 */
+	private formatAliases<T extends { id: string; aliasFormat?: string }>(
+		aliases?: T[]
+	): T[] | undefined {
+		if (!Is.arrayValue(aliases)) {
+			return aliases;
+		}
+
+		const validationFailures: IValidationFailure[] = [];
+
+		const formattedAliases = aliases.map(alias => {
+			const aliasFormatHandler = Is.stringValue(alias?.aliasFormat)
+				? AliasFormatHandlerFactory.getIfExists<IAliasFormatHandler>(alias.aliasFormat)
+				: undefined;
+
+			if (
+				Is.empty(aliasFormatHandler) ||
+				!Is.stringValue(alias.id) ||
+				!aliasFormatHandler.validate("aliases", alias.id, validationFailures) ||
+				!Is.function(aliasFormatHandler.normalise)
+			) {
+				return alias;
+			}
+
+			return {
+				...alias,
+				id: aliasFormatHandler.normalise(alias.id)
+			};
+		});
+
+		Validation.asValidationError(this.CLASS_NAME, nameof(aliases), validationFailures);
+
+		return formattedAliases;
+	}
+
+	/**
+	 * Update an alias in the vertex.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex.
+	 * @param alias The alias.
+	 * @internal
+	 */
+	private async updateAlias(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex,
+		alias: {
+			id: string;
+			aliasFormat?: string;
+			annotationObject?: IJsonLdNodeObject;
+		}
+	): Promise<void> {
+		Guards.object(this.CLASS_NAME, nameof(alias), alias);
+		Guards.stringValue(this.CLASS_NAME, nameof(alias.id), alias.id);
+
+		if (Is.object(alias.annotationObject)) {
+			const validationFailures: IValidationFailure[] = [];
+			await JsonLdHelper.validate(alias.annotationObject, validationFailures);
+			Validation.asValidationError(
+				this.CLASS_NAME,
+				nameof(alias.annotationObject),
+				validationFailures
+			);
+		}
+
+		// Try to find an existing alias with the same id.
+		const existing = vertex.aliases?.find(a => a.id === alias.id);
+
+		if (Is.empty(existing) || !Is.empty(existing?.dateDeleted)) {
+			// Did not find a matching item, or found one which is deleted.
+			vertex.aliases ??= [];
+
+			const model: AuditableItemGraphAlias = {
+				id: alias.id,
+				aliasFormat: alias.aliasFormat,
+				dateCreated: context.now,
+				annotationObject: alias.annotationObject
+			};
+
+			vertex.aliases.push(model);
+		} else if (
+			existing.aliasFormat !== alias.aliasFormat ||
+			!ObjectHelper.equal(existing.annotationObject, alias.annotationObject, false)
+		) {
+			// Existing alias found, update the annotationObject.
+			existing.dateModified = context.now;
+			existing.aliasFormat = alias.aliasFormat;
+			existing.annotationObject = alias.annotationObject;
+		}
+	}
+
+	/**
+	 * Update the resources of a vertex.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex.
+	 * @param resources The resources to update.
+	 * @internal
+	 */
+	private async updateResourceList(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex,
+		resources?: {
+			id?: string;
+			resourceObject?: IJsonLdNodeObject;
+		}[]
+	): Promise<void> {
+		if (Is.arrayValue(resources)) {
+			for (let i = 0; i < resources.length; i++) {
+				const id = this.getResourceId(resources[i]);
+				if (Is.empty(id)) {
+					throw new GeneralError(this.CLASS_NAME, "resourceIdMissing", { index: i });
+				}
+			}
+		}
+
+		const active = vertex.resources?.filter(r => Is.empty(r.dateDeleted)) ?? [];
+
+		// The active resources that are not in the update list should be marked as deleted.
+		if (Is.arrayValue(active)) {
+			for (const resource of active) {
+				if (!resources?.find(a => this.getResourceId(a) === this.getResourceId(resource))) {
+					resource.dateDeleted = context.now;
+				}
+			}
+		}
+
+		if (Is.arrayValue(resources)) {
+			for (const resource of resources) {
+				await this.updateResource(context, vertex, resource);
+			}
+		}
+	}
+
+	/**
+	 * Add a resource to the vertex.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex.
+	 * @param resource The resource.
+	 * @internal
+	 */
+	private async updateResource(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex,
+		resource: {
+			id?: string;
+			resourceObject?: IJsonLdNodeObject;
+		}
+	): Promise<void> {
+		Guards.object(this.CLASS_NAME, nameof(resource), resource);
+
+		if (Is.object(resource.resourceObject)) {
+			const validationFailures: IValidationFailure[] = [];
+			await JsonLdHelper.validate(resource, validationFailures);
+			Validation.asValidationError(
+				this.CLASS_NAME,
+				nameof(resource.resourceObject),
+				validationFailures
+			);
+		}
+
+		// Try to find an existing resource with the same id.
+		const existing = vertex.resources?.find(
+			r => this.getResourceId(r) === this.getResourceId(resource)
+		);
+
+		if (Is.empty(existing) || !Is.empty(existing?.dateDeleted)) {
+			// Did not find a matching item, or found one which is deleted.
+			vertex.resources ??= [];
+
+			const model: AuditableItemGraphResource = {
+				id: resource.id,
+				dateCreated: context.now,
+				resourceObject: resource.resourceObject
+			};
+
+			vertex.resources.push(model);
+		} else if (!ObjectHelper.equal(existing.resourceObject, resource.resourceObject, false)) {
+			// Existing resource found, update the resourceObject.
+			existing.dateModified = context.now;
+			existing.resourceObject = resource.resourceObject;
+		}
+	}
+
+	/**
+	 * Update the edges of a vertex.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex.
+	 * @param edges The edges to update.
+	 * @internal
+	 */
+	private async updateEdgeList(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex,
+		edges?: {
+			id: string;
+			edgeRelationship: string;
+			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
+		}[]
+	): Promise<void> {
+		const active = vertex.edges?.filter(e => Is.empty(e.dateDeleted)) ?? [];
+
+		// The active edges that are not in the update list should be marked as deleted.
+		if (Is.arrayValue(active)) {
+			for (const edge of active) {
+				if (!edges?.find(a => a.id === edge.id)) {
+					edge.dateDeleted = context.now;
+				}
+			}
+		}
+
+		if (Is.arrayValue(edges)) {
+			for (const edge of edges) {
+				await this.updateEdge(context, vertex, edge);
+			}
+		}
+	}
+
+	/**
+	 * Keep the incoming edges index in step with the edges touched by this operation,
+	 * this is only called once the vertex has been stored so a failed operation leaves no orphaned entries.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex.
+	 * @internal
+	 */
+	private async updateIncomingEdges(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex
+	): Promise<void> {
+		// When the vertex itself has been removed all of its edges are retired from the index.
+		const vertexDeleted = vertex.dateDeleted === context.now;
+
+		if (Is.arrayValue(vertex.edges)) {
+			for (const edge of vertex.edges) {
+				if (
+					vertexDeleted ||
+					edge.dateCreated === context.now ||
+					edge.dateModified === context.now ||
+					edge.dateDeleted === context.now
+				) {
+					const targetVertexId = this.getVertexIdFromEdgeId(edge.id);
+					await this._incomingEdgeStorage.set({
+						id: `${vertex.id}:${targetVertexId}`,
+						vertexId: targetVertexId,
+						sourceVertexId: vertex.id,
+						dateCreated: edge.dateCreated,
+						dateModified: edge.dateModified,
+						dateDeleted: edge.dateDeleted ?? (vertexDeleted ? context.now : undefined),
+						edgeRelationship: edge.edgeRelationship,
+						annotationObject: edge.annotationObject
+					});
+				}
+			}
+		}
+	}
+
+	/**
+	 * Add an edge to the vertex.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex.
+	 * @param edge The edge.
+	 * @internal
+	 */
+	private async updateEdge(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex,
+		edge: {
+			id: string;
+			edgeRelationship: string;
+			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
+		}
+	): Promise<void> {
+		Guards.object(this.CLASS_NAME, nameof(edge), edge);
+		Guards.stringValue(this.CLASS_NAME, nameof(edge.id), edge.id);
+		Guards.stringValue(this.CLASS_NAME, nameof(edge.edgeRelationship), edge.edgeRelationship);
+
+		// Try to find an existing edge with the same id.
+		const existing = vertex.edges?.find(r => r.id === edge.id);
+
+		const validationFailures: IValidationFailure[] = [];
+		const targetVertexId = this.getVertexIdFromEdgeId(edge.id);
+		if (targetVertexId === vertex.id) {
+			validationFailures.push({
+				property: "id",
+				reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeIdSameAsVertexId`,
+				properties: {
+					id: edge.id
+				}
+			});
+		} else if (Is.empty(existing) || !Is.empty(existing?.dateDeleted)) {
+			// Only new edges are checked, so existing edges to retired vertices do not block updates.
+			await this.validateEdgeTarget(context, edge.id, targetVertexId, validationFailures);
+		}
+		if (
+			targetVertexId !== vertex.id &&
+			(Is.empty(existing) ||
+				!Is.empty(existing?.dateDeleted) ||
+				existing.edgeRelationship !== edge.edgeRelationship)
+		) {
+			await this.validateEdgeRelationship(
+				context,
+				vertex,
+				edge.id,
+				edge.edgeRelationship,
+				targetVertexId,
+				validationFailures
+			);
+		}
+		if (Is.object(edge.annotationObject)) {
+			await JsonLdHelper.validate(edge.annotationObject, validationFailures);
+		}
+
+		let inverseRelationship = this.getInverseRelationship(edge);
+		if (
+			Is.undefined(edge.bidirectional) &&
+			Is.undefined(edge.inverseRelationship) &&
+			Is.empty(existing?.dateDeleted)
+		) {
+			// An edge which does not say anything about its inverse keeps the one it already has.
+			inverseRelationship = existing?.inverseRelationship;
+		}
+
+		if (
+			targetVertexId !== vertex.id &&
+			Is.stringValue(inverseRelationship) &&
+			(Is.empty(existing) ||
+				!Is.empty(existing?.dateDeleted) ||
+				existing.edgeRelationship !== edge.edgeRelationship ||
+				existing.inverseRelationship !== inverseRelationship)
+		) {
+			await this.validateInverseEdge(
+				context,
+				vertex,
+				Is.empty(existing?.dateDeleted) ? existing?.inverseRelationship : undefined,
+				targetVertexId,
+				inverseRelationship,
+				validationFailures
+			);
+		}
+
+		Validation.asValidationError(
+			this.CLASS_NAME,
+			nameof(edge.annotationObject),
+			validationFailures
+		);
+
+		if (Is.empty(existing) || !Is.empty(existing?.dateDeleted)) {
+			// Did not find a matching item, or found one which is deleted.
+			vertex.edges ??= [];
+
+			const model: AuditableItemGraphEdge = {
+				id: edge.id,
+				dateCreated: context.now,
+				annotationObject: edge.annotationObject,
+				edgeRelationship: edge.edgeRelationship,
+				inverseRelationship
+			};
+
+			vertex.edges.push(model);
+		} else if (
+			existing.edgeRelationship !== edge.edgeRelationship ||
+			existing.inverseRelationship !== inverseRelationship ||
+			!ObjectHelper.equal(existing.annotationObject, edge.annotationObject, false)
+		) {
+			// Existing resource found, update the annotationObject.
+			existing.dateModified = context.now;
+			existing.edgeRelationship = edge.edgeRelationship;
+			existing.inverseRelationship = inverseRelationship;
+			existing.annotationObject = edge.annotationObject;
+		}
+	}
+
+	/**
+	 * Get the relationship the target vertex should have back to the vertex for an edge.
+	 * @param edge The edge.
+	 * @param edge.edgeRelationship The relationship of the edge.
+	 * @param edge.bidirectional Whether the edge is bidirectional.
+	 * @param edge.inverseRelationship The explicit inverse relationship for the edge.
+	 * @returns The inverse relationship, or undefined if the edge has no inverse.
+	 * @internal
+	 */
+	private getInverseRelationship(edge: {
+		edgeRelationship: string;
+		bidirectional?: boolean;
+		inverseRelationship?: string;
+	}): string | undefined {
+		if (Is.stringValue(edge.inverseRelationship)) {
+			return edge.inverseRelationship;
+		}
+		if (edge.bidirectional ?? false) {
+			// A registered relationship supplies its own inverse, otherwise the edge is symmetric.
+			return (
+				EdgeRelationshipFactory.getIfExists<IAuditableItemGraphEdgeRelationship>(
+					edge.edgeRelationship
+				)?.inverse ?? edge.edgeRelationship
+			);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Validate the edge the target vertex will be given back to the vertex, it must not replace an edge
+	 * the target already has to the vertex and must satisfy the constraints of its own relationship.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex the edge belongs to.
+	 * @param originalInverse The inverse relationship the edge maintained before the operation.
+	 * @param targetVertexId The id of the vertex the edge points at.
+	 * @param inverseRelationship The relationship of the edge on the target vertex.
+	 * @param validationFailures The list of failures to add to.
+	 * @internal
+	 */
+	private async validateInverseEdge(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex,
+		originalInverse: string | undefined,
+		targetVertexId: string,
+		inverseRelationship: string,
+		validationFailures: IValidationFailure[]
+	): Promise<void> {
+		// Vertices created in the same batch are given their inverse edges when they are prepared.
+		if (context.pendingVertexIds?.includes(targetVertexId)) {
+			return;
+		}
+
+		const targetVertex = await this._vertexStorage.get(targetVertexId);
+		if (Is.empty(targetVertex) || Is.stringValue(targetVertex.dateDeleted)) {
+			return;
+		}
+
+		// The edge id is the id of the vertex it points at, so the target can only have one edge back
+		// to the vertex, an edge with another relationship which this edge does not maintain is a conflict.
+		const matching = targetVertex.edges?.find(
+			e => Is.empty(e.dateDeleted) && this.getVertexIdFromEdgeId(e.id) === vertex.id
+		);
+		if (
+			Is.object(matching) &&
+			matching.edgeRelationship !== inverseRelationship &&
+			matching.edgeRelationship !== originalInverse
+		) {
+			validationFailures.push({
+				property: "inverseRelationship",
+				reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeInverseConflict`,
+				properties: {
+					id: new Urn(AuditableItemGraphService.NAMESPACE, targetVertexId).toString(),
+					edgeRelationship: matching.edgeRelationship,
+					inverseRelationship
+				}
+			});
+		} else if (matching?.edgeRelationship !== inverseRelationship) {
+			await this.validateEdgeRelationship(
+				context,
+				targetVertex,
+				new Urn(AuditableItemGraphService.NAMESPACE, vertex.id).toString(),
+				inverseRelationship,
+				vertex.id,
+				validationFailures
+			);
+		}
+	}
+
+	/**
+	 * Maintain the matching edges on the target vertices for the edges with an inverse relationship.
+	 * @param context The context for the operation.
+	 * @param originalVertex The vertex before the operation.
+	 * @param vertex The vertex after the operation.
+	 * @internal
+	 */
+	private async updateInverseEdges(
+		context: IAuditableItemGraphServiceContext,
+		originalVertex: AuditableItemGraphVertex,
+		vertex: AuditableItemGraphVertex
+	): Promise<void> {
+		const vertexDeleted = vertex.dateDeleted === context.now;
+		const changedEdges =
+			vertex.edges?.filter(
+				edge =>
+					vertexDeleted ||
+					edge.dateCreated === context.now ||
+					edge.dateModified === context.now ||
+					edge.dateDeleted === context.now
+			) ?? [];
+
+		for (const edge of changedEdges) {
+			const originalInverse = originalVertex.edges?.find(
+				e => e.id === edge.id && Is.empty(e.dateDeleted)
+			)?.inverseRelationship;
+			const inverseRelationship =
+				vertexDeleted || Is.stringValue(edge.dateDeleted) ? undefined : edge.inverseRelationship;
+
+			if (Is.stringValue(originalInverse) || Is.stringValue(inverseRelationship)) {
+				await this.updateInverseEdge(context, vertex, edge, originalInverse, inverseRelationship);
+			}
+		}
+	}
+
+	/**
+	 * Maintain the matching edge on the target vertex for an edge with an inverse relationship.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex the edge belongs to.
+	 * @param edge The edge.
+	 * @param originalInverse The inverse relationship the edge maintained before the operation.
+	 * @param inverseRelationship The inverse relationship of the edge, undefined if the matching edge should be removed.
+	 * @internal
+	 */
+	private async updateInverseEdge(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex,
+		edge: AuditableItemGraphEdge,
+		originalInverse: string | undefined,
+		inverseRelationship: string | undefined
+	): Promise<void> {
+		// The target is read while it is locked, so a concurrent change to it is not overwritten.
+		const targetVertexId = this.getVertexIdFromEdgeId(edge.id);
+		const releaseLock = await this.acquireLock(`vertex:${targetVertexId}`);
+
+		try {
+			const targetVertex = await this._vertexStorage.get(targetVertexId);
+
+			// Targets which do not exist yet, or are deleted, have no matching edge to maintain.
+			if (Is.object(targetVertex) && Is.empty(targetVertex.dateDeleted)) {
+				await this.updateTargetInverseEdge(
+					context,
+					vertex,
+					edge,
+					targetVertex,
+					originalInverse,
+					inverseRelationship
+				);
+			}
+		} finally {
+			releaseLock();
+		}
+	}
+
+	/**
+	 * Update the matching edge on a locked target vertex and store the target if it changed.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex the edge belongs to.
+	 * @param edge The edge.
+	 * @param targetVertex The vertex the edge points at.
+	 * @param originalInverse The inverse relationship the edge maintained before the operation.
+	 * @param inverseRelationship The inverse relationship of the edge, undefined if the matching edge should be removed.
+	 * @internal
+	 */
+	private async updateTargetInverseEdge(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex,
+		edge: AuditableItemGraphEdge,
+		targetVertex: AuditableItemGraphVertex,
+		originalInverse: string | undefined,
+		inverseRelationship: string | undefined
+	): Promise<void> {
+		const aliasIndex = targetVertex.aliasIndex;
+		delete targetVertex.aliasIndex;
+		const originalTarget = ObjectHelper.clone(targetVertex);
+
+		const matching = targetVertex.edges?.find(
+			e => Is.empty(e.dateDeleted) && this.getVertexIdFromEdgeId(e.id) === vertex.id
+		);
+		if (!Is.stringValue(inverseRelationship)) {
+			// Only remove the matching edge if it is still the one this edge maintained.
+			if (Is.object(matching) && matching.edgeRelationship === originalInverse) {
+				matching.dateDeleted = context.now;
+			}
+		} else if (Is.empty(matching)) {
+			targetVertex.edges ??= [];
+			targetVertex.edges.push({
+				id: new Urn(AuditableItemGraphService.NAMESPACE, vertex.id).toString(),
+				dateCreated: context.now,
+				annotationObject: edge.annotationObject,
+				edgeRelationship: inverseRelationship,
+				inverseRelationship: edge.edgeRelationship
+			});
+		} else if (
+			matching.edgeRelationship !== inverseRelationship ||
+			matching.inverseRelationship !== edge.edgeRelationship ||
+			!ObjectHelper.equal(matching.annotationObject, edge.annotationObject, false)
+		) {
+			matching.dateModified = context.now;
+			matching.edgeRelationship = inverseRelationship;
+			matching.inverseRelationship = edge.edgeRelationship;
+			matching.annotationObject = edge.annotationObject;
+		}
+
+		const revision = await this.getRevision(originalTarget);
+		const patches = await this.addChangeset(context, originalTarget, targetVertex, false);
+		if (patches.length > 0) {
+			targetVertex.dateModified = context.now;
+			targetVertex.revision = revision + 1;
+			await this._vertexStorage.set({
+				...targetVertex,
+				aliasIndex
+			});
+			await this.updateIncomingEdges(context, targetVertex);
+
+			await this._eventBusComponent?.publish<IAuditableItemGraphEventBusVertexUpdated>(
+				AuditableItemGraphTopics.VertexUpdated,
+				{
+					id: new Urn(AuditableItemGraphService.NAMESPACE, targetVertex.id).toString(),
+					patches
+				}
+			);
+		}
+	}
+
+	/**
+	 * Get the edges for each item in a batch create, the inverse edges between vertices in the batch
+	 * are added to the target before it is created so it records them in its first changeset.
+	 * @param items The items in the batch.
+	 * @param vertexIds The ids allocated to the items.
+	 * @param localIds The local ids in the batch mapped to the item they belong to.
+	 * @param results The results for the items, items which have failed have no edges and add no inverse edges.
+	 * @returns The edges for each item.
+	 * @internal
+	 */
+	private getBatchCreateEdges(
+		items: IAuditableItemGraphBatchCreateItem[],
+		vertexIds: string[],
+		localIds: { [localId: string]: { index: number; id: string } },
+		results: IAuditableItemGraphBatchResult[]
+	): {
+		id: string;
+		edgeRelationship: string;
+		annotationObject?: IJsonLdNodeObject;
+		bidirectional?: boolean;
+		inverseRelationship?: string;
+	}[][] {
+		const itemEdges: {
+			id: string;
+			edgeRelationship: string;
+			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
+		}[][] = items.map((item, i) => {
+			// Items which failed validation can have edges to unknown local ids, they are never created.
+			if (!Is.empty(results[i].error)) {
+				return [];
+			}
+			return (item.edges ?? []).map(edge => ({
+				id: Is.stringValue(edge.localId) ? localIds[edge.localId].id : (edge.id ?? ""),
+				edgeRelationship: edge.edgeRelationship,
+				annotationObject: edge.annotationObject,
+				bidirectional: edge.bidirectional,
+				inverseRelationship: edge.inverseRelationship
+			}));
+		});
+
+		for (let i = 0; i < items.length; i++) {
+			if (Is.empty(results[i].error)) {
+				const sourceId = new Urn(AuditableItemGraphService.NAMESPACE, vertexIds[i]).toString();
+				for (const edge of items[i].edges ?? []) {
+					const target = Is.stringValue(edge.localId) ? localIds[edge.localId] : undefined;
+					const inverseRelationship = this.getInverseRelationship(edge);
+					if (
+						Is.object(target) &&
+						Is.empty(results[target.index].error) &&
+						Is.stringValue(inverseRelationship) &&
+						!itemEdges[target.index].some(e => e.id === sourceId)
+					) {
+						itemEdges[target.index].push({
+							id: sourceId,
+							edgeRelationship: inverseRelationship,
+							annotationObject: edge.annotationObject,
+							inverseRelationship: edge.edgeRelationship
+						});
+					}
+				}
+			}
+		}
+
+		return itemEdges;
+	}
+
+	/**
+	 * Create a vertex and record its first changeset.
+	 * @param context The context for the operation.
+	 * @param id The id to give the vertex.
+	 * @param annotationObject The annotation object for the vertex as JSON-LD.
+	 * @param aliases Alternative aliases that can be used to identify the vertex.
+	 * @param resources The resources attached to the vertex.
+	 * @param edges The edges connected to the vertex, a bidirectional edge or one with an inverse relationship also maintains the matching edge on the target vertex.
+	 * @param idempotency The idempotency key, the user it belongs to and the request hash to store with the vertex.
+	 * @returns The full id of the new vertex.
+	 * @internal
+	 */
+	private async createVertex(
+		context: IAuditableItemGraphServiceContext,
+		id: string,
+		annotationObject?: IJsonLdNodeObject,
+		aliases?: {
+			id: string;
+			aliasFormat?: string;
+			annotationObject?: IJsonLdNodeObject;
+		}[],
+		resources?: {
+			id?: string;
+			resourceObject?: IJsonLdNodeObject;
+		}[],
+		edges?: {
+			id: string;
+			edgeRelationship: string;
+			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
+		}[],
+		idempotency?: {
+			key: string;
+			userIdentity: string;
+			hash: string;
+		}
+	): Promise<string> {
+		const { originalEntity, vertex } = await this.prepareVertex(
+			context,
+			id,
+			annotationObject,
+			aliases,
+			resources,
+			edges
+		);
+
+		return this.storeVertex(context, originalEntity, vertex, idempotency);
+	}
+
+	/**
+	 * Prepare a new vertex and validate it without storing anything.
+	 * @param context The context for the operation.
+	 * @param id The id to give the vertex.
+	 * @param annotationObject The annotation object for the vertex as JSON-LD.
+	 * @param aliases Alternative aliases that can be used to identify the vertex.
+	 * @param resources The resources attached to the vertex.
+	 * @param edges The edges connected to the vertex.
+	 * @returns The empty starting point of the vertex and the prepared vertex.
+	 * @internal
+	 */
+	private async prepareVertex(
+		context: IAuditableItemGraphServiceContext,
+		id: string,
+		annotationObject?: IJsonLdNodeObject,
+		aliases?: {
+			id: string;
+			aliasFormat?: string;
+			annotationObject?: IJsonLdNodeObject;
+		}[],
+		resources?: {
+			id?: string;
+			resourceObject?: IJsonLdNodeObject;
+		}[],
+		edges?: {
+			id: string;
+			edgeRelationship: string;
+			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
+		}[]
+	): Promise<{ originalEntity: AuditableItemGraphVertex; vertex: AuditableItemGraphVertex }> {
+		const vertex: AuditableItemGraphVertex = {
+			id,
+			nodeIdentity: context.nodeIdentity,
+			dateCreated: context.now,
+			dateModified: context.now
+		};
+		const originalEntity = ObjectHelper.clone(vertex);
+
+		vertex.annotationObject = annotationObject;
+
+		await this.updateAliasList(context, vertex, aliases);
+		await this.updateResourceList(context, vertex, resources);
+		await this.updateEdgeList(context, vertex, edges);
+
+		return { originalEntity, vertex };
 	}
 
 	/**
-	 * Update the aliases of a vertex model.
+	 * Store a prepared vertex and record its first changeset.
 	 * @param context The context for the operation.
-	 * @param vertex The vertex.
-	 * @param aliases The aliases to update.
+	 * @param originalEntity The empty starting point of the vertex.
+	 * @param vertex The prepared vertex.
+	 * @param idempotency The idempotency key, the user it belongs to and the request hash to store with the vertex.
+	 * @returns The full id of the new vertex.
 	 * @internal
 	 */
-	private async updateAliasList(
+	private async storeVertex(
 		context: IAuditableItemGraphServiceContext,
+		originalEntity: AuditableItemGraphVertex,
 		vertex: AuditableItemGraphVertex,
+		idempotency?: {
+			key: string;
+			userIdentity: string;
+			hash: string;
+		}
+	): Promise<string> {
+		const id = vertex.id;
+
+		delete originalEntity.aliasIndex;
+		await this.addChangeset(context, originalEntity, vertex, true);
+		vertex.revision = 1;
+		vertex.idempotencyKey = idempotency?.key;
+		vertex.idempotencyUserIdentity = idempotency?.userIdentity;
+		vertex.idempotencyHash = idempotency?.hash;
+
+		await this._vertexStorage.set({
+			...vertex,
+			aliasIndex: vertex.aliases
+				?.map(a => a.id)
+				.join("||")
+				.toLowerCase()
+		});
+		await this.updateIncomingEdges(context, vertex);
+		await this.updateAliasIndex(context, vertex);
+		await this.updateInverseEdges(context, originalEntity, vertex);
+
+		const fullId = new Urn(AuditableItemGraphService.NAMESPACE, id).toString();
+
+		await this._eventBusComponent?.publish<IAuditableItemGraphEventBusVertexCreated>(
+			AuditableItemGraphTopics.VertexCreated,
+			{ id: fullId }
+		);
+
+		return fullId;
+	}
+
+	/**
+	 * Prepare an update of a vertex and validate it without storing anything.
+	 * @param context The context for the operation.
+	 * @param id The id of the vertex to update.
+	 * @param annotationObject The annotation object for the vertex.
+	 * @param aliases Alternative aliases that can be used to identify the vertex.
+	 * @param resources The resources attached to the vertex.
+	 * @param edges The edges connected to the vertex.
+	 * @param expectedRevision The revision the vertex must be at for the update to be applied.
+	 * @returns The vertex as it is stored and the updated vertex.
+	 * @throws NotFoundError if the vertex is not found.
+	 * @throws ConflictError if the vertex is not at the expected revision.
+	 * @internal
+	 */
+	private async prepareUpdate(
+		context: IAuditableItemGraphServiceContext,
+		id: string,
+		annotationObject?: IJsonLdNodeObject,
 		aliases?: {
 			id: string;
 			aliasFormat?: string;
 			annotationObject?: IJsonLdNodeObject;
-		}[]
-	): Promise<void> {
-		const active = vertex.aliases?.filter(a => Is.empty(a.dateDeleted)) ?? [];
+		}[],
+		resources?: {
+			id?: string;
+			resourceObject?: IJsonLdNodeObject;
+		}[],
+		edges?: {
+			id: string;
+			edgeRelationship: string;
+			annotationObject?: IJsonLdNodeObject;
+			bidirectional?: boolean;
+			inverseRelationship?: string;
+		}[],
+		expectedRevision?: number
+	): Promise<{ originalEntity: AuditableItemGraphVertex; vertex: AuditableItemGraphVertex }> {
+		const vertexId = Urn.fromValidString(id).namespaceSpecific(0);
+		const vertexEntity = await this._vertexStorage.get(vertexId);
 
-		// The active aliases that are not in the update list should be marked as deleted.
-		if (Is.arrayValue(active)) {
-			for (const alias of active) {
-				if (!aliases?.find(a => a.id === alias.id)) {
-					alias.dateDeleted = context.now;
-				}
-			}
+		// A deleted vertex can no longer be changed, it is only kept for auditing.
+		if (Is.empty(vertexEntity) || Is.stringValue(vertexEntity.dateDeleted)) {
+			throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
 		}
 
-		if (Is.arrayValue(aliases)) {
-			for (const alias of aliases) {
-				await this.updateAlias(context, vertex, alias);
-			}
+		const revision = await this.getRevision(vertexEntity);
+		if (!Is.undefined(expectedRevision) && expectedRevision !== revision) {
+			throw new ConflictError(this.CLASS_NAME, "revisionMismatch", id, [
+				expectedRevision.toString(),
+				revision.toString()
+			]);
+		}
+
+		if (Is.object(annotationObject)) {
+			const validationFailures: IValidationFailure[] = [];
+			await JsonLdHelper.validate(annotationObject, validationFailures);
+			Validation.asValidationError(this.CLASS_NAME, nameof(annotationObject), validationFailures);
 		}
+
+		delete vertexEntity.aliasIndex;
+		const originalEntity = ObjectHelper.clone(vertexEntity);
+		const vertex = ObjectHelper.clone(vertexEntity);
+
+		vertex.annotationObject = annotationObject;
+
+		await this.updateAliasList(context, vertex, aliases);
+		await this.updateResourceList(context, vertex, resources);
+		await this.updateEdgeList(context, vertex, edges);
+
+		return { originalEntity, vertex };
 	}
 
 	/**
-	 * Update an alias in the vertex.
+	 * Store a prepared update of a vertex and record its changeset, nothing is stored if the update made no changes.
 	 * @param context The context for the operation.
-	 * @param vertex The vertex.
-	 * @param alias The alias.
+	 * @param originalEntity The vertex as it is stored.
+	 * @param vertex The updated vertex.
+	 * @returns The patches for the changes, empty if nothing was stored.
 	 * @internal
 	 */
-	private async updateAlias(
+	private async storeUpdate(
 		context: IAuditableItemGraphServiceContext,
-		vertex: AuditableItemGraphVertex,
-		alias: {
+		originalEntity: AuditableItemGraphVertex,
+		vertex: AuditableItemGraphVertex
+	): Promise<IPatchOperation[]> {
+		const revision = await this.getRevision(originalEntity);
+		const patches = await this.addChangeset(context, originalEntity, vertex, false);
+		if (patches.length > 0) {
+			vertex.dateModified = context.now;
+			vertex.revision = revision + 1;
+			await this._vertexStorage.set({
+				...vertex,
+				aliasIndex: vertex.aliases
+					?.map(a => a.id)
+					.join("||")
+					.toLowerCase()
+			});
+			await this.updateIncomingEdges(context, vertex);
+			await this.updateAliasIndex(context, vertex);
+		}
+		return patches;
+	}
+
+	/**
+	 * Validate that the aliases are not already used by other vertices.
+	 * @param vertexId The id of the vertex the aliases belong to.
+	 * @param aliases The aliases to validate.
+	 * @internal
+	 */
+	private async validateAliasUniqueness(
+		vertexId: string,
+		aliases?: {
 			id: string;
 			aliasFormat?: string;
-			annotationObject?: IJsonLdNodeObject;
+		}[]
+	): Promise<void> {
+		if (this._aliasUniqueness === AliasUniqueness.None || !Is.arrayValue(aliases)) {
+			return;
+		}
+
+		const validationFailures: IValidationFailure[] = [];
+
+		for (const alias of aliases) {
+			if (Is.stringValue(alias?.id)) {
+				const aliasIndexEntries = await this.getAliasIndexEntries(alias.id);
+				const conflict = aliasIndexEntries.find(
+					aliasIndexEntry =>
+						aliasIndexEntry.vertexId !== vertexId &&
+						(this._aliasUniqueness === AliasUniqueness.Global ||
+							aliasIndexEntry.aliasFormat === alias.aliasFormat)
+				);
+
+				if (!Is.empty(conflict)) {
+					validationFailures.push({
+						property: "aliases",
+						reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.aliasNotUnique`,
+						properties: {
+							id: alias.id,
+							vertexId: new Urn(AuditableItemGraphService.NAMESPACE, conflict.vertexId).toString()
+						}
+					});
+				}
+			}
 		}
+
+		Validation.asValidationError(this.CLASS_NAME, nameof(aliases), validationFailures);
+	}
+
+	/**
+	 * Update the alias index with the aliases changed in this operation.
+	 * @param context The context for the operation.
+	 * @param vertex The vertex the aliases belong to.
+	 * @internal
+	 */
+	private async updateAliasIndex(
+		context: IAuditableItemGraphServiceContext,
+		vertex: AuditableItemGraphVertex
 	): Promise<void> {
-		Guards.object(this.CLASS_NAME, nameof(alias), alias);
-		Guards.stringValue(this.CLASS_NAME, nameof(alias.id), alias.id);
+		for (const alias of vertex.aliases ?? []) {
+			const aliasIndexId = `${vertex.id}:${alias.id}`;
 
-		if (Is.object(alias.annotationObject)) {
-			const validationFailures: IValidationFailure[] = [];
-			await JsonLdHelper.validate(alias.annotationObject, validationFailures);
-			Validation.asValidationError(
-				this.CLASS_NAME,
-				nameof(alias.annotationObject),
-				validationFailures
-			);
+			if (alias.dateDeleted === context.now || vertex.dateDeleted === context.now) {
+				await this._aliasIndexStorage.remove(aliasIndexId);
+			} else if (
+				Is.empty(alias.dateDeleted) &&
+				Is.empty(vertex.dateDeleted) &&
+				(alias.dateCreated === context.now || alias.dateModified === context.now)
+			) {
+				await this._aliasIndexStorage.set({
+					id: aliasIndexId,
+					aliasId: alias.id,
+					aliasIdLowerCase: alias.id.toLowerCase(),
+					aliasFormat: alias.aliasFormat,
+					vertexId: vertex.id,
+					dateCreated: alias.dateCreated
+				});
+			}
 		}
+	}
 
-		// Try to find an existing alias with the same id.
-		const existing = vertex.aliases?.find(a => a.id === alias.id);
+	/**
+	 * Get all the alias index entries for an alias.
+	 * @param aliasId The id of the alias to get the entries for.
+	 * @param caseSensitive Whether the alias id must match case sensitively, defaults to true.
+	 * @returns The alias index entries.
+	 * @internal
+	 */
+	private async getAliasIndexEntries(
+		aliasId: string,
+		caseSensitive: boolean = true
+	): Promise<AuditableItemGraphAliasIndex[]> {
+		const aliasIndexEntries: AuditableItemGraphAliasIndex[] = [];
 
-		if (Is.empty(existing) || !Is.empty(existing?.dateDeleted)) {
-			// Did not find a matching item, or found one which is deleted.
-			vertex.aliases ??= [];
+		let aliasIndexResult;
+		do {
+			aliasIndexResult = await this._aliasIndexStorage.query(
+				{
+					property: caseSensitive ? "aliasId" : "aliasIdLowerCase",
+					value: caseSensitive ? aliasId : aliasId.toLowerCase(),
+					comparison: ComparisonOperator.Equals
+				},
+				undefined,
+				undefined,
+				aliasIndexResult?.cursor
+			);
 
-			const model: AuditableItemGraphAlias = {
-				id: alias.id,
-				aliasFormat: alias.aliasFormat,
-				dateCreated: context.now,
-				annotationObject: alias.annotationObject
-			};
+			aliasIndexEntries.push(...(aliasIndexResult.entities as AuditableItemGraphAliasIndex[]));
+		} while (Is.stringValue(aliasIndexResult.cursor));
 
-			vertex.aliases.push(model);
+		return aliasIndexEntries;
+	}
+
+	/**
+	 * Validate that the target of an edge satisfies the edge integrity mode.
+	 * @param context The context for the operation.
+	 * @param edgeId The id of the edge.
+	 * @param targetVertexId The id of the vertex the edge points at.
+	 * @param validationFailures The list of failures to add to.
+	 * @internal
+	 */
+	private async validateEdgeTarget(
+		context: IAuditableItemGraphServiceContext,
+		edgeId: string,
+		targetVertexId: string,
+		validationFailures: IValidationFailure[]
+	): Promise<void> {
+		if (
+			this._edgeIntegrity === EdgeIntegrity.None ||
+			context.pendingVertexIds?.includes(targetVertexId)
+		) {
+			return;
+		}
+
+		const targetVertex = await this._vertexStorage.get(targetVertexId);
+
+		if (Is.empty(targetVertex)) {
+			validationFailures.push({
+				property: "id",
+				reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeTargetNotFound`,
+				properties: {
+					id: edgeId
+				}
+			});
 		} else if (
-			existing.aliasFormat !== alias.aliasFormat ||
-			!ObjectHelper.equal(existing.annotationObject, alias.annotationObject, false)
+			this._edgeIntegrity === EdgeIntegrity.Active &&
+			Is.stringValue(targetVertex.dateDeleted)
 		) {
-			// Existing alias found, update the annotationObject.
-			existing.dateModified = context.now;
-			existing.aliasFormat = alias.aliasFormat;
-			existing.annotationObject = alias.annotationObject;
+			validationFailures.push({
+				property: "id",
+				reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeTargetDeleted`,
+				properties: {
+					id: edgeId
+				}
+			});
 		}
 	}
 
 	/**
-	 * Update the resources of a vertex.
+	 * Validate that an edge satisfies the constraints of its relationship in the vocabulary.
 	 * @param context The context for the operation.
-	 * @param vertex The vertex.
-	 * @param resources The resources to update.
+	 * @param vertex The vertex the edge belongs to.
+	 * @param edgeId The id of the edge.
+	 * @param edgeRelationship The relationship of the edge.
+	 * @param targetVertexId The id of the vertex the edge points at.
+	 * @param validationFailures The list of failures to add to.
 	 * @internal
 	 */
-	private async updateResourceList(
+	private async validateEdgeRelationship(
 		context: IAuditableItemGraphServiceContext,
 		vertex: AuditableItemGraphVertex,
-		resources?: {
-			id?: string;
-			resourceObject?: IJsonLdNodeObject;
-		}[]
+		edgeId: string,
+		edgeRelationship: string,
+		targetVertexId: string,
+		validationFailures: IValidationFailure[]
 	): Promise<void> {
-		if (Is.arrayValue(resources)) {
-			for (let i = 0; i < resources.length; i++) {
-				const id = this.getResourceId(resources[i]);
-				if (Is.empty(id)) {
-					throw new GeneralError(this.CLASS_NAME, "resourceIdMissing", { index: i });
+		const relationship =
+			EdgeRelationshipFactory.getIfExists<IAuditableItemGraphEdgeRelationship>(edgeRelationship);
+
+		if (Is.empty(relationship)) {
+			if (this._registeredEdgeRelationshipsOnly) {
+				validationFailures.push({
+					property: "edgeRelationship",
+					reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeRelationshipNotRegistered`,
+					properties: {
+						edgeRelationship
+					}
+				});
+			}
+			return;
+		}
+
+		if (
+			Is.arrayValue(relationship.sourceTypes) &&
+			!this.hasAnnotationType(vertex.annotationObject, relationship.sourceTypes)
+		) {
+			validationFailures.push({
+				property: "edgeRelationship",
+				reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeRelationshipSourceType`,
+				properties: {
+					edgeRelationship,
+					types: relationship.sourceTypes.join(", ")
 				}
+			});
+		}
+
+		// The types of vertices created in the same batch are not known yet, so they are not checked.
+		if (
+			Is.arrayValue(relationship.targetTypes) &&
+			!context.pendingVertexIds?.includes(targetVertexId)
+		) {
+			const targetVertex = await this._vertexStorage.get(targetVertexId);
+			if (
+				!Is.empty(targetVertex) &&
+				!this.hasAnnotationType(targetVertex.annotationObject, relationship.targetTypes)
+			) {
+				validationFailures.push({
+					property: "edgeRelationship",
+					reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeRelationshipTargetType`,
+					properties: {
+						edgeRelationship,
+						types: relationship.targetTypes.join(", ")
+					}
+				});
 			}
 		}
 
-		const active = vertex.resources?.filter(r => Is.empty(r.dateDeleted)) ?? [];
+		const cardinality = relationship.cardinality ?? EdgeCardinality.ManyToMany;
 
-		// The active resources that are not in the update list should be marked as deleted.
-		if (Is.arrayValue(active)) {
-			for (const resource of active) {
-				if (!resources?.find(a => this.getResourceId(a) === this.getResourceId(resource))) {
-					resource.dateDeleted = context.now;
+		// A to-one relationship can only have one active edge from the source vertex.
+		if (
+			(cardinality === EdgeCardinality.OneToOne || cardinality === EdgeCardinality.ManyToOne) &&
+			vertex.edges?.some(
+				e => Is.empty(e.dateDeleted) && e.id !== edgeId && e.edgeRelationship === edgeRelationship
+			)
+		) {
+			validationFailures.push({
+				property: "edgeRelationship",
+				reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeRelationshipCardinality`,
+				properties: {
+					edgeRelationship,
+					cardinality
 				}
-			}
+			});
 		}
 
-		if (Is.arrayValue(resources)) {
-			for (const resource of resources) {
-				await this.updateResource(context, vertex, resource);
+		// A one-to relationship can only have one active edge to the target vertex.
+		if (cardinality === EdgeCardinality.OneToOne || cardinality === EdgeCardinality.OneToMany) {
+			const incomingResult = await this._incomingEdgeStorage.query({
+				conditions: [
+					{
+						property: "vertexId",
+						comparison: ComparisonOperator.Equals,
+						value: targetVertexId
+					},
+					{
+						property: "edgeRelationship",
+						comparison: ComparisonOperator.Equals,
+						value: edgeRelationship
+					},
+					{
+						property: "sourceVertexId",
+						comparison: ComparisonOperator.NotEquals,
+						value: vertex.id
+					},
+					{
+						property: "dateDeleted",
+						comparison: ComparisonOperator.Equals,
+						value: undefined
+					}
+				],
+				logicalOperator: LogicalOperator.And
+			});
+
+			if (incomingResult.entities.length > 0) {
+				validationFailures.push({
+					property: "edgeRelationship",
+					reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeRelationshipCardinality`,
+					properties: {
+						edgeRelationship,
+						cardinality
+					}
+				});
 			}
 		}
+
+		if (relationship.acyclic ?? false) {
+			await this.validateAcyclic(context, vertex, relationship, targetVertexId, validationFailures);
+		}
 	}
 
 	/**
-	 * Add a resource to the vertex.
+	 * Validate that an edge does not close a cycle of edges with the same relationship.
 	 * @param context The context for the operation.
-	 * @param vertex The vertex.
-	 * @param resource The resource.
+	 * @param vertex The vertex the edge belongs to.
+	 * @param relationship The relationship of the edge.
+	 * @param targetVertexId The id of the vertex the edge points at.
+	 * @param validationFailures The list of failures to add to.
 	 * @internal
 	 */
-	private async updateResource(
+	private async validateAcyclic(
 		context: IAuditableItemGraphServiceContext,
 		vertex: AuditableItemGraphVertex,
-		resource: {
-			id?: string;
-			resourceObject?: IJsonLdNodeObject;
-		}
+		relationship: IAuditableItemGraphEdgeRelationship,
+		targetVertexId: string,
+		validationFailures: IValidationFailure[]
 	): Promise<void> {
-		Guards.object(this.CLASS_NAME, nameof(resource), resource);
+		// Walk the edges from the target, if they lead back to the vertex the new edge closes a cycle,
+		// each reached vertex remembers the vertex it was reached from so the path can be reported.
+		const reachedFrom = new Map<string, string>();
+		const visited = new Set<string>([targetVertexId]);
+		const queue: string[] = [targetVertexId];
 
-		if (Is.object(resource.resourceObject)) {
-			const validationFailures: IValidationFailure[] = [];
-			await JsonLdHelper.validate(resource, validationFailures);
-			Validation.asValidationError(
-				this.CLASS_NAME,
-				nameof(resource.resourceObject),
-				validationFailures
-			);
+		while (
+			queue.length > 0 &&
+			!reachedFrom.has(vertex.id) &&
+			visited.size < AuditableItemGraphService._MAX_ACYCLIC_VERTICES
+		) {
+			const currentVertexId = queue.shift() ?? "";
+			const neighbourIds = await this.getAcyclicNeighbours(context, currentVertexId, relationship);
+			if (neighbourIds.includes(vertex.id)) {
+				reachedFrom.set(vertex.id, currentVertexId);
+			} else {
+				for (const neighbourId of neighbourIds.filter(id => !visited.has(id))) {
+					visited.add(neighbourId);
+					reachedFrom.set(neighbourId, currentVertexId);
+					queue.push(neighbourId);
+				}
+			}
 		}
 
-		// Try to find an existing resource with the same id.
-		const existing = vertex.resources?.find(
-			r => this.getResourceId(r) === this.getResourceId(resource)
-		);
-
-		if (Is.empty(existing) || !Is.empty(existing?.dateDeleted)) {
-			// Did not find a matching item, or found one which is deleted.
-			vertex.resources ??= [];
-
-			const model: AuditableItemGraphResource = {
-				id: resource.id,
-				dateCreated: context.now,
-				resourceObject: resource.resourceObject
-			};
+		if (reachedFrom.has(vertex.id)) {
+			const path: string[] = [vertex.id];
+			let currentVertexId = reachedFrom.get(vertex.id);
+			while (Is.stringValue(currentVertexId)) {
+				path.unshift(currentVertexId);
+				currentVertexId = reachedFrom.get(currentVertexId);
+			}
+			path.unshift(vertex.id);
 
-			vertex.resources.push(model);
-		} else if (!ObjectHelper.equal(existing.resourceObject, resource.resourceObject, false)) {
-			// Existing resource found, update the resourceObject.
-			existing.dateModified = context.now;
-			existing.resourceObject = resource.resourceObject;
+			validationFailures.push({
+				property: "edgeRelationship",
+				reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeRelationshipCycle`,
+				properties: {
+					edgeRelationship: relationship.term,
+					path: path.map(id => `${AuditableItemGraphService.NAMESPACE}:${id}`).join(" -> ")
+				}
+			});
+		} else if (queue.length > 0) {
+			// The walk was stopped before it finished, so the edge can not be shown to be acyclic.
+			validationFailures.push({
+				property: "edgeRelationship",
+				reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeRelationshipCycleLimit`,
+				properties: {
+					edgeRelationship: relationship.term,
+					limit: AuditableItemGraphService._MAX_ACYCLIC_VERTICES
+				}
+			});
 		}
 	}
 
 	/**
-	 * Update the edges of a vertex.
+	 * Get the vertices a vertex leads to for a relationship when checking for a cycle, this follows
+	 * the outgoing edges with the relationship and the incoming edges with its inverse. The edges of
+	 * vertices created in the same batch are used as they have not been stored yet.
 	 * @param context The context for the operation.
-	 * @param vertex The vertex.
-	 * @param edges The edges to update.
+	 * @param vertexId The id of the vertex to get the neighbours for.
+	 * @param relationship The relationship to follow.
+	 * @returns The ids of the neighbouring vertices.
 	 * @internal
 	 */
-	private async updateEdgeList(
+	private async getAcyclicNeighbours(
 		context: IAuditableItemGraphServiceContext,
-		vertex: AuditableItemGraphVertex,
-		edges?: {
-			id: string;
-			edgeRelationship: string;
-			annotationObject?: IJsonLdNodeObject;
-		}[]
-	): Promise<void> {
-		const active = vertex.edges?.filter(e => Is.empty(e.dateDeleted)) ?? [];
+		vertexId: string,
+		relationship: IAuditableItemGraphEdgeRelationship
+	): Promise<string[]> {
+		const edgeRelationships = Is.stringValue(relationship.inverse)
+			? [relationship.term, relationship.inverse]
+			: [relationship.term];
+		const neighbourIds: string[] = [];
+		const pendingVertexEdges = context.pendingVertexEdges ?? {};
 
-		// The active edges that are not in the update list should be marked as deleted.
-		if (Is.arrayValue(active)) {
-			for (const edge of active) {
-				if (!edges?.find(a => a.id === edge.id)) {
-					edge.dateDeleted = context.now;
+		const pendingEdges = pendingVertexEdges[vertexId];
+		if (Is.array(pendingEdges)) {
+			for (const edge of pendingEdges) {
+				if (edge.edgeRelationship === relationship.term) {
+					neighbourIds.push(this.getVertexIdFromEdgeId(edge.id));
+				}
+			}
+		} else {
+			const currentVertex = await this._vertexStorage.get(vertexId);
+			if (Is.object(currentVertex) && Is.empty(currentVertex.dateDeleted)) {
+				const neighbours = await this.getNeighbours(
+					currentVertex,
+					EdgeDirection.Both,
+					edgeRelationships
+				);
+				for (const neighbour of neighbours) {
+					const isOutgoing = neighbour.sourceVertexId === vertexId;
+					if (
+						(isOutgoing && neighbour.edgeRelationship === relationship.term) ||
+						(!isOutgoing && neighbour.edgeRelationship === relationship.inverse)
+					) {
+						neighbourIds.push(neighbour.vertexId);
+					}
 				}
 			}
 		}
 
-		if (Is.arrayValue(edges)) {
-			for (const edge of edges) {
-				await this.updateEdge(context, vertex, edge);
+		if (Is.stringValue(relationship.inverse)) {
+			for (const [pendingVertexId, edges] of Object.entries(pendingVertexEdges)) {
+				if (
+					edges.some(
+						edge =>
+							edge.edgeRelationship === relationship.inverse &&
+							this.getVertexIdFromEdgeId(edge.id) === vertexId
+					)
+				) {
+					neighbourIds.push(pendingVertexId);
+				}
 			}
 		}
+
+		return neighbourIds;
 	}
 
 	/**
-	 * Add an edge to the vertex.
-	 * @param context The context for the operation.
-	 * @param vertex The vertex.
-	 * @param edge The edge.
+	 * Does the annotation object have one of the types.
+	 * @param annotationObject The annotation object to check.
+	 * @param types The types to look for.
+	 * @returns True if the annotation object has one of the types.
 	 * @internal
 	 */
-	private async updateEdge(
-		context: IAuditableItemGraphServiceContext,
-		vertex: AuditableItemGraphVertex,
-		edge: {
-			id: string;
-			edgeRelationship: string;
-			annotationObject?: IJsonLdNodeObject;
-		}
+	private hasAnnotationType(
+		annotationObject: IJsonLdNodeObject | undefined,
+		types: string[]
+	): boolean {
+		const annotationType = annotationObject?.type ?? annotationObject?.["@type"];
+		const annotationTypes = Is.array<unknown>(annotationType) ? annotationType : [annotationType];
+		return annotationTypes.some(t => Is.stringValue(t) && types.includes(t));
+	}
+
+	/**
+	 * Validate an item in a batch create before any of the vertices are created.
+	 * @param items The items in the batch.
+	 * @param index The index of the item to validate.
+	 * @param localIds The local ids in the batch mapped to the item they belong to.
+	 * @internal
+	 */
+	private async validateBatchCreateItem(
+		items: IAuditableItemGraphBatchCreateItem[],
+		index: number,
+		localIds: { [localId: string]: { index: number; id: string } }
 	): Promise<void> {
-		Guards.object(this.CLASS_NAME, nameof(edge), edge);
-		Guards.stringValue(this.CLASS_NAME, nameof(edge.id), edge.id);
-		Guards.stringValue(this.CLASS_NAME, nameof(edge.edgeRelationship), edge.edgeRelationship);
+		const item = items[index];
+		Guards.object<IAuditableItemGraphBatchCreateItem>(this.CLASS_NAME, nameof(item), item);
 
 		const validationFailures: IValidationFailure[] = [];
-		if (edge.id === vertex.id) {
+		if (Is.stringValue(item.localId) && localIds[item.localId].index !== index) {
 			validationFailures.push({
-				property: "id",
-				reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeIdSameAsVertexId`,
+				property: "localId",
+				reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.batchLocalIdDuplicate`,
 				properties: {
-					id: edge.id
+					localId: item.localId
 				}
 			});
 		}
-		if (Is.object(edge.annotationObject)) {
-			await JsonLdHelper.validate(edge.annotationObject, validationFailures);
+		if (Is.object(item.annotationObject)) {
+			await JsonLdHelper.validate(item.annotationObject, validationFailures);
 		}
-		Validation.asValidationError(
-			this.CLASS_NAME,
-			nameof(edge.annotationObject),
-			validationFailures
-		);
+		for (const edge of item.edges ?? []) {
+			if (Is.stringValue(edge?.localId)) {
+				const target = localIds[edge.localId];
+				if (Is.empty(target)) {
+					validationFailures.push({
+						property: "edges",
+						reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.batchLocalIdNotFound`,
+						properties: {
+							localId: edge.localId
+						}
+					});
+				} else {
+					// The target can only have one edge back, so its own edge must match the inverse.
+					const inverseRelationship = this.getInverseRelationship(edge);
+					const targetEdge = items[target.index]?.edges?.find(
+						e => Is.stringValue(item.localId) && e?.localId === item.localId
+					);
+					if (
+						Is.stringValue(inverseRelationship) &&
+						Is.object(targetEdge) &&
+						targetEdge.edgeRelationship !== inverseRelationship
+					) {
+						validationFailures.push({
+							property: "inverseRelationship",
+							reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.edgeInverseConflict`,
+							properties: {
+								id: target.id,
+								edgeRelationship: targetEdge.edgeRelationship,
+								inverseRelationship
+							}
+						});
+					}
+				}
+			} else if (!Is.stringValue(edge?.id)) {
+				validationFailures.push({
+					property: "edges",
+					reason: `validation.${StringHelper.camelCase(this.CLASS_NAME)}.batchEdgeIdMissing`
+				});
+			}
+		}
+		Validation.asValidationError(this.CLASS_NAME, nameof(item), validationFailures);
+	}
 
-		// Try to find an existing edge with the same id.
-		const existing = vertex.edges?.find(r => r.id === edge.id);
+	/**
+	 * Calculate the hash for a create request so a repeated request can be recognised.
+	 * @param userIdentity The identity making the request.
+	 * @param request The content of the request.
+	 * @returns The hash of the request.
+	 * @internal
+	 */
+	private calculateIdempotencyHash(userIdentity: string, request: unknown): string {
+		return Converter.bytesToBase64(
+			Sha256.sum256(Converter.utf8ToBytes(JsonHelper.canonicalize({ userIdentity, request })))
+		);
+	}
 
-		if (Is.empty(existing) || !Is.empty(existing?.dateDeleted)) {
-			// Did not find a matching item, or found one which is deleted.
-			vertex.edges ??= [];
+	/**
+	 * Add a changeset to the vertex and generate the associated verifications.
+	 * @param context The context for the operation.
+	 * @param original The original vertex.
+	 * @param updated The updated vertex, which is given the link to the new changeset.
+	 * @param isNew Whether this is a new item.
+	 * @returns True if there were changes.
+	 * @internal
+	 */
+	private async addChangeset(
+		context: IAuditableItemGraphServiceContext,
+		original: AuditableItemGraphVertex,
+		updated: AuditableItemGraphVertex,
+		isNew: boolean
+	): Promise<IPatchOperation[]> {
+		// The link to the last changeset is only used to chain the changesets, it is not part of the vertex state.
+		const patches = JsonHelper.diff(
+			ObjectHelper.omit(original, ["lastChangesetId", "lastChangesetHash"]),
+			ObjectHelper.omit(updated, ["lastChangesetId", "lastChangesetHash"])
+		);
 
-			const model: AuditableItemGraphEdge = {
-				id: edge.id,
+		// If there is a diff set or this is the first time the item is created.
+		if (patches.length > 0 || isNew) {
+			const changesetEntity: AuditableItemGraphChangeset = {
+				id: Converter.bytesToHex(RandomHelper.generate(32), false),
+				vertexId: updated.id,
 				dateCreated: context.now,
-				annotationObject: edge.annotationObject,
-				edgeRelationship: edge.edgeRelationship
+				userIdentity: context.userIdentity,
+				patches,
+				proofId: ""
 			};
 
-			vertex.edges.push(model);
-		} else if (
-			existing.edgeRelationship !== edge.edgeRelationship ||
-			!ObjectHelper.equal(existing.annotationObject, edge.annotationObject, false)
-		) {
-			// Existing resource found, update the annotationObject.
-			existing.dateModified = context.now;
-			existing.edgeRelationship = edge.edgeRelationship;
-			existing.annotationObject = edge.annotationObject;
+			// Each changeset commits to the one before it, so removing or reordering them can be detected.
+			if (Is.stringValue(original.lastChangesetId)) {
+				changesetEntity.previousChangesetId = original.lastChangesetId;
+				changesetEntity.previousChangesetHash = original.lastChangesetHash;
+			}
+
+			const reducedChangesetJsonLd = this.changesetEntityToProofJsonLd(changesetEntity);
+
+			// Create the proof for the changeset object
+			changesetEntity.proofId = await this._immutableProofComponent.create(
+				reducedChangesetJsonLd as unknown as IJsonLdNodeObject,
+				context.userIdentity,
+				context.nodeIdentity
+			);
+
+			// Link the immutable storage id to the changeset
+			await this._changesetStorage.set(changesetEntity);
+
+			// The vertex keeps the link for the next changeset, so the history doesn't need to be loaded.
+			updated.lastChangesetId = changesetEntity.id;
+			updated.lastChangesetHash = this.calculateChangesetHash(changesetEntity);
+
+			return patches;
+		}
+
+		return [];
+	}
+
+	/**
+	 * Calculate the hash of the proof object for a changeset, which the next changeset commits to.
+	 * @param changesetEntity The changeset to calculate the hash for.
+	 * @returns The hash of the changeset.
+	 * @internal
+	 */
+	private calculateChangesetHash(changesetEntity: AuditableItemGraphChangeset): string {
+		return Converter.bytesToBase64(
+			Sha256.sum256(
+				Converter.utf8ToBytes(
+					JsonHelper.canonicalize(this.changesetEntityToProofJsonLd(changesetEntity))
+				)
+			)
+		);
+	}
+
+	/**
+	 * Get all the changesets for a vertex in the order they were created.
+	 * @param vertexId The id of the vertex to get the changesets for.
+	 * @returns The changesets.
+	 * @internal
+	 */
+	private async getChangesetEntities(vertexId: string): Promise<AuditableItemGraphChangeset[]> {
+		const changesetEntities: AuditableItemGraphChangeset[] = [];
+
+		let changesetsResult;
+		do {
+			changesetsResult = await this._changesetStorage.query(
+				{
+					property: "vertexId",
+					value: vertexId,
+					comparison: ComparisonOperator.Equals
+				},
+				[
+					{
+						property: "dateCreated",
+						sortDirection: SortDirection.Ascending
+					}
+				],
+				undefined,
+				changesetsResult?.cursor
+			);
+
+			changesetEntities.push(...(changesetsResult.entities as AuditableItemGraphChangeset[]));
+		} while (Is.stringValue(changesetsResult.cursor));
+
+		return changesetEntities;
+	}
+
+	/**
+	 * Get the revision of a vertex, which is the number of changesets it has.
+	 * @param vertexEntity The vertex.
+	 * @returns The revision of the vertex.
+	 * @internal
+	 */
+	private async getRevision(vertexEntity: AuditableItemGraphVertex): Promise<number> {
+		if (Is.integer(vertexEntity.revision)) {
+			return vertexEntity.revision;
+		}
+
+		// Vertices stored before revisions were introduced are at the revision their changesets count to,
+		// which is only calculated until the next change stores it.
+		const changesetEntities = await this.getChangesetEntities(vertexEntity.id);
+		return changesetEntities.length;
+	}
+
+	/**
+	 * Get the changesets which had been applied to a vertex at a point in its history.
+	 * @param id The id of the vertex.
+	 * @param changesetEntities The changesets for the vertex in the order they were created.
+	 * @param asOf The date time or changeset id to get the changesets up to.
+	 * @returns The changesets up to and including the point in history.
+	 * @throws NotFoundError if the vertex did not exist at the date time or the changeset is not found.
+	 * @internal
+	 */
+	private changesetsAsOf(
+		id: string,
+		changesetEntities: AuditableItemGraphChangeset[],
+		asOf: string
+	): AuditableItemGraphChangeset[] {
+		if (Is.dateTimeString(asOf)) {
+			const asOfTime = new Date(asOf).getTime();
+			const applied = changesetEntities.filter(c => new Date(c.dateCreated).getTime() <= asOfTime);
+
+			if (applied.length === 0) {
+				throw new NotFoundError(this.CLASS_NAME, "vertexNotFound", id);
+			}
+
+			return applied;
+		}
+
+		const changesetIndex = changesetEntities.findIndex(c => c.id === asOf);
+		if (changesetIndex === -1) {
+			throw new NotFoundError(this.CLASS_NAME, "changesetNotFound", asOf);
+		}
+
+		return changesetEntities.slice(0, changesetIndex + 1);
+	}
+
+	/**
+	 * Reconstruct a vertex by replaying the patches from its changesets.
+	 * @param vertexEntity The current vertex.
+	 * @param changesetEntities The changesets to replay in the order they were created.
+	 * @returns The vertex as it was after the last changeset was applied.
+	 * @internal
+	 */
+	private replayChangesets(
+		vertexEntity: AuditableItemGraphVertex,
+		changesetEntities: AuditableItemGraphChangeset[]
+	): AuditableItemGraphVertex {
+		let replayed = this.replayStartingPoint(vertexEntity);
+
+		for (const changesetEntity of changesetEntities) {
+			replayed = JsonHelper.patch(replayed, changesetEntity.patches);
 		}
+
+		// The modified date and revision are not part of the patches, but are derived from the changesets.
+		replayed.dateModified = changesetEntities[changesetEntities.length - 1].dateCreated;
+		replayed.revision = changesetEntities.length;
+
+		return replayed;
 	}
 
 	/**
-	 * Add a changeset to the vertex and generate the associated verifications.
-	 * @param context The context for the operation.
-	 * @param original The original vertex.
-	 * @param updated The updated vertex.
-	 * @param isNew Whether this is a new item.
-	 * @returns True if there were changes.
+	 * Get the state of a vertex before any of its changesets were applied.
+	 * @param vertexEntity The current vertex.
+	 * @returns The vertex with only the properties which are never patched.
 	 * @internal
 	 */
-	private async addChangeset(
-		context: IAuditableItemGraphServiceContext,
-		original: AuditableItemGraphVertex,
-		updated: AuditableItemGraphVertex,
-		isNew: boolean
-	): Promise<IPatchOperation[]> {
-		const patches = JsonHelper.diff(original, updated);
+	private replayStartingPoint(vertexEntity: AuditableItemGraphVertex): AuditableItemGraphVertex {
+		// This is the same starting point that create uses to generate the first changeset.
+		return {
+			id: vertexEntity.id,
+			nodeIdentity: vertexEntity.nodeIdentity,
+			dateCreated: vertexEntity.dateCreated,
+			dateModified: vertexEntity.dateCreated
+		};
+	}
 
-		// If there is a diff set or this is the first time the item is created.
-		if (patches.length > 0 || isNew) {
-			const changesetEntity: AuditableItemGraphChangeset = {
-				id: Converter.bytesToHex(RandomHelper.generate(32), false),
-				vertexId: updated.id,
-				dateCreated: context.now,
-				userIdentity: context.userIdentity,
-				patches,
-				proofId: ""
-			};
+	/**
+	 * Flatten a value in to the JSON pointers of its leaf values.
+	 * @param value The value to flatten.
+	 * @param pointer The JSON pointer of the value.
+	 * @param leaves The leaf values indexed by their JSON pointer.
+	 * @internal
+	 */
+	private flattenPointers(value: unknown, pointer: string, leaves: Map<string, unknown>): void {
+		if (Is.array(value) && value.length > 0) {
+			for (let i = 0; i < value.length; i++) {
+				this.flattenPointers(value[i], `${pointer}/${i}`, leaves);
+			}
+		} else if (Is.object<{ [key: string]: unknown }>(value) && Object.keys(value).length > 0) {
+			for (const key of Object.keys(value)) {
+				if (!Is.undefined(value[key])) {
+					const escapedKey = key.replace(/~/g, "~0").replace(/\//g, "~1");
+					this.flattenPointers(value[key], `${pointer}/${escapedKey}`, leaves);
+				}
+			}
+		} else {
+			leaves.set(pointer, value);
+		}
+	}
 
-			// Create the JSON-LD object we want to use for the proof
-			// this is a subset of fixed properties from the changeset object.
-			const reducedChangesetJsonLd = await this.changesetEntityToJsonLd({
-				...(ObjectHelper.pick(
-					changesetEntity,
-					AuditableItemGraphService._PROOF_KEYS_CHANGESET
-				) as AuditableItemGraphChangeset),
-				id: `${AuditableItemGraphService.NAMESPACE}:${updated.id}:${AuditableItemGraphService.NAMESPACE_CHANGESET}:${changesetEntity.id}`
-			});
+	/**
+	 * Map a JSON pointer into the vertex to the same location once the deleted elements are removed.
+	 * @param vertexEntity The vertex the pointer refers to.
+	 * @param pointer The JSON pointer.
+	 * @returns The pointer with the active element index, or undefined if it points into a deleted element.
+	 * @internal
+	 */
+	private activeElementPointer(
+		vertexEntity: AuditableItemGraphVertex,
+		pointer: string
+	): string | undefined {
+		const parts = pointer.split("/");
+		const listName = parts[1];
 
-			// Create the proof for the changeset object
-			changesetEntity.proofId = await this._immutableProofComponent.create(
-				reducedChangesetJsonLd as unknown as IJsonLdNodeObject,
-				context.userIdentity,
-				context.nodeIdentity
-			);
+		if (
+			(listName !== "aliases" && listName !== "resources" && listName !== "edges") ||
+			parts.length < 3
+		) {
+			return pointer;
+		}
 
-			// Link the immutable storage id to the changeset
-			await this._changesetStorage.set(changesetEntity);
+		const elements: { dateDeleted?: string }[] = vertexEntity[listName] ?? [];
+		const index = Number.parseInt(parts[2], 10);
 
-			return patches;
+		if (!Is.empty(elements[index]?.dateDeleted)) {
+			return undefined;
 		}
 
-		return [];
+		parts[2] = elements
+			.slice(0, index)
+			.filter(e => Is.empty(e.dateDeleted))
+			.length.toString();
+
+		return parts.join("/");
 	}
 
 	/**
 	 * Verify the changesets of a vertex.
-	 * @param nodeIdentity The node identity to verify the changesets with.
-	 * @param vertex The vertex to verify.
+	 * @param changesetEntities The changesets to verify in the order they were created.
 	 * @param verifySignatureDepth How many signatures to verify.
+	 * @param vertexEntity The vertex if the changesets are its full history, so a removed last changeset is detected.
+	 * @returns The verification result and the changesets.
 	 * @internal
 	 */
 	private async verifyChangesets(
-		vertex: IAuditableItemGraphVertex,
-		verifySignatureDepth: VerifyDepth
+		changesetEntities: AuditableItemGraphChangeset[],
+		verifySignatureDepth: VerifyDepth,
+		vertexEntity?: AuditableItemGraphVertex
 	): Promise<{
 		verified: boolean;
 		changesets: IAuditableItemGraphChangeset[];
 	}> {
 		const changesets: IAuditableItemGraphChangeset[] = [];
 
-		let changesetsResult;
 		let verified = true;
 
-		do {
-			changesetsResult = await this._changesetStorage.query(
-				{
-					property: "vertexId",
-					value: vertex.id,
-					comparison: ComparisonOperator.Equals
-				},
-				[
-					{
-						property: "dateCreated",
-						sortDirection: SortDirection.Ascending
-					}
-				],
-				undefined,
-				changesetsResult?.cursor
-			);
-
-			const storedChangesets = changesetsResult.entities as AuditableItemGraphChangeset[];
-			if (Is.arrayValue(storedChangesets)) {
-				for (let i = 0; i < storedChangesets.length; i++) {
-					const storedChangeset = storedChangesets[i];
+		for (let i = 0; i < changesetEntities.length; i++) {
+			const storedChangeset = changesetEntities[i];
 
-					const storedChangesetJsonLd = this.changesetEntityToJsonLd(storedChangeset);
-					changesets.push(storedChangesetJsonLd);
+			const storedChangesetJsonLd = this.changesetEntityToJsonLd(storedChangeset);
+			changesets.push(storedChangesetJsonLd);
 
-					// If we are verifying all signatures
-					// or this is the last changeset (cursor is empty)
-					// and the changeset has a proofId, then verify the proof.
-					if (
-						verifySignatureDepth === VerifyDepth.All ||
-						(verifySignatureDepth === VerifyDepth.Current &&
-							!Is.stringValue(changesetsResult.cursor) &&
-							i === storedChangesets.length - 1)
-					) {
-						if (!Is.stringValue(storedChangeset.proofId)) {
-							verified = false;
-							storedChangesetJsonLd.verification = {
-								"@context": ImmutableProofTypes.ContextRoot,
-								type: ImmutableProofTypes.ImmutableProofVerification,
-								verified: false,
-								failure: ImmutableProofFailure.ProofMissing
-							};
-						} else {
-							// Verify the proof for the changeset object
-							storedChangesetJsonLd.verification = await this._immutableProofComponent.verify(
-								storedChangeset.proofId
-							);
+			// If we are verifying all signatures
+			// or this is the last changeset
+			// and the changeset has a proofId, then verify the proof.
+			if (
+				verifySignatureDepth === VerifyDepth.All ||
+				(verifySignatureDepth === VerifyDepth.Current && i === changesetEntities.length - 1)
+			) {
+				if (!(await this.verifyChangeset(storedChangeset, storedChangesetJsonLd))) {
+					verified = false;
+				}
 
-							if (!storedChangesetJsonLd.verification.verified) {
-								verified = false;
-							}
-						}
-					}
+				storedChangesetJsonLd.chainFailure = this.verifyChangesetChain(
+					changesetEntities,
+					i,
+					vertexEntity
+				);
+				if (!Is.undefined(storedChangesetJsonLd.chainFailure)) {
+					verified = false;
 				}
 			}
-		} while (Is.stringValue(changesetsResult.cursor));
+		}
 
 		return {
 			verified,
@@ -1081,6 +4347,217 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 		};
 	}
 
+	/**
+	 * Verify that a changeset follows on from the changeset before it.
+	 * @param changesetEntities The changesets of the vertex in the order they were created.
+	 * @param index The index of the changeset to verify.
+	 * @param vertexEntity The vertex if the changesets are its full history, so a removed last changeset is detected.
+	 * @returns The reason the link to the previous changeset failed, or undefined if it is valid.
+	 * @internal
+	 */
+	private verifyChangesetChain(
+		changesetEntities: AuditableItemGraphChangeset[],
+		index: number,
+		vertexEntity?: AuditableItemGraphVertex
+	): ChangesetChainFailure | undefined {
+		const linkFailure = this.verifyChangesetLink(changesetEntities, index);
+		if (!Is.undefined(linkFailure)) {
+			return linkFailure;
+		}
+
+		// The vertex links to its last changeset and counts them, so the last can not be removed unnoticed,
+		// a vertex without a revision is at the revision its changesets count to.
+		if (Is.object(vertexEntity) && index === changesetEntities.length - 1) {
+			const isLastLinked =
+				!Is.stringValue(vertexEntity.lastChangesetId) ||
+				vertexEntity.lastChangesetId === changesetEntities[index].id;
+			const isCountMatched =
+				!Is.integer(vertexEntity.revision) || vertexEntity.revision === changesetEntities.length;
+			if (!isLastLinked || !isCountMatched) {
+				return ChangesetChainFailure.Gap;
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Verify the link from a changeset to the changeset before it.
+	 * @param changesetEntities The changesets of the vertex in the order they were created.
+	 * @param index The index of the changeset to verify.
+	 * @returns The reason the link to the previous changeset failed, or undefined if it is valid.
+	 * @internal
+	 */
+	private verifyChangesetLink(
+		changesetEntities: AuditableItemGraphChangeset[],
+		index: number
+	): ChangesetChainFailure | undefined {
+		const changesetEntity = changesetEntities[index];
+
+		if (!Is.stringValue(changesetEntity.previousChangesetId)) {
+			// Only the first changeset has no previous changeset, unless the changesets
+			// before it were created without links, in which case there is nothing to verify.
+			if (changesetEntities.slice(0, index).some(c => Is.stringValue(c.previousChangesetId))) {
+				return ChangesetChainFailure.LinkMissing;
+			}
+			return undefined;
+		}
+
+		const previousIndex = changesetEntities.findIndex(
+			c => c.id === changesetEntity.previousChangesetId
+		);
+		if (previousIndex === -1) {
+			return ChangesetChainFailure.Gap;
+		}
+
+		if (
+			changesetEntities.some(
+				(c, i) => i !== index && c.previousChangesetId === changesetEntity.previousChangesetId
+			)
+		) {
+			return ChangesetChainFailure.Fork;
+		}
+
+		if (previousIndex !== index - 1) {
+			return ChangesetChainFailure.Reordered;
+		}
+
+		if (
+			this.calculateChangesetHash(changesetEntities[previousIndex]) !==
+			changesetEntity.previousChangesetHash
+		) {
+			return ChangesetChainFailure.HashMismatch;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Verify that a changeset follows on from the changeset before it by looking up the changesets
+	 * it is linked with in storage, so a page of changesets is verified without loading the full history.
+	 * @param changesetEntity The changeset to verify.
+	 * @param vertexEntity The vertex if the changeset is the last in the history, so a removed last changeset is detected.
+	 * @returns The reason the link to the previous changeset failed, or undefined if it is valid.
+	 * @internal
+	 */
+	private async verifyStoredChangesetChain(
+		changesetEntity: AuditableItemGraphChangeset,
+		vertexEntity?: AuditableItemGraphVertex
+	): Promise<ChangesetChainFailure | undefined> {
+		if (Is.stringValue(changesetEntity.previousChangesetId)) {
+			const previous = await this._changesetStorage.get(changesetEntity.previousChangesetId);
+			if (Is.empty(previous) || previous.vertexId !== changesetEntity.vertexId) {
+				return ChangesetChainFailure.Gap;
+			}
+
+			const linkedToPrevious = await this._changesetStorage.query(
+				{
+					conditions: [
+						{
+							property: "vertexId",
+							value: changesetEntity.vertexId,
+							comparison: ComparisonOperator.Equals
+						},
+						{
+							property: "previousChangesetId",
+							value: changesetEntity.previousChangesetId,
+							comparison: ComparisonOperator.Equals
+						}
+					],
+					logicalOperator: LogicalOperator.And
+				},
+				undefined,
+				["id"],
+				undefined,
+				2
+			);
+			if (linkedToPrevious.entities.length > 1) {
+				return ChangesetChainFailure.Fork;
+			}
+
+			if (
+				new Date(previous.dateCreated).getTime() > new Date(changesetEntity.dateCreated).getTime()
+			) {
+				return ChangesetChainFailure.Reordered;
+			}
+
+			if (this.calculateChangesetHash(previous) !== changesetEntity.previousChangesetHash) {
+				return ChangesetChainFailure.HashMismatch;
+			}
+		} else {
+			// Only the changesets created before the links were introduced have no previous changeset,
+			// so none of the changesets created up to this one can have a link.
+			const linkedBefore = await this._changesetStorage.query(
+				{
+					conditions: [
+						{
+							property: "vertexId",
+							value: changesetEntity.vertexId,
+							comparison: ComparisonOperator.Equals
+						},
+						{
+							property: "previousChangesetId",
+							value: undefined,
+							comparison: ComparisonOperator.NotEquals
+						},
+						{
+							property: "dateCreated",
+							value: changesetEntity.dateCreated,
+							comparison: ComparisonOperator.LessThanOrEqual
+						}
+					],
+					logicalOperator: LogicalOperator.And
+				},
+				undefined,
+				["id"],
+				undefined,
+				1
+			);
+			if (linkedBefore.entities.length > 0) {
+				return ChangesetChainFailure.LinkMissing;
+			}
+		}
+
+		// The vertex links to its last changeset, so the last can not be removed unnoticed.
+		if (
+			Is.object(vertexEntity) &&
+			Is.stringValue(vertexEntity.lastChangesetId) &&
+			vertexEntity.lastChangesetId !== changesetEntity.id
+		) {
+			return ChangesetChainFailure.Gap;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Verify the proof of a changeset and store the verification in the model.
+	 * @param changesetEntity The changeset to verify.
+	 * @param changesetModel The model to store the verification in.
+	 * @returns True if the changeset was verified.
+	 * @internal
+	 */
+	private async verifyChangeset(
+		changesetEntity: AuditableItemGraphChangeset,
+		changesetModel: IAuditableItemGraphChangeset
+	): Promise<boolean> {
+		if (!Is.stringValue(changesetEntity.proofId)) {
+			changesetModel.verification = {
+				"@context": ImmutableProofTypes.ContextRoot,
+				type: ImmutableProofTypes.ImmutableProofVerification,
+				verified: false,
+				failure: ImmutableProofFailure.ProofMissing
+			};
+		} else {
+			// Verify the proof for the changeset object
+			changesetModel.verification = await this._immutableProofComponent.verify(
+				changesetEntity.proofId
+			);
+		}
+
+		return changesetModel.verification.verified;
+	}
+
 	/**
 	 * Get the resource id from a resource object.
 	 * @param resource The resource.
@@ -1097,4 +4574,208 @@ export class AuditableItemGraphService implements IAuditableItemGraphComponent {
 			ObjectHelper.extractProperty<string>(resource.resourceObject, ["id", "@id"], false)
 		);
 	}
+
+	/**
+	 * Get the vertex id an edge points at, edges can use either the raw id or the full urn.
+	 * @param edgeId The id of the edge.
+	 * @returns The vertex id.
+	 * @internal
+	 */
+	private getVertexIdFromEdgeId(edgeId: string): string {
+		const prefix = `${AuditableItemGraphService.NAMESPACE}:`;
+		return edgeId.startsWith(prefix) ? edgeId.slice(prefix.length) : edgeId;
+	}
+
+	/**
+	 * Wait for the pending operations holding a lock to complete and then acquire it.
+	 * @param lockId The id of the lock to acquire.
+	 * @returns The method to call to release the lock.
+	 * @internal
+	 */
+	private async acquireLock(lockId: string): Promise<() => void> {
+		const previous = this._locks.get(lockId);
+
+		let release: (() => void) | undefined;
+		const current = new Promise<void>(resolve => {
+			release = resolve;
+		});
+		this._locks.set(lockId, current);
+
+		// Each operation waits for the one queued before it, which in turn waited for its predecessor.
+		await previous;
+
+		return () => {
+			release?.();
+			// Only the last operation in the queue removes it, so the map does not grow forever.
+			if (this._locks.get(lockId) === current) {
+				this._locks.delete(lockId);
+			}
+		};
+	}
+
+	/**
+	 * Guard that a value is an integer within a range.
+	 * @param property The name of the property being guarded.
+	 * @param value The value to guard.
+	 * @param minimum The minimum allowed value.
+	 * @param maximum The maximum allowed value.
+	 * @throws GuardError if the value is not an integer within the range.
+	 * @internal
+	 */
+	private guardIntegerRange(
+		property: string,
+		value: unknown,
+		minimum: number,
+		maximum: number
+	): void {
+		Guards.integer(this.CLASS_NAME, property, value);
+		if (value < minimum || value > maximum) {
+			throw new GuardError(
+				this.CLASS_NAME,
+				"integerRange",
+				property,
+				value,
+				`${minimum}-${maximum}`
+			);
+		}
+	}
+
+	/**
+	 * Walk the graph breadth first from a vertex and get the vertices reached.
+	 * @param startEntity The vertex to start the walk from.
+	 * @param direction The direction to follow the edges.
+	 * @param maxDepth The maximum number of edges to follow from the start vertex.
+	 * @param edgeRelationships The relationships of the edges to follow, defaults to all.
+	 * @returns The vertices reached, starting with the start vertex.
+	 * @internal
+	 */
+	private async walkSubgraph(
+		startEntity: AuditableItemGraphVertex,
+		direction: EdgeDirection,
+		maxDepth: number,
+		edgeRelationships?: string[]
+	): Promise<AuditableItemGraphVertex[]> {
+		// The visited set stops us looping forever when the graph has cycles.
+		const visited = new Set<string>([startEntity.id]);
+		const vertexEntities: AuditableItemGraphVertex[] = [startEntity];
+		let frontier: AuditableItemGraphVertex[] = [startEntity];
+
+		for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+			const nextFrontier: AuditableItemGraphVertex[] = [];
+
+			for (const vertexEntity of frontier) {
+				const neighbours = await this.getNeighbours(vertexEntity, direction, edgeRelationships);
+
+				for (const neighbour of neighbours) {
+					if (!visited.has(neighbour.vertexId)) {
+						visited.add(neighbour.vertexId);
+
+						// Edges can point at vertices which don't exist or have been deleted, so just skip them.
+						const neighbourEntity = await this._vertexStorage.get(neighbour.vertexId);
+						if (!Is.empty(neighbourEntity) && !Is.stringValue(neighbourEntity.dateDeleted)) {
+							vertexEntities.push(neighbourEntity);
+							nextFrontier.push(neighbourEntity);
+						}
+					}
+				}
+			}
+
+			frontier = nextFrontier;
+		}
+
+		return vertexEntities;
+	}
+
+	/**
+	 * Get the vertices connected to a vertex by its active edges, the edges of removed vertices are retired
+	 * from the incoming edges index so only the outgoing edges can lead to a removed vertex.
+	 * @param vertex The vertex to get the neighbours for.
+	 * @param direction The direction to follow the edges.
+	 * @param edgeRelationships The relationships of the edges to follow, defaults to all.
+	 * @returns The connected vertex ids and the edges which connect them.
+	 * @internal
+	 */
+	private async getNeighbours(
+		vertex: AuditableItemGraphVertex,
+		direction: EdgeDirection,
+		edgeRelationships?: string[]
+	): Promise<
+		{
+			vertexId: string;
+			sourceVertexId: string;
+			targetVertexId: string;
+			edgeRelationship: string;
+		}[]
+	> {
+		const neighbours: {
+			vertexId: string;
+			sourceVertexId: string;
+			targetVertexId: string;
+			edgeRelationship: string;
+		}[] = [];
+
+		if (direction === EdgeDirection.Outgoing || direction === EdgeDirection.Both) {
+			for (const edge of vertex.edges ?? []) {
+				if (
+					Is.empty(edge.dateDeleted) &&
+					(!Is.arrayValue(edgeRelationships) || edgeRelationships.includes(edge.edgeRelationship))
+				) {
+					const targetVertexId = this.getVertexIdFromEdgeId(edge.id);
+					neighbours.push({
+						vertexId: targetVertexId,
+						sourceVertexId: vertex.id,
+						targetVertexId,
+						edgeRelationship: edge.edgeRelationship
+					});
+				}
+			}
+		}
+
+		if (direction === EdgeDirection.Incoming || direction === EdgeDirection.Both) {
+			const conditions: IComparator[] = [
+				{
+					property: "vertexId",
+					value: vertex.id,
+					comparison: ComparisonOperator.Equals
+				},
+				{
+					property: "dateDeleted",
+					value: undefined,
+					comparison: ComparisonOperator.Equals
+				}
+			];
+
+			if (Is.arrayValue(edgeRelationships)) {
+				conditions.push({
+					property: "edgeRelationship",
+					value: edgeRelationships,
+					comparison: ComparisonOperator.In
+				});
+			}
+
+			let incomingResult;
+			do {
+				incomingResult = await this._incomingEdgeStorage.query(
+					{
+						conditions,
+						logicalOperator: LogicalOperator.And
+					},
+					undefined,
+					undefined,
+					incomingResult?.cursor
+				);
+
+				for (const incomingEdge of incomingResult.entities as AuditableItemGraphIncomingEdge[]) {
+					neighbours.push({
+						vertexId: incomingEdge.sourceVertexId,
+						sourceVertexId: incomingEdge.sourceVertexId,
+						targetVertexId: vertex.id,
+						edgeRelationship: incomingEdge.edgeRelationship
+					});
+				}
+			} while (Is.stringValue(incomingResult.cursor));
+		}
+
+		return neighbours;
+	}
 }
@@ -0,0 +1,45 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { entity, property, SortDirection } from "@twin.org/entity";
+
+/**
+ * Class describing the index of an alias, stored against the alias so it can be resolved to its vertex.
+ */
+@entity()
+export class AuditableItemGraphAliasIndex {
+	/**
+	 * The id of the alias index, a combination of the vertex id and alias id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * The id of the alias.
+	 */
+	@property({ type: "string", isSecondary: true })
+	public aliasId!: string;
+
+	/**
+	 * The id of the alias in lower case, used for case insensitive matching.
+	 */
+	@property({ type: "string", isSecondary: true })
+	public aliasIdLowerCase!: string;
+
+	/**
+	 * The format of the alias.
+	 */
+	@property({ type: "string" })
+	public aliasFormat?: string;
+
+	/**
+	 * The vertex which uses the alias.
+	 */
+	@property({ type: "string" })
+	public vertexId!: string;
+
+	/**
+	 * The date/time of when the alias was added to the vertex.
+	 */
+	@property({ type: "string", format: "date-time", sortDirection: SortDirection.Ascending })
+	public dateCreated!: string;
+}
@@ -38,6 +38,18 @@ export class AuditableItemGraphChangeset {
 	@property({ type: "array", itemTypeRef: "AuditableItemGraphPatch" })
 	public patches!: AuditableItemGraphPatch[];
 
+	/**
+	 * The id of the changeset this one follows, not set for the first changeset of the vertex.
+	 */
+	@property({ type: "string" })
+	public previousChangesetId?: string;
+
+	/**
+	 * The hash of the proof object of the previous changeset.
+	 */
+	@property({ type: "string" })
+	public previousChangesetHash?: string;
+
 	/**
 	 * The immutable proof id which contains the signature for this changeset.
 	 */
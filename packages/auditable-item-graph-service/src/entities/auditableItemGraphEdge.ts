@@ -38,6 +38,12 @@ export class AuditableItemGraphEdge {
 	@property({ type: "string" })
 	public edgeRelationship!: string;
 
+	/**
+	 * The relationship of the matching edge maintained on the target vertex.
+	 */
+	@property({ type: "string" })
+	public inverseRelationship?: string;
+
 	/**
 	 * Object to associate with the edge as JSON-LD.
 	 */
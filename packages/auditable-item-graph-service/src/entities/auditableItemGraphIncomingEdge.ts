@@ -0,0 +1,58 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { JsonLdTypes, type IJsonLdNodeObject } from "@twin.org/data-json-ld";
+import { entity, property, SortDirection } from "@twin.org/entity";
+
+/**
+ * Class describing the reverse index of an edge, stored against the vertex it points at.
+ */
+@entity()
+export class AuditableItemGraphIncomingEdge {
+	/**
+	 * The id of the incoming edge, a combination of the source and target vertex ids.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * The vertex the edge points at.
+	 */
+	@property({ type: "string", isSecondary: true })
+	public vertexId!: string;
+
+	/**
+	 * The vertex the edge belongs to.
+	 */
+	@property({ type: "string" })
+	public sourceVertexId!: string;
+
+	/**
+	 * The date/time of when the edge was created.
+	 */
+	@property({ type: "string", format: "date-time", sortDirection: SortDirection.Ascending })
+	public dateCreated!: string;
+
+	/**
+	 * The date/time of when the edge was last modified.
+	 */
+	@property({ type: "string", format: "date-time" })
+	public dateModified?: string;
+
+	/**
+	 * The timestamp of when the edge was deleted, as we never actually remove items.
+	 */
+	@property({ type: "string", format: "date-time" })
+	public dateDeleted?: string;
+
+	/**
+	 * The relationship between the two vertices.
+	 */
+	@property({ type: "string" })
+	public edgeRelationship!: string;
+
+	/**
+	 * Object to associate with the edge as JSON-LD.
+	 */
+	@property({ type: "object", itemTypeRef: JsonLdTypes.NodeObject })
+	public annotationObject?: IJsonLdNodeObject;
+}
@@ -35,12 +35,54 @@ export class AuditableItemGraphVertex {
 	@property({ type: "string", format: "date-time", sortDirection: SortDirection.Descending })
 	public dateModified?: string;
 
+	/**
+	 * The date/time of when the vertex was deleted, as we never actually remove items.
+	 */
+	@property({ type: "string", format: "date-time" })
+	public dateDeleted?: string;
+
+	/**
+	 * The revision of the vertex, incremented each time a changeset is applied.
+	 */
+	@property({ type: "integer" })
+	public revision?: number;
+
+	/**
+	 * The id of the last changeset applied to the vertex, which the next changeset links to.
+	 */
+	@property({ type: "string" })
+	public lastChangesetId?: string;
+
+	/**
+	 * The hash of the proof object of the last changeset applied to the vertex.
+	 */
+	@property({ type: "string" })
+	public lastChangesetHash?: string;
+
 	/**
 	 * Combined alias index for the vertex used for querying.
 	 */
 	@property({ type: "string", isSecondary: true })
 	public aliasIndex?: string;
 
+	/**
+	 * The idempotency key the vertex was created with.
+	 */
+	@property({ type: "string", isSecondary: true })
+	public idempotencyKey?: string;
+
+	/**
+	 * The identity of the user who created the vertex with the idempotency key.
+	 */
+	@property({ type: "string" })
+	public idempotencyUserIdentity?: string;
+
+	/**
+	 * The hash of the create request which used the idempotency key.
+	 */
+	@property({ type: "string" })
+	public idempotencyHash?: string;
+
 	/**
 	 * Object to associate with the vertex as JSON-LD.
 	 */
@@ -3,8 +3,10 @@
 export * from "./auditableItemGraphRoutes";
 export * from "./auditableItemGraphService";
 export * from "./entities/auditableItemGraphAlias";
+export * from "./entities/auditableItemGraphAliasIndex";
 export * from "./entities/auditableItemGraphChangeset";
 export * from "./entities/auditableItemGraphEdge";
+export * from "./entities/auditableItemGraphIncomingEdge";
 export * from "./entities/auditableItemGraphPatch";
 export * from "./entities/auditableItemGraphResource";
 export * from "./entities/auditableItemGraphVertex";
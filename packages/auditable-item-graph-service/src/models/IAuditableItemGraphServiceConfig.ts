@@ -1,8 +1,26 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
+import type { AliasUniqueness, EdgeIntegrity } from "@twin.org/auditable-item-graph-models";
 
 /**
  * Configuration for the auditable item graph service.
  */
-// eslint-disable-next-line @typescript-eslint/no-empty-interface
-export interface IAuditableItemGraphServiceConfig {}
+export interface IAuditableItemGraphServiceConfig {
+	/**
+	 * How the uniqueness of aliases is enforced across the graph.
+	 * @default none
+	 */
+	aliasUniqueness?: AliasUniqueness;
+
+	/**
+	 * How the targets of edges are checked when edges are added to a vertex.
+	 * @default none
+	 */
+	edgeIntegrity?: EdgeIntegrity;
+
+	/**
+	 * Only allow edges with a relationship registered in the edge relationship vocabulary.
+	 * @default false
+	 */
+	registeredEdgeRelationshipsOnly?: boolean;
+}
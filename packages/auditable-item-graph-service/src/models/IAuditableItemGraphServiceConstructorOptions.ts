@@ -24,6 +24,18 @@ export interface IAuditableItemGraphServiceConstructorOptions {
 	 */
 	changesetEntityStorageType?: string;
 
+	/**
+	 * The entity storage for the incoming edges index.
+	 * @default auditable-item-graph-incoming-edge
+	 */
+	incomingEdgeEntityStorageType?: string;
+
+	/**
+	 * The entity storage for the alias index.
+	 * @default auditable-item-graph-alias-index
+	 */
+	aliasIndexEntityStorageType?: string;
+
 	/**
 	 * The event bus component type, defaults to no event bus.
 	 */
@@ -19,4 +19,19 @@ export interface IAuditableItemGraphServiceContext {
 	 * The identity of the node.
 	 */
 	nodeIdentity: string;
+
+	/**
+	 * The ids of vertices being created in the same operation, which edges can point at before they exist.
+	 */
+	pendingVertexIds?: string[];
+
+	/**
+	 * The edges of the vertices being created in the same operation, indexed by the id of the vertex.
+	 */
+	pendingVertexEdges?: {
+		[vertexId: string]: {
+			id: string;
+			edgeRelationship: string;
+		}[];
+	};
 }
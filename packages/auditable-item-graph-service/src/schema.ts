@@ -3,8 +3,10 @@
 import { EntitySchemaFactory, EntitySchemaHelper } from "@twin.org/entity";
 import { nameof } from "@twin.org/nameof";
 import { AuditableItemGraphAlias } from "./entities/auditableItemGraphAlias";
+import { AuditableItemGraphAliasIndex } from "./entities/auditableItemGraphAliasIndex";
 import { AuditableItemGraphChangeset } from "./entities/auditableItemGraphChangeset";
 import { AuditableItemGraphEdge } from "./entities/auditableItemGraphEdge";
+import { AuditableItemGraphIncomingEdge } from "./entities/auditableItemGraphIncomingEdge";
 import { AuditableItemGraphPatch } from "./entities/auditableItemGraphPatch";
 import { AuditableItemGraphResource } from "./entities/auditableItemGraphResource";
 import { AuditableItemGraphVertex } from "./entities/auditableItemGraphVertex";
@@ -25,6 +27,12 @@ export function initSchema(): void {
 	EntitySchemaFactory.register(nameof<AuditableItemGraphEdge>(), () =>
 		EntitySchemaHelper.getSchema(AuditableItemGraphEdge)
 	);
+	EntitySchemaFactory.register(nameof<AuditableItemGraphIncomingEdge>(), () =>
+		EntitySchemaHelper.getSchema(AuditableItemGraphIncomingEdge)
+	);
+	EntitySchemaFactory.register(nameof<AuditableItemGraphAliasIndex>(), () =>
+		EntitySchemaHelper.getSchema(AuditableItemGraphAliasIndex)
+	);
 	EntitySchemaFactory.register(nameof<AuditableItemGraphChangeset>(), () =>
 		EntitySchemaHelper.getSchema(AuditableItemGraphChangeset)
 	);
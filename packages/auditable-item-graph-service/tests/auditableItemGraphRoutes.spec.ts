@@ -0,0 +1,308 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { HttpErrorHelper, type IHttpRequestContext } from "@twin.org/api-models";
+import type { IAuditableItemGraphComponent } from "@twin.org/auditable-item-graph-models";
+import { ComponentFactory, ConflictError, GeneralError, Is } from "@twin.org/core";
+import { HeaderTypes, HttpStatusCode, MimeTypes } from "@twin.org/web";
+import {
+	auditableItemGraphAuditIntegrity,
+	auditableItemGraphChangesetGet,
+	auditableItemGraphCreateMany,
+	auditableItemGraphExport,
+	auditableItemGraphFindPath,
+	auditableItemGraphGet,
+	auditableItemGraphIncomingEdges,
+	auditableItemGraphPatch,
+	auditableItemGraphRemoveImmutable,
+	auditableItemGraphResolveAlias,
+	auditableItemGraphRevert,
+	auditableItemGraphTraverse,
+	auditableItemGraphUpdate,
+	auditableItemGraphUpdateMany,
+	auditableItemGraphVerificationBundle,
+	generateRestRoutesAuditableItemGraph
+} from "../src/auditableItemGraphRoutes";
+
+const COMPONENT_NAME = "auditable-item-graph";
+const TEST_USER_IDENTITY = "did:entity-storage:0x0101010101010101010101010101010101010101";
+const TEST_NODE_IDENTITY = "did:entity-storage:0x0202020202020202020202020202020202020202";
+
+const httpRequestContext = {
+	userIdentity: TEST_USER_IDENTITY,
+	nodeIdentity: TEST_NODE_IDENTITY
+} as IHttpRequestContext;
+
+let component: { [method in keyof IAuditableItemGraphComponent]?: ReturnType<typeof vi.fn> };
+
+describe("AuditableItemGraphRoutes", () => {
+	beforeEach(() => {
+		component = {
+			get: vi.fn(),
+			update: vi.fn(),
+			patch: vi.fn(),
+			getIncomingEdges: vi.fn().mockResolvedValue({ edges: [] }),
+			traverse: vi.fn().mockResolvedValue({ entities: [] }),
+			findPath: vi.fn().mockResolvedValue({ found: false }),
+			exportSubgraph: vi.fn().mockResolvedValue({ "@graph": [] }),
+			getVerificationBundle: vi.fn().mockResolvedValue({ entries: [] }),
+			getChangeset: vi.fn().mockResolvedValue({ id: "5678" }),
+			revert: vi.fn(),
+			createMany: vi.fn().mockResolvedValue([{ id: "aig:1234" }]),
+			updateMany: vi.fn().mockResolvedValue([{ id: "aig:1234" }]),
+			removeImmutable: vi.fn().mockResolvedValue([{ changesetId: "5678", removed: true }]),
+			resolveAlias: vi.fn().mockResolvedValue("aig:1234"),
+			auditIntegrity: vi.fn().mockResolvedValue([])
+		};
+		ComponentFactory.register(
+			COMPONENT_NAME,
+			() => component as unknown as IAuditableItemGraphComponent
+		);
+	});
+
+	afterEach(() => {
+		ComponentFactory.unregister(COMPONENT_NAME);
+	});
+
+	test("Can generate the routes with the fixed paths before the vertex paths", () => {
+		const routes = generateRestRoutesAuditableItemGraph("auditable-item-graph", COMPONENT_NAME);
+		const paths = routes.map(r => `${r.method} ${r.path}`);
+
+		const firstVertexPath = paths.findIndex(p => p.includes("/:id"));
+		for (const fixedPath of [
+			"POST auditable-item-graph/batch",
+			"PUT auditable-item-graph/batch",
+			"GET auditable-item-graph/aliases/:alias",
+			"GET auditable-item-graph/integrity"
+		]) {
+			expect(paths.indexOf(fixedPath)).toBeGreaterThan(-1);
+			expect(paths.indexOf(fixedPath)).toBeLessThan(firstVertexPath);
+		}
+		expect(new Set(routes.map(r => r.operationId)).size).toEqual(routes.length);
+	});
+
+	test("Can get a vertex with its revision as the etag", async () => {
+		component.get?.mockResolvedValue({ id: "1234", revision: 3 });
+
+		const response = await auditableItemGraphGet(httpRequestContext, COMPONENT_NAME, {
+			headers: { [HeaderTypes.Accept]: MimeTypes.JsonLd },
+			pathParams: { id: "aig:1234" },
+			query: { asOf: "5678" }
+		});
+
+		expect(response.headers).toEqual({
+			[HeaderTypes.ContentType]: MimeTypes.JsonLd,
+			etag: '"3"'
+		});
+		expect(component.get).toHaveBeenCalledWith("aig:1234", {
+			includeDeleted: undefined,
+			includeChangesets: undefined,
+			verifySignatureDepth: undefined,
+			asOf: "5678"
+		});
+
+		component.get?.mockResolvedValue({ id: "1234" });
+		const withoutRevision = await auditableItemGraphGet(httpRequestContext, COMPONENT_NAME, {
+			pathParams: { id: "aig:1234" }
+		});
+		expect(withoutRevision.headers?.etag).toBeUndefined();
+	});
+
+	test("Can update a vertex with the expected revision from the if-match header", async () => {
+		for (const [ifMatch, expectedRevision] of [
+			['"3"', 3],
+			['W/"4"', 4],
+			["*", undefined],
+			[undefined, undefined]
+		] as const) {
+			const response = await auditableItemGraphUpdate(httpRequestContext, COMPONENT_NAME, {
+				headers: Is.stringValue(ifMatch) ? { "if-match": ifMatch } : undefined,
+				pathParams: { id: "aig:1234" },
+				body: { aliases: [{ id: "foo123" }] }
+			});
+			expect(response.statusCode).toEqual(HttpStatusCode.noContent);
+			expect(component.update).toHaveBeenLastCalledWith(
+				"aig:1234",
+				undefined,
+				[{ id: "foo123" }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY,
+				{ expectedRevision }
+			);
+		}
+	});
+
+	test("Can patch a vertex with the expected revision from the if-match header", async () => {
+		const response = await auditableItemGraphPatch(httpRequestContext, COMPONENT_NAME, {
+			headers: { "if-match": '"2"' },
+			pathParams: { id: "aig:1234" },
+			body: { aliases: { foo123: null } }
+		});
+
+		expect(response.statusCode).toEqual(HttpStatusCode.noContent);
+		expect(component.patch).toHaveBeenCalledWith(
+			"aig:1234",
+			{ aliases: { foo123: null } },
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY,
+			{ expectedRevision: 2 }
+		);
+	});
+
+	test("Can fail an update with a conflict when the vertex is not at the expected revision", async () => {
+		component.update?.mockRejectedValue(
+			new GeneralError(
+				"AuditableItemGraphService",
+				"updateFailed",
+				undefined,
+				new ConflictError("AuditableItemGraphService", "revisionMismatch", "aig:1234", ["1", "2"])
+			)
+		);
+
+		let error: unknown;
+		try {
+			await auditableItemGraphUpdate(httpRequestContext, COMPONENT_NAME, {
+				headers: { "if-match": '"1"' },
+				pathParams: { id: "aig:1234" },
+				body: {}
+			});
+		} catch (err) {
+			error = err;
+		}
+
+		expect(HttpErrorHelper.processError(error).httpStatusCode).toEqual(HttpStatusCode.conflict);
+	});
+
+	test("Can pass the query parameters of the graph walking routes to the component", async () => {
+		await auditableItemGraphIncomingEdges(httpRequestContext, COMPONENT_NAME, {
+			pathParams: { id: "aig:1234" },
+			query: { edgeRelationships: "contains,owns", pageSize: 5 }
+		});
+		expect(component.getIncomingEdges).toHaveBeenCalledWith("aig:1234", {
+			includeDeleted: undefined,
+			edgeRelationships: ["contains", "owns"],
+			cursor: undefined,
+			pageSize: 5
+		});
+
+		await auditableItemGraphTraverse(httpRequestContext, COMPONENT_NAME, {
+			pathParams: { id: "aig:1234" },
+			query: { maxDepth: 2, edgeRelationships: "contains" }
+		});
+		expect(component.traverse).toHaveBeenCalledWith("aig:1234", {
+			direction: undefined,
+			maxDepth: 2,
+			edgeRelationships: ["contains"],
+			includeResources: undefined
+		});
+
+		await auditableItemGraphFindPath(httpRequestContext, COMPONENT_NAME, {
+			pathParams: { id: "aig:1234" },
+			query: { toId: "aig:5678", maxHops: 3 }
+		});
+		expect(component.findPath).toHaveBeenCalledWith("aig:1234", "aig:5678", {
+			edgeRelationships: undefined,
+			maxHops: 3,
+			direction: undefined
+		});
+
+		await auditableItemGraphExport(httpRequestContext, COMPONENT_NAME, {
+			pathParams: { id: "aig:1234" },
+			query: { relationships: "contains", includeProofs: false }
+		});
+		expect(component.exportSubgraph).toHaveBeenCalledWith("aig:1234", {
+			depth: undefined,
+			relationships: ["contains"],
+			includeChangesets: undefined,
+			includeProofs: false
+		});
+	});
+
+	test("Can get a changeset by the vertex id and its short id", async () => {
+		const response = await auditableItemGraphChangesetGet(httpRequestContext, COMPONENT_NAME, {
+			pathParams: { id: "aig:1234", changesetId: "5678" },
+			query: { verify: true }
+		});
+
+		expect(response.body).toEqual({ id: "5678" });
+		expect(component.getChangeset).toHaveBeenCalledWith("aig:1234:changeset:5678", {
+			verify: true
+		});
+	});
+
+	test("Can pass the request identities to the changing routes", async () => {
+		const revertResponse = await auditableItemGraphRevert(httpRequestContext, COMPONENT_NAME, {
+			pathParams: { id: "aig:1234" },
+			body: { changesetId: "5678" }
+		});
+		expect(revertResponse.statusCode).toEqual(HttpStatusCode.noContent);
+		expect(component.revert).toHaveBeenCalledWith(
+			"aig:1234",
+			"5678",
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const createManyResponse = await auditableItemGraphCreateMany(
+			httpRequestContext,
+			COMPONENT_NAME,
+			{ body: [{ aliases: [{ id: "foo123" }] }] }
+		);
+		expect(createManyResponse.body).toEqual([{ id: "aig:1234" }]);
+		expect(component.createMany).toHaveBeenCalledWith(
+			[{ aliases: [{ id: "foo123" }] }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const updateManyResponse = await auditableItemGraphUpdateMany(
+			httpRequestContext,
+			COMPONENT_NAME,
+			{ body: [{ id: "aig:1234", aliases: [{ id: "foo123" }] }] }
+		);
+		expect(updateManyResponse.body).toEqual([{ id: "aig:1234" }]);
+		expect(component.updateMany).toHaveBeenCalledWith(
+			[{ id: "aig:1234", aliases: [{ id: "foo123" }] }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const removeImmutableResponse = await auditableItemGraphRemoveImmutable(
+			httpRequestContext,
+			COMPONENT_NAME,
+			{ pathParams: { id: "aig:1234" } }
+		);
+		expect(removeImmutableResponse.body).toEqual([{ changesetId: "5678", removed: true }]);
+		expect(component.removeImmutable).toHaveBeenCalledWith(
+			"aig:1234",
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+	});
+
+	test("Can resolve an alias, audit the integrity and get a verification bundle", async () => {
+		const resolveResponse = await auditableItemGraphResolveAlias(
+			httpRequestContext,
+			COMPONENT_NAME,
+			{ pathParams: { alias: "foo123" }, query: { aliasFormat: "gtin" } }
+		);
+		expect(resolveResponse.body).toEqual({ id: "aig:1234" });
+		expect(component.resolveAlias).toHaveBeenCalledWith("foo123", "gtin");
+
+		const integrityResponse = await auditableItemGraphAuditIntegrity(
+			httpRequestContext,
+			COMPONENT_NAME,
+			{}
+		);
+		expect(integrityResponse.body).toEqual([]);
+
+		const bundleResponse = await auditableItemGraphVerificationBundle(
+			httpRequestContext,
+			COMPONENT_NAME,
+			{ pathParams: { id: "aig:1234" } }
+		);
+		expect(bundleResponse.body).toEqual({ entries: [] });
+		expect(component.getVerificationBundle).toHaveBeenCalledWith("aig:1234");
+	});
+});
@@ -1,15 +1,37 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
-import { VerifyDepth } from "@twin.org/auditable-item-graph-models";
+import { HttpErrorHelper } from "@twin.org/api-models";
+import {
+	AliasFormat,
+	AliasUniqueness,
+	AuditableItemGraphBundleVerifier,
+	AuditableItemGraphExportVerifier,
+	AuditableItemGraphRelationships,
+	AuditableItemGraphTypes,
+	EdgeCardinality,
+	EdgeDirection,
+	EdgeIntegrity,
+	VerifyDepth,
+	type IAuditableItemGraphVertex
+} from "@twin.org/auditable-item-graph-models";
 import {
 	type BackgroundTask,
 	EntityStorageBackgroundTaskConnector,
 	initSchema as initSchemaBackgroundTask
 } from "@twin.org/background-task-connector-entity-storage";
 import { BackgroundTaskConnectorFactory } from "@twin.org/background-task-models";
-import { ComponentFactory, Converter, ObjectHelper, RandomHelper } from "@twin.org/core";
+import {
+	ComponentFactory,
+	Converter,
+	GeneralError,
+	Is,
+	ObjectHelper,
+	RandomHelper
+} from "@twin.org/core";
+import { JsonLdProcessor } from "@twin.org/data-json-ld";
 import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
 import { EntityStorageConnectorFactory } from "@twin.org/entity-storage-models";
+import { EntityStorageIdentityResolverConnector } from "@twin.org/identity-connector-entity-storage";
 import type { IImmutableProof } from "@twin.org/immutable-proof-models";
 import {
 	type ImmutableProof,
@@ -24,6 +46,11 @@ import {
 import { ImmutableStorageConnectorFactory } from "@twin.org/immutable-storage-models";
 import { ModuleHelper } from "@twin.org/modules";
 import { nameof } from "@twin.org/nameof";
+import type {
+	IDataIntegrityProof,
+	IDidDocumentVerificationMethod
+} from "@twin.org/standards-w3c-did";
+import { HttpStatusCode, type IJwk } from "@twin.org/web";
 import {
 	cleanupTestEnv,
 	setupTestEnv,
@@ -31,12 +58,16 @@ import {
 	TEST_USER_IDENTITY
 } from "./setupTestEnv";
 import { AuditableItemGraphService } from "../src/auditableItemGraphService";
+import type { AuditableItemGraphAliasIndex } from "../src/entities/auditableItemGraphAliasIndex";
 import type { AuditableItemGraphChangeset } from "../src/entities/auditableItemGraphChangeset";
+import type { AuditableItemGraphIncomingEdge } from "../src/entities/auditableItemGraphIncomingEdge";
 import type { AuditableItemGraphVertex } from "../src/entities/auditableItemGraphVertex";
 import { initSchema } from "../src/schema";
 
 let vertexStorage: MemoryEntityStorageConnector<AuditableItemGraphVertex>;
 let changesetStorage: MemoryEntityStorageConnector<AuditableItemGraphChangeset>;
+let incomingEdgeStorage: MemoryEntityStorageConnector<AuditableItemGraphIncomingEdge>;
+let aliasIndexStorage: MemoryEntityStorageConnector<AuditableItemGraphAliasIndex>;
 let immutableProofStorage: MemoryEntityStorageConnector<ImmutableProof>;
 let immutableStorage: MemoryEntityStorageConnector<ImmutableItem>;
 let backgroundTaskStorage: MemoryEntityStorageConnector<BackgroundTask>;
@@ -59,6 +90,22 @@ async function waitForProofGeneration(proofCount: number = 1): Promise<void> {
 	}
 }
 
+/**
+ * Get the verification keys for the node identity by resolving its DID document.
+ * @returns The public keys of the assertion methods.
+ */
+async function getVerificationKeys(): Promise<{ [verificationMethod: string]: IJwk }> {
+	const resolver = new EntityStorageIdentityResolverConnector();
+	const didDocument = await resolver.resolveDocument(TEST_NODE_IDENTITY);
+	const verificationKeys: { [verificationMethod: string]: IJwk } = {};
+	for (const method of didDocument.assertionMethod ?? []) {
+		if (Is.object<IDidDocumentVerificationMethod>(method) && Is.object(method.publicKeyJwk)) {
+			verificationKeys[method.id] = method.publicKeyJwk;
+		}
+	}
+	return verificationKeys;
+}
+
 describe("AuditableItemGraphService", () => {
 	beforeAll(async () => {
 		await setupTestEnv();
@@ -81,6 +128,8 @@ describe("AuditableItemGraphService", () => {
 	});
 
 	beforeEach(async () => {
+		AuditableItemGraphRelationships.clear();
+
 		vertexStorage = new MemoryEntityStorageConnector<AuditableItemGraphVertex>({
 			entitySchema: nameof<AuditableItemGraphVertex>()
 		});
@@ -89,11 +138,27 @@ describe("AuditableItemGraphService", () => {
 			entitySchema: nameof<AuditableItemGraphChangeset>()
 		});
 
+		incomingEdgeStorage = new MemoryEntityStorageConnector<AuditableItemGraphIncomingEdge>({
+			entitySchema: nameof<AuditableItemGraphIncomingEdge>()
+		});
+
+		aliasIndexStorage = new MemoryEntityStorageConnector<AuditableItemGraphAliasIndex>({
+			entitySchema: nameof<AuditableItemGraphAliasIndex>()
+		});
+
 		EntityStorageConnectorFactory.register("auditable-item-graph-vertex", () => vertexStorage);
 		EntityStorageConnectorFactory.register(
 			"auditable-item-graph-changeset",
 			() => changesetStorage
 		);
+		EntityStorageConnectorFactory.register(
+			"auditable-item-graph-incoming-edge",
+			() => incomingEdgeStorage
+		);
+		EntityStorageConnectorFactory.register(
+			"auditable-item-graph-alias-index",
+			() => aliasIndexStorage
+		);
 
 		immutableStorage = new MemoryEntityStorageConnector<ImmutableItem>({
 			entitySchema: nameof<ImmutableItem>()
@@ -168,7 +233,10 @@ describe("AuditableItemGraphService", () => {
 			id: "0101010101010101010101010101010101010101010101010101010101010101",
 			dateCreated: "2024-08-22T11:55:16.271Z",
 			dateModified: "2024-08-22T11:55:16.271Z",
-			nodeIdentity: TEST_NODE_IDENTITY
+			revision: 1,
+			nodeIdentity: TEST_NODE_IDENTITY,
+			lastChangesetId: "0202020202020202020202020202020202020202020202020202020202020202",
+			lastChangesetHash: "CaoI/o+xd8mc8Yhh+3bCGrHRMoUkuH1c7PS/GSK40NQ="
 		});
 
 		const changesetStore = changesetStorage.getStore();
@@ -238,7 +306,10 @@ describe("AuditableItemGraphService", () => {
 			id: "0101010101010101010101010101010101010101010101010101010101010101",
 			dateCreated: "2024-08-22T11:55:16.271Z",
 			dateModified: "2024-08-22T11:55:16.271Z",
+			revision: 1,
 			nodeIdentity: TEST_NODE_IDENTITY,
+			lastChangesetId: "0202020202020202020202020202020202020202020202020202020202020202",
+			lastChangesetHash: "UO+mpgX2mqxYq+HMUbCMpT04PKCzZoFDN8Y2c2J8cik=",
 			aliasIndex: "foo123||bar456",
 			aliases: [
 				{
@@ -350,7 +421,10 @@ describe("AuditableItemGraphService", () => {
 			id: "0101010101010101010101010101010101010101010101010101010101010101",
 			dateCreated: "2024-08-22T11:55:16.271Z",
 			dateModified: "2024-08-22T11:55:16.271Z",
+			revision: 1,
 			nodeIdentity: TEST_NODE_IDENTITY,
+			lastChangesetId: "0202020202020202020202020202020202020202020202020202020202020202",
+			lastChangesetHash: "rRLP0faVJObmVtR0aqSdKAEZZf2amwYT2X4KjFrisNw=",
 			annotationObject: {
 				"@context": "https://www.w3.org/ns/activitystreams",
 				type: "Create",
@@ -474,6 +548,7 @@ describe("AuditableItemGraphService", () => {
 			id: "0101010101010101010101010101010101010101010101010101010101010101",
 			dateCreated: "2024-08-22T11:55:16.271Z",
 			dateModified: "2024-08-22T11:55:16.271Z",
+			revision: 1,
 			nodeIdentity: TEST_NODE_IDENTITY,
 			annotationObject: {
 				"@context": "https://www.w3.org/ns/activitystreams",
@@ -544,6 +619,7 @@ describe("AuditableItemGraphService", () => {
 			id: "0101010101010101010101010101010101010101010101010101010101010101",
 			dateCreated: "2024-08-22T11:55:16.271Z",
 			dateModified: "2024-08-22T11:55:16.271Z",
+			revision: 1,
 			nodeIdentity: TEST_NODE_IDENTITY,
 			annotationObject: {
 				"@context": "https://www.w3.org/ns/activitystreams",
@@ -714,6 +790,7 @@ describe("AuditableItemGraphService", () => {
 			id: "0101010101010101010101010101010101010101010101010101010101010101",
 			dateCreated: "2024-08-22T11:55:16.271Z",
 			dateModified: "2024-08-22T11:55:16.271Z",
+			revision: 1,
 			nodeIdentity: TEST_NODE_IDENTITY,
 			annotationObject: {
 				"@context": "https://www.w3.org/ns/activitystreams",
@@ -914,6 +991,7 @@ describe("AuditableItemGraphService", () => {
 			type: "AuditableItemGraphVertex",
 			dateCreated: "2024-08-22T11:55:16.271Z",
 			dateModified: "2024-08-22T11:55:16.271Z",
+			revision: 1,
 			aliases: [
 				{ id: "foo123", type: "AuditableItemGraphAlias", dateCreated: "2024-08-22T11:55:16.271Z" },
 				{ id: "bar456", type: "AuditableItemGraphAlias", dateCreated: "2024-08-22T11:55:16.271Z" }
@@ -2947,7 +3025,26 @@ describe("AuditableItemGraphService", () => {
 		const immutableStore = immutableStorage.getStore();
 		expect(immutableStore.length).toEqual(1);
 
-		await service.removeImmutable(id, TEST_NODE_IDENTITY);
+		// Only the node or the user who created the vertex can remove its storage.
+		await expect(
+			service.removeImmutable(id, "did:entity-storage:0xother", TEST_NODE_IDENTITY)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.removeImmutableFailed",
+			cause: {
+				name: "UnauthorizedError",
+				message: "auditableItemGraphService.removeImmutableNotAllowed"
+			}
+		});
+		expect(immutableStore.length).toEqual(1);
+
+		const removed = await service.removeImmutable(id, TEST_NODE_IDENTITY, TEST_NODE_IDENTITY);
+		expect(removed).toEqual([
+			{
+				changesetId: "0202020202020202020202020202020202020202020202020202020202020202",
+				removed: true
+			}
+		]);
 
 		const result = await service.get(id, {
 			includeChangesets: true,
@@ -2964,6 +3061,7 @@ describe("AuditableItemGraphService", () => {
 			type: "AuditableItemGraphVertex",
 			dateCreated: "2024-08-22T11:55:16.271Z",
 			dateModified: "2024-08-22T11:55:16.271Z",
+			revision: 1,
 			aliases: [
 				{ id: "foo123", type: "AuditableItemGraphAlias", dateCreated: "2024-08-22T11:55:16.271Z" },
 				{ id: "bar456", type: "AuditableItemGraphAlias", dateCreated: "2024-08-22T11:55:16.271Z" }
@@ -2999,6 +3097,14 @@ describe("AuditableItemGraphService", () => {
 		});
 
 		expect(immutableStore.length).toEqual(0);
+
+		const removedAgain = await service.removeImmutable(id, TEST_USER_IDENTITY, TEST_NODE_IDENTITY);
+		expect(removedAgain).toEqual([
+			{
+				changesetId: "0202020202020202020202020202020202020202020202020202020202020202",
+				removed: false
+			}
+		]);
 	});
 
 	test("Can query for a vertex by id", async () => {
@@ -3219,4 +3325,3200 @@ describe("AuditableItemGraphService", () => {
 			]
 		});
 	});
+
+	test("Can get the incoming edges for a vertex", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const targetId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const sourceId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: targetId, edgeRelationship: "contains" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		expect(incomingEdgeStorage.getStore()).toMatchObject([
+			{
+				vertexId: "0101010101010101010101010101010101010101010101010101010101010101",
+				sourceVertexId: sourceId.slice(4),
+				edgeRelationship: "contains"
+			}
+		]);
+
+		const incoming = await service.getIncomingEdges(targetId);
+		expect(incoming).toMatchObject({
+			type: "AuditableItemGraphEdgeList",
+			edges: [
+				{
+					type: "AuditableItemGraphEdge",
+					id: sourceId.slice(4),
+					edgeRelationship: "contains"
+				}
+			]
+		});
+
+		const filtered = await service.getIncomingEdges(targetId, {
+			edgeRelationships: ["owns"]
+		});
+		expect(filtered.edges).toEqual([]);
+
+		await service.update(
+			sourceId,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const afterDelete = await service.getIncomingEdges(targetId);
+		expect(afterDelete.edges).toEqual([]);
+
+		const withDeleted = await service.getIncomingEdges(targetId, { includeDeleted: true });
+		expect(withDeleted.edges[0].dateDeleted).toBeDefined();
+	});
+
+	test("Can rebuild the incoming edges index without orphaned entries", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const targetId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const sourceId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: targetId, edgeRelationship: "contains" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const otherId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		// The index is only written once the vertex has been stored.
+		vi.spyOn(vertexStorage, "set").mockRejectedValueOnce(
+			new GeneralError("Tests", "storageFailed")
+		);
+		await expect(
+			service.update(
+				sourceId,
+				undefined,
+				undefined,
+				undefined,
+				[
+					{ id: targetId, edgeRelationship: "contains" },
+					{ id: otherId, edgeRelationship: "contains" }
+				],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toThrow();
+		const otherIncoming = await service.getIncomingEdges(otherId);
+		expect(otherIncoming.edges).toEqual([]);
+
+		// Edges stored before the index existed are added by rebuilding it.
+		const incomingEdgeIds = incomingEdgeStorage.getStore().map(e => e.id);
+		for (const incomingEdgeId of incomingEdgeIds) {
+			await incomingEdgeStorage.remove(incomingEdgeId);
+		}
+		const targetIncoming = await service.getIncomingEdges(targetId);
+		expect(targetIncoming.edges).toEqual([]);
+
+		const count = await service.rebuildIncomingEdges();
+		expect(count).toEqual(1);
+		expect(await service.getIncomingEdges(targetId)).toMatchObject({
+			edges: [
+				{
+					id: sourceId.slice(4),
+					edgeRelationship: "contains"
+				}
+			]
+		});
+	});
+
+	test("Can traverse the graph from a vertex", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+		const cId = await service.create(
+			undefined,
+			undefined,
+			[{ id: "resource1", resourceObject: { "@context": "https://schema.org", type: "Note" } }],
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const bId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: cId, edgeRelationship: "contains" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const aId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[
+				{ id: bId, edgeRelationship: "contains" },
+				{ id: cId, edgeRelationship: "owns" }
+			],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const oneHop = await service.traverse(aId);
+		expect(oneHop.type).toEqual("AuditableItemGraphVertexList");
+		expect(oneHop.vertices.map(v => v.id)).toEqual([aId.slice(4), bId.slice(4), cId.slice(4)]);
+		expect(oneHop.vertices[2].resources).toBeUndefined();
+
+		const containsOneHop = await service.traverse(aId, { edgeRelationships: ["contains"] });
+		expect(containsOneHop.vertices.map(v => v.id)).toEqual([aId.slice(4), bId.slice(4)]);
+
+		const containsTwoHops = await service.traverse(aId, {
+			edgeRelationships: ["contains"],
+			maxDepth: 2,
+			includeResources: true
+		});
+		expect(containsTwoHops.vertices.map(v => v.id)).toEqual([
+			aId.slice(4),
+			bId.slice(4),
+			cId.slice(4)
+		]);
+		expect(containsTwoHops.vertices[2].resources).toMatchObject([{ id: "resource1" }]);
+
+		const incoming = await service.traverse(cId, {
+			direction: EdgeDirection.Incoming,
+			maxDepth: 5
+		});
+		expect(incoming.vertices.map(v => v.id)).toEqual([cId.slice(4), bId.slice(4), aId.slice(4)]);
+
+		const both = await service.traverse(bId, { direction: EdgeDirection.Both, maxDepth: 5 });
+		expect(both.vertices.map(v => v.id)).toEqual([bId.slice(4), cId.slice(4), aId.slice(4)]);
+	});
+
+	test("Can traverse a cyclic graph visiting each vertex once", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+		const cId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const bId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: cId, edgeRelationship: "follows" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const aId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: bId, edgeRelationship: "follows" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		await service.update(
+			cId,
+			undefined,
+			undefined,
+			undefined,
+			[{ id: aId, edgeRelationship: "follows" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const outgoing = await service.traverse(aId, { maxDepth: 10 });
+		expect(outgoing.vertices.map(v => v.id)).toEqual([aId.slice(4), bId.slice(4), cId.slice(4)]);
+
+		const both = await service.traverse(bId, { direction: EdgeDirection.Both, maxDepth: 10 });
+		expect(both.vertices.map(v => v.id)).toEqual([bId.slice(4), cId.slice(4), aId.slice(4)]);
+
+		const startOnly = await service.traverse(aId, { maxDepth: 0 });
+		expect(startOnly.vertices.map(v => v.id)).toEqual([aId.slice(4)]);
+
+		await expect(
+			service.traverse(aId, { direction: "sideways" as EdgeDirection })
+		).rejects.toMatchObject({
+			name: "GuardError",
+			message: "guard.arrayOneOf"
+		});
+		await expect(service.traverse(aId, { maxDepth: 11 })).rejects.toMatchObject({
+			name: "GuardError",
+			message: "auditableItemGraphService.integerRange"
+		});
+		await expect(service.traverse(aId, { maxDepth: 1.5 })).rejects.toMatchObject({
+			name: "GuardError",
+			message: "guard.integer"
+		});
+		await expect(service.exportSubgraph(aId, { depth: -1 })).rejects.toMatchObject({
+			name: "GuardError",
+			message: "auditableItemGraphService.integerRange"
+		});
+	});
+
+	test("Can find the path between two vertices", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+		const lotId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const componentId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: lotId, edgeRelationship: "madeFrom" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const batchId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: componentId, edgeRelationship: "contains" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const unrelatedId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const path = await service.findPath(batchId, lotId);
+		expect(path).toMatchObject({
+			type: "AuditableItemGraphPath",
+			connected: true,
+			vertices: [batchId, componentId, lotId],
+			edges: [
+				{ sourceId: batchId, targetId: componentId, edgeRelationship: "contains" },
+				{ sourceId: componentId, targetId: lotId, edgeRelationship: "madeFrom" }
+			]
+		});
+
+		const tooShort = await service.findPath(batchId, lotId, { maxHops: 1 });
+		expect(tooShort).toMatchObject({ connected: false, vertices: [], edges: [] });
+
+		await expect(service.findPath(batchId, lotId, { maxHops: 0 })).rejects.toMatchObject({
+			name: "GuardError",
+			message: "auditableItemGraphService.integerRange"
+		});
+		await expect(service.findPath(batchId, lotId, { maxHops: 51 })).rejects.toMatchObject({
+			name: "GuardError",
+			message: "auditableItemGraphService.integerRange"
+		});
+
+		const wrongRelationship = await service.findPath(batchId, lotId, {
+			edgeRelationships: ["contains"]
+		});
+		expect(wrongRelationship.connected).toEqual(false);
+
+		const wrongDirection = await service.findPath(lotId, batchId);
+		expect(wrongDirection.connected).toEqual(false);
+
+		const incoming = await service.findPath(lotId, batchId, { direction: EdgeDirection.Incoming });
+		expect(incoming).toMatchObject({
+			connected: true,
+			vertices: [lotId, componentId, batchId],
+			edges: [
+				{ sourceId: componentId, targetId: lotId, edgeRelationship: "madeFrom" },
+				{ sourceId: batchId, targetId: componentId, edgeRelationship: "contains" }
+			]
+		});
+
+		const notConnected = await service.findPath(batchId, unrelatedId, {
+			direction: EdgeDirection.Both
+		});
+		expect(notConnected.connected).toEqual(false);
+	});
+
+	test("Can get a vertex as it was at a point in time", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			[{ id: "foo123" }, { id: "bar456" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.update(
+			id,
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is an updated note"
+			},
+			[{ id: "foo321" }, { id: "bar456" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(2);
+
+		const atCreation = await service.get(id, {
+			asOf: new Date(FIRST_TICK).toISOString(),
+			includeChangesets: true,
+			verifySignatureDepth: VerifyDepth.All
+		});
+
+		expect(atCreation).toMatchObject({
+			id: "0101010101010101010101010101010101010101010101010101010101010101",
+			dateCreated: "2024-08-22T11:55:16.271Z",
+			dateModified: "2024-08-22T11:55:16.271Z",
+			annotationObject: {
+				type: "Note",
+				content: "This is a simple note"
+			},
+			aliases: [
+				{ id: "foo123", dateCreated: "2024-08-22T11:55:16.271Z" },
+				{ id: "bar456", dateCreated: "2024-08-22T11:55:16.271Z" }
+			],
+			verified: true
+		});
+		expect(atCreation.changesets?.length).toEqual(1);
+
+		const byChangeset = await service.get(id, {
+			asOf: "0202020202020202020202020202020202020202020202020202020202020202"
+		});
+		expect(byChangeset.aliases?.map(a => a.id)).toEqual(["foo123", "bar456"]);
+
+		const current = await service.get(id, {
+			asOf: new Date(SECOND_TICK).toISOString(),
+			includeChangesets: true
+		});
+		expect(current).toMatchObject({
+			dateModified: "2024-08-22T11:56:56.272Z",
+			annotationObject: {
+				content: "This is an updated note"
+			}
+		});
+		expect(current.aliases?.map(a => a.id)).toEqual(["bar456", "foo321"]);
+		expect(current.changesets?.length).toEqual(2);
+
+		await expect(
+			service.get(id, { asOf: new Date(FIRST_TICK - 1000).toISOString() })
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.getFailed",
+			cause: { name: "NotFoundError", message: "auditableItemGraphService.vertexNotFound" }
+		});
+
+		await expect(service.get(id, { asOf: "unknown" })).rejects.toMatchObject({
+			name: "GeneralError",
+			cause: { name: "NotFoundError", message: "auditableItemGraphService.changesetNotFound" }
+		});
+	});
+
+	test("Can get the changesets for a vertex in pages", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			undefined,
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.update(
+			id,
+			undefined,
+			[{ id: "foo456" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.update(
+			id,
+			undefined,
+			[{ id: "foo789" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(3);
+
+		const firstPage = await service.getChangesets(id, { pageSize: 2, verify: true });
+		expect(firstPage).toMatchObject({
+			type: "AuditableItemGraphChangesetList",
+			changesets: [
+				{
+					type: "AuditableItemGraphChangeset",
+					dateCreated: "2024-08-22T11:55:16.271Z",
+					userIdentity: TEST_USER_IDENTITY,
+					verification: { verified: true }
+				},
+				{
+					type: "AuditableItemGraphChangeset",
+					dateCreated: "2024-08-22T11:56:56.272Z",
+					verification: { verified: true }
+				}
+			]
+		});
+		expect(firstPage.cursor).toBeDefined();
+
+		const secondPage = await service.getChangesets(id, {
+			pageSize: 2,
+			cursor: firstPage.cursor
+		});
+		expect(secondPage.changesets.length).toEqual(1);
+		expect(secondPage.changesets[0].verification).toBeUndefined();
+		expect(secondPage.cursor).toBeUndefined();
+
+		const fromSecondTick = await service.getChangesets(id, {
+			from: "2024-08-22T11:56:56.272Z"
+		});
+		expect(fromSecondTick.changesets.length).toEqual(2);
+
+		const toFirstTick = await service.getChangesets(id, {
+			to: "2024-08-22T11:55:16.271Z"
+		});
+		expect(toFirstTick.changesets.length).toEqual(1);
+
+		const otherUser = await service.getChangesets(id, { userIdentity: "did:example:other" });
+		expect(otherUser.changesets).toEqual([]);
+
+		// A page is verified against the changeset before it, even when that is on the previous page.
+		const secondPageVerified = await service.getChangesets(id, {
+			pageSize: 2,
+			cursor: firstPage.cursor,
+			verify: true
+		});
+		expect(secondPageVerified.changesets[0].verification?.verified).toEqual(true);
+		expect(secondPageVerified.changesets[0].chainFailure).toBeUndefined();
+
+		const changesetStore = changesetStorage.getStore();
+		await changesetStorage.set({ ...changesetStore[1], userIdentity: "did:example:other" });
+		const tamperedPage = await service.getChangesets(id, {
+			pageSize: 2,
+			cursor: firstPage.cursor,
+			verify: true
+		});
+		expect(tamperedPage.changesets[0].chainFailure).toEqual("hashMismatch");
+	});
+
+	test("Can get a single changeset by its urn and verify it", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			undefined,
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration();
+
+		const changeset = await service.getChangeset(
+			`${id}:changeset:0202020202020202020202020202020202020202020202020202020202020202`,
+			{ verify: true }
+		);
+
+		expect(changeset).toMatchObject({
+			type: "AuditableItemGraphChangeset",
+			id: "0202020202020202020202020202020202020202020202020202020202020202",
+			dateCreated: "2024-08-22T11:55:16.271Z",
+			userIdentity: TEST_USER_IDENTITY,
+			proofId: "immutable-proof:0303030303030303030303030303030303030303030303030303030303030303",
+			verification: {
+				type: "ImmutableProofVerification",
+				verified: true
+			}
+		});
+
+		const unverified = await service.getChangeset(
+			`${id}:changeset:0202020202020202020202020202020202020202020202020202020202020202`
+		);
+		expect(unverified.verification).toBeUndefined();
+
+		await expect(
+			service.getChangeset(
+				"aig:0909090909090909090909090909090909090909090909090909090909090909:changeset:0202020202020202020202020202020202020202020202020202020202020202"
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			cause: { name: "NotFoundError", message: "auditableItemGraphService.changesetNotFound" }
+		});
+
+		await expect(service.getChangeset(id)).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.changesetIdInvalid"
+		});
+	});
+
+	test("Can get the differences between two versions of a vertex", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			[{ id: "foo123" }, { id: "bar456" }],
+			[{ id: "resource1", resourceObject: { "@context": "https://schema.org", type: "Note" } }],
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.update(
+			id,
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is an updated note"
+			},
+			[{ id: "foo321" }, { id: "bar456", aliasFormat: "type1" }],
+			[{ id: "resource1", resourceObject: { "@context": "https://schema.org", type: "Note" } }],
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const diff = await service.diff(id, new Date(FIRST_TICK).toISOString());
+
+		expect(diff).toMatchObject({
+			type: "AuditableItemGraphDiff",
+			annotationObjectModified: true,
+			aliases: {
+				type: "AuditableItemGraphDiffSummary",
+				added: ["foo321"],
+				removed: ["foo123"],
+				modified: ["bar456"]
+			},
+			resources: {
+				type: "AuditableItemGraphDiffSummary",
+				added: [],
+				removed: [],
+				modified: []
+			},
+			edges: {
+				type: "AuditableItemGraphDiffSummary",
+				added: [],
+				removed: [],
+				modified: []
+			}
+		});
+		expect(diff.patches).toContainEqual(
+			expect.objectContaining({
+				type: "AuditableItemGraphPatchOperation",
+				patchOperation: "replace",
+				patchPath: "/annotationObject/content",
+				patchValue: "This is an updated note"
+			})
+		);
+
+		const noChanges = await service.diff(
+			id,
+			"0202020202020202020202020202020202020202020202020202020202020202",
+			new Date(FIRST_TICK).toISOString()
+		);
+		expect(noChanges.patches).toEqual([]);
+		expect(noChanges.annotationObjectModified).toEqual(false);
+	});
+
+	test("Can revert a vertex to a previous version", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.update(
+			id,
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a mistake"
+			},
+			[{ id: "foo321" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.revert(
+			id,
+			"0202020202020202020202020202020202020202020202020202020202020202",
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(3);
+
+		const result = await service.get(id, {
+			includeChangesets: true,
+			verifySignatureDepth: VerifyDepth.All
+		});
+
+		expect(result).toMatchObject({
+			annotationObject: {
+				content: "This is a simple note"
+			},
+			verified: true
+		});
+		expect(result.aliases?.map(a => a.id)).toEqual(["foo123"]);
+		expect(result.changesets?.length).toEqual(3);
+
+		await expect(
+			service.revert(id, "unknown", TEST_USER_IDENTITY, TEST_NODE_IDENTITY)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.revertFailed",
+			cause: { name: "NotFoundError", message: "auditableItemGraphService.changesetNotFound" }
+		});
+
+		// A change made after the revert has read the vertex is not overwritten.
+		const update = service.update.bind(service);
+		vi.spyOn(service, "update").mockImplementationOnce(async (...args) => {
+			await update(
+				id,
+				{
+					"@context": "https://schema.org",
+					type: "Note",
+					content: "This is a concurrent change"
+				},
+				[{ id: "foo123" }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			);
+			return update(...args);
+		});
+		await expect(
+			service.revert(
+				id,
+				"0202020202020202020202020202020202020202020202020202020202020202",
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.revertFailed",
+			cause: {
+				name: "GeneralError",
+				message: "auditableItemGraphService.updateFailed",
+				cause: { name: "ConflictError", message: "auditableItemGraphService.revisionMismatch" }
+			}
+		});
+		const concurrent = await service.get(id);
+		expect(concurrent.annotationObject).toMatchObject({
+			content: "This is a concurrent change"
+		});
+	});
+
+	test("Can get the changeset which last modified each property of a vertex", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note",
+				name: "Note"
+			},
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.update(
+			id,
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is an updated note",
+				name: "Note"
+			},
+			[{ id: "foo123" }, { id: "foo321" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const blame = await service.blame(id);
+		expect(blame.type).toEqual("AuditableItemGraphBlame");
+
+		const byPointer = Object.fromEntries(blame.entries.map(e => [e.pointer, e]));
+
+		expect(byPointer["/id"]).toMatchObject({
+			changesetId: "0202020202020202020202020202020202020202020202020202020202020202",
+			userIdentity: TEST_USER_IDENTITY,
+			dateCreated: "2024-08-22T11:55:16.271Z"
+		});
+		expect(byPointer["/annotationObject/name"]).toMatchObject({
+			changesetId: "0202020202020202020202020202020202020202020202020202020202020202",
+			dateCreated: "2024-08-22T11:55:16.271Z"
+		});
+		expect(byPointer["/aliases/0/id"]).toMatchObject({
+			changesetId: "0202020202020202020202020202020202020202020202020202020202020202",
+			dateCreated: "2024-08-22T11:55:16.271Z"
+		});
+		expect(byPointer["/annotationObject/content"]).toMatchObject({
+			dateCreated: "2024-08-22T11:56:56.272Z"
+		});
+		expect(byPointer["/annotationObject/content"].changesetId).not.toEqual(
+			"0202020202020202020202020202020202020202020202020202020202020202"
+		);
+		expect(byPointer["/aliases/1/id"]).toMatchObject({
+			dateCreated: "2024-08-22T11:56:56.272Z"
+		});
+		expect(byPointer["/dateModified"]).toMatchObject({
+			dateCreated: "2024-08-22T11:56:56.272Z"
+		});
+	});
+
+	test("Can get the blame pointers for the active elements only", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			undefined,
+			[{ id: "foo123" }, { id: "bar456" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.update(
+			id,
+			undefined,
+			[{ id: "bar456" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const vertex = await service.get(id);
+		expect(vertex.aliases?.map(a => a.id)).toEqual(["bar456"]);
+
+		const blame = await service.blame(id);
+		const byPointer = Object.fromEntries(blame.entries.map(e => [e.pointer, e]));
+
+		expect(byPointer["/aliases/0/id"]).toMatchObject({
+			changesetId: "0202020202020202020202020202020202020202020202020202020202020202",
+			dateCreated: "2024-08-22T11:55:16.271Z"
+		});
+		expect(byPointer["/aliases/0/dateDeleted"]).toBeUndefined();
+		expect(byPointer["/aliases/1/id"]).toBeUndefined();
+	});
+
+	test("Can partially update a vertex with json patch and merge patch", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			[{ id: "foo123" }, { id: "bar456" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.patch(
+			id,
+			[
+				{ op: "add", path: "/aliases/foo321", value: {} },
+				{ op: "replace", path: "/annotationObject/content", value: "This is a patched note" }
+			],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		let result = await service.get(id);
+		expect(result.annotationObject).toMatchObject({
+			content: "This is a patched note"
+		});
+		expect(result.aliases?.map(a => a.id)).toEqual(["foo123", "bar456", "foo321"]);
+
+		await service.patch(
+			id,
+			{
+				aliases: {
+					bar456: null
+				}
+			},
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		result = await service.get(id, { includeDeleted: true });
+		expect(result.annotationObject).toMatchObject({
+			content: "This is a patched note"
+		});
+		expect(result.aliases?.map(a => a.id)).toEqual(["foo123", "bar456", "foo321"]);
+		expect(result.aliases?.find(a => a.id === "bar456")?.dateDeleted).toBeDefined();
+		expect(result.aliases?.find(a => a.id === "foo123")?.dateDeleted).toBeUndefined();
+
+		await expect(
+			service.patch(
+				"aig:0505050505050505050505050505050505050505050505050505050505050505",
+				{},
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.patchFailed",
+			cause: { name: "NotFoundError", message: "auditableItemGraphService.vertexNotFound" }
+		});
+	});
+
+	test("Can partially update a vertex with resources identified by their resource object", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			undefined,
+			undefined,
+			[
+				{
+					resourceObject: {
+						"@context": "https://schema.org",
+						type: "Note",
+						id: "https://example.org/note1",
+						content: "This is a simple note"
+					}
+				},
+				{
+					resourceObject: {
+						"@context": "https://schema.org",
+						"@type": "Note",
+						"@id": "https://example.org/note2",
+						content: "This is another note"
+					}
+				}
+			],
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.patch(id, { aliases: { foo123: {} } }, TEST_USER_IDENTITY, TEST_NODE_IDENTITY, {
+			expectedRevision: 1
+		});
+
+		const result = await service.get(id, { includeDeleted: true });
+		expect(result.revision).toEqual(2);
+		expect(result.aliases?.map(a => a.id)).toEqual(["foo123"]);
+		expect(result.resources?.map(r => r.dateDeleted)).toEqual([undefined, undefined]);
+
+		await expect(
+			service.patch(id, { aliases: { foo123: null } }, TEST_USER_IDENTITY, TEST_NODE_IDENTITY, {
+				expectedRevision: 1
+			})
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.patchFailed",
+			cause: { name: "ConflictError", message: "auditableItemGraphService.revisionMismatch" }
+		});
+
+		// A change made after the patch has read the vertex is not overwritten.
+		const update = service.update.bind(service);
+		vi.spyOn(service, "update").mockImplementationOnce(async (...args) => {
+			await update(
+				id,
+				{
+					"@context": "https://schema.org",
+					type: "Note",
+					content: "This is a concurrent change"
+				},
+				[{ id: "foo123" }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			);
+			return update(...args);
+		});
+		await expect(
+			service.patch(id, { aliases: { foo321: {} } }, TEST_USER_IDENTITY, TEST_NODE_IDENTITY)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.patchFailed",
+			cause: {
+				name: "GeneralError",
+				message: "auditableItemGraphService.updateFailed",
+				cause: { name: "ConflictError", message: "auditableItemGraphService.revisionMismatch" }
+			}
+		});
+		const concurrent = await service.get(id);
+		expect(concurrent.annotationObject).toMatchObject({
+			content: "This is a concurrent change"
+		});
+		expect(concurrent.aliases?.map(a => a.id)).toEqual(["foo123"]);
+	});
+
+	test("Can reject an update when the vertex has been modified since the expected revision", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		let result = await service.get(id);
+		expect(result.revision).toEqual(1);
+
+		await service.update(
+			id,
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is the first writer"
+			},
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY,
+			{ expectedRevision: 1 }
+		);
+
+		await expect(
+			service.update(
+				id,
+				{
+					"@context": "https://schema.org",
+					type: "Note",
+					content: "This is the second writer"
+				},
+				undefined,
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY,
+				{ expectedRevision: 1 }
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.updateFailed",
+			cause: {
+				name: "ConflictError",
+				message: "auditableItemGraphService.revisionMismatch",
+				properties: { conflictId: id }
+			}
+		});
+
+		result = await service.get(id);
+		expect(result.revision).toEqual(2);
+		expect(result.annotationObject).toMatchObject({
+			content: "This is the first writer"
+		});
+
+		const atCreation = await service.get(id, { asOf: new Date(FIRST_TICK).toISOString() });
+		expect(atCreation.revision).toEqual(1);
+	});
+
+	test("Can reject one of two concurrent updates for the same expected revision", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const outcomes = await Promise.allSettled(
+			["This is the first writer", "This is the second writer"].map(async content =>
+				service.update(
+					id,
+					{
+						"@context": "https://schema.org",
+						type: "Note",
+						content
+					},
+					undefined,
+					undefined,
+					undefined,
+					TEST_USER_IDENTITY,
+					TEST_NODE_IDENTITY,
+					{ expectedRevision: 1 }
+				)
+			)
+		);
+
+		expect(outcomes.map(o => o.status)).toEqual(["fulfilled", "rejected"]);
+		expect(outcomes[1]).toMatchObject({
+			reason: {
+				name: "GeneralError",
+				message: "auditableItemGraphService.updateFailed",
+				cause: {
+					name: "ConflictError",
+					message: "auditableItemGraphService.revisionMismatch"
+				}
+			}
+		});
+
+		const result = await service.get(id, { includeChangesets: true });
+		expect(result.revision).toEqual(2);
+		expect(result.changesets?.length).toEqual(2);
+		expect(result.annotationObject).toMatchObject({
+			content: "This is the first writer"
+		});
+	});
+
+	test("Can remove a vertex and still get it for auditing", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const otherId = await service.create(
+			undefined,
+			[{ id: "foo456" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.remove(id, TEST_USER_IDENTITY, TEST_NODE_IDENTITY);
+
+		await waitForProofGeneration(3);
+
+		const results = await service.query({ id: "foo" });
+		expect(results.vertices.map(v => `aig:${v.id}`)).toEqual([otherId]);
+
+		const withDeleted = await service.query({ id: "foo", includeDeleted: true });
+		expect(withDeleted.vertices.length).toEqual(2);
+
+		await expect(service.get(id)).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.getFailed",
+			cause: { name: "NotFoundError", message: "auditableItemGraphService.vertexNotFound" }
+		});
+
+		const result = await service.get(id, {
+			includeDeleted: true,
+			includeChangesets: true,
+			verifySignatureDepth: VerifyDepth.All
+		});
+		expect(result.dateDeleted).toBeDefined();
+		expect(result.dateModified).toEqual(result.dateDeleted);
+		expect(result.revision).toEqual(2);
+		expect(result.changesets?.length).toEqual(2);
+		expect(result.changesets?.[1].patches).toEqual([
+			expect.objectContaining({
+				patchOperation: "add",
+				patchPath: "/dateDeleted"
+			})
+		]);
+		expect(result.verified).toEqual(true);
+	});
+
+	test("Can not change a vertex once it has been removed", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.remove(id, TEST_USER_IDENTITY, TEST_NODE_IDENTITY);
+
+		await expect(
+			service.update(
+				id,
+				{
+					"@context": "https://schema.org",
+					type: "Note",
+					content: "This is an updated note"
+				},
+				undefined,
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.updateFailed",
+			cause: { name: "NotFoundError", message: "auditableItemGraphService.vertexNotFound" }
+		});
+
+		await expect(
+			service.patch(id, { aliases: { foo123: {} } }, TEST_USER_IDENTITY, TEST_NODE_IDENTITY)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.patchFailed",
+			cause: { name: "NotFoundError", message: "auditableItemGraphService.vertexNotFound" }
+		});
+
+		const removed = await service.get(id, { includeDeleted: true, includeChangesets: true });
+		await expect(
+			service.revert(id, removed.changesets?.[0].id ?? "", TEST_USER_IDENTITY, TEST_NODE_IDENTITY)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.revertFailed",
+			cause: { name: "NotFoundError", message: "auditableItemGraphService.vertexNotFound" }
+		});
+
+		const result = await service.get(id, { includeDeleted: true });
+		expect(result.revision).toEqual(2);
+		expect(result.annotationObject).toMatchObject({
+			content: "This is a simple note"
+		});
+
+		await waitForProofGeneration(2);
+	});
+
+	test("Can traverse the graph without passing through removed vertices", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+		const cId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const bId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: cId, edgeRelationship: "contains" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const aId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: bId, edgeRelationship: "contains" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.remove(bId, TEST_USER_IDENTITY, TEST_NODE_IDENTITY);
+
+		const outgoing = await service.traverse(aId, { maxDepth: 5 });
+		expect(outgoing.vertices.map(v => v.id)).toEqual([aId.slice(4)]);
+
+		const incoming = await service.traverse(cId, {
+			direction: EdgeDirection.Incoming,
+			maxDepth: 5
+		});
+		expect(incoming.vertices.map(v => v.id)).toEqual([cId.slice(4)]);
+
+		const path = await service.findPath(aId, cId);
+		expect(path.connected).toEqual(false);
+
+		const incomingEdges = await service.getIncomingEdges(cId);
+		expect(incomingEdges.edges).toEqual([]);
+		const retiredEdges = await service.getIncomingEdges(cId, { includeDeleted: true });
+		expect(retiredEdges.edges.map(e => e.id)).toEqual([bId.slice(4)]);
+		expect(retiredEdges.edges[0].dateDeleted).toBeDefined();
+
+		await expect(service.traverse(bId)).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.traverseFailed",
+			cause: { name: "NotFoundError", message: "auditableItemGraphService.vertexNotFound" }
+		});
+
+		await waitForProofGeneration(4);
+	});
+
+	test("Can create and update many vertices in a batch", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+		const created = await service.createMany(
+			[
+				{
+					localId: "pallet",
+					annotationObject: {
+						"@context": "https://schema.org",
+						type: "Note",
+						content: "This is a pallet"
+					},
+					aliases: [{ id: "pallet123" }]
+				},
+				{
+					annotationObject: {
+						"@context": "https://schema.org",
+						type: "Note",
+						content: "This is a box on the pallet"
+					},
+					edges: [{ localId: "pallet", edgeRelationship: "packedOn" }]
+				},
+				{
+					edges: [{ localId: "missing", edgeRelationship: "packedOn" }]
+				}
+			],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(2);
+
+		expect(created.length).toEqual(3);
+		expect(created[0].localId).toEqual("pallet");
+		expect(created[0].id).toBeDefined();
+		expect(created[0].error).toBeUndefined();
+		expect(created[1].id).toBeDefined();
+		expect(created[1].error).toBeUndefined();
+		expect(created[2].id).toBeUndefined();
+		expect(created[2].error).toMatchObject({
+			name: "ValidationError",
+			properties: {
+				validationFailures: [
+					{
+						property: "edges",
+						reason: "validation.auditableItemGraphService.batchLocalIdNotFound",
+						properties: { localId: "missing" }
+					}
+				]
+			}
+		});
+
+		const box = await service.get(created[1].id ?? "");
+		expect(box.edges?.map(e => e.id)).toEqual([created[0].id]);
+
+		const incoming = await service.getIncomingEdges(created[0].id ?? "");
+		expect(incoming.edges.map(e => e.id)).toEqual([created[1].id?.slice(4)]);
+
+		const updated = await service.updateMany(
+			[
+				{
+					id: created[0].id ?? "",
+					annotationObject: {
+						"@context": "https://schema.org",
+						type: "Note",
+						content: "This is an updated pallet"
+					},
+					aliases: [{ id: "pallet123" }]
+				},
+				{
+					id: "aig:0909090909090909090909090909090909090909090909090909090909090909"
+				}
+			],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		expect(updated[0]).toEqual({ id: created[0].id });
+		expect(updated[1].error).toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.updateFailed"
+		});
+
+		const pallet = await service.get(created[0].id ?? "");
+		expect(pallet.annotationObject).toMatchObject({
+			content: "This is an updated pallet"
+		});
+	});
+
+	test("Can check every item in a batch update before any of the vertices are updated", async () => {
+		const service = new AuditableItemGraphService({ config: {} });
+
+		AuditableItemGraphRelationships.register({
+			term: "derivedFrom",
+			acyclic: true
+		});
+
+		const created = await service.createMany([{}, {}, {}], TEST_USER_IDENTITY, TEST_NODE_IDENTITY);
+		const firstId = created[0].id ?? "";
+		const secondId = created[1].id ?? "";
+		const otherId = created[2].id ?? "";
+
+		// The edges only form a cycle together, so neither of them is stored.
+		const updated = await service.updateMany(
+			[
+				{ id: firstId, edges: [{ id: secondId, edgeRelationship: "derivedFrom" }] },
+				{ id: secondId, edges: [{ id: firstId, edgeRelationship: "derivedFrom" }] },
+				{
+					id: otherId,
+					annotationObject: {
+						"@context": "https://schema.org",
+						type: "Note",
+						content: "This is an updated note"
+					}
+				}
+			],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		expect(updated[0].error).toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.updateFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{ reason: "validation.auditableItemGraphService.edgeRelationshipCycle" }
+					]
+				}
+			}
+		});
+		expect(updated[1].error).toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.updateFailed"
+		});
+		expect(updated[2]).toEqual({ id: otherId });
+
+		const first = await service.get(firstId);
+		expect(first.revision).toEqual(1);
+		const second = await service.get(secondId);
+		expect(second.revision).toEqual(1);
+		const other = await service.get(otherId);
+		expect(other.annotationObject).toMatchObject({ content: "This is an updated note" });
+	});
+
+	test("Can create a batch without leaving inverse edges to vertices which failed", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+		const created = await service.createMany(
+			[
+				{
+					localId: "pallet"
+				},
+				{
+					edges: [
+						{ localId: "pallet", edgeRelationship: "packedOn", inverseRelationship: "carries" }
+					],
+					resources: [
+						{
+							resourceObject: {
+								"@context": "https://schema.org",
+								type: "Note",
+								content: "This resource has no id"
+							}
+						}
+					]
+				}
+			],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(1);
+
+		expect(created[0].error).toBeUndefined();
+		expect(created[1].id).toBeUndefined();
+		expect(created[1].error).toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.resourceIdMissing"
+		});
+
+		const pallet = await service.get(created[0].id ?? "", { includeChangesets: true });
+		expect(pallet.edges).toBeUndefined();
+		expect(pallet.changesets?.length).toEqual(1);
+		expect(vertexStorage.getStore().length).toEqual(1);
+		expect(incomingEdgeStorage.getStore()).toEqual([]);
+	});
+
+	test("Can reject a batch item whose inverse edge conflicts with an edge in the batch", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+		const created = await service.createMany(
+			[
+				{
+					localId: "pallet",
+					edges: [{ localId: "box", edgeRelationship: "nextTo" }]
+				},
+				{
+					localId: "box",
+					edges: [
+						{ localId: "pallet", edgeRelationship: "packedOn", inverseRelationship: "carries" }
+					]
+				}
+			],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(1);
+
+		expect(created[0].error).toBeUndefined();
+		expect(created[1].id).toBeUndefined();
+		expect(created[1].error).toMatchObject({
+			name: "ValidationError",
+			properties: {
+				validationFailures: [
+					{
+						property: "inverseRelationship",
+						reason: "validation.auditableItemGraphService.edgeInverseConflict",
+						properties: {
+							id: created[0].id,
+							edgeRelationship: "nextTo",
+							inverseRelationship: "carries"
+						}
+					}
+				]
+			}
+		});
+
+		const pallet = await service.get(created[0].id ?? "");
+		expect(pallet.edges).toMatchObject([{ edgeRelationship: "nextTo" }]);
+		expect(vertexStorage.getStore().length).toEqual(1);
+	});
+
+	test("Can repeat a create with the same idempotency key without creating a duplicate", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+		const id = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY,
+			{ idempotencyKey: "request-1" }
+		);
+
+		const repeatedId = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY,
+			{ idempotencyKey: "request-1" }
+		);
+
+		expect(repeatedId).toEqual(id);
+		expect(vertexStorage.getStore().length).toEqual(1);
+		expect(vertexStorage.getStore()[0]).toMatchObject({
+			idempotencyKey: "request-1"
+		});
+
+		const conflictError = await service
+			.create(
+				{
+					"@context": "https://schema.org",
+					type: "Note",
+					content: "This is a different note"
+				},
+				[{ id: "foo123" }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY,
+				{ idempotencyKey: "request-1" }
+			)
+			.catch(error => error);
+		expect(conflictError).toMatchObject({
+			name: "ConflictError",
+			message: "auditableItemGraphService.idempotencyKeyConflict"
+		});
+		expect(HttpErrorHelper.processError(conflictError).httpStatusCode).toEqual(
+			HttpStatusCode.conflict
+		);
+
+		const otherId = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY,
+			{ idempotencyKey: "request-2" }
+		);
+		expect(otherId).not.toEqual(id);
+
+		await waitForProofGeneration(2);
+	});
+
+	test("Can scope idempotency keys to the user and reserve them against concurrent retries", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+
+		const retries = await Promise.all(
+			[1, 2, 3].map(async () =>
+				service.create(
+					undefined,
+					[{ id: "foo123" }],
+					undefined,
+					undefined,
+					TEST_USER_IDENTITY,
+					TEST_NODE_IDENTITY,
+					{ idempotencyKey: "request-1" }
+				)
+			)
+		);
+		expect(new Set(retries).size).toEqual(1);
+		expect(vertexStorage.getStore().length).toEqual(1);
+
+		const otherUserId = await service.create(
+			undefined,
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			"did:entity-storage:0xother",
+			TEST_NODE_IDENTITY,
+			{ idempotencyKey: "request-1" }
+		);
+		expect(otherUserId).not.toEqual(retries[0]);
+		expect(vertexStorage.getStore().length).toEqual(2);
+		expect(vertexStorage.getStore()[1]).toMatchObject({
+			idempotencyKey: "request-1",
+			idempotencyUserIdentity: "did:entity-storage:0xother"
+		});
+
+		await waitForProofGeneration(2);
+	});
+
+	test("Can enforce unique aliases and resolve an alias to its vertex", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({
+			config: { aliasUniqueness: AliasUniqueness.Global }
+		});
+		const id = await service.create(
+			undefined,
+			[{ id: "foo123", aliasFormat: "type1" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		expect(aliasIndexStorage.getStore()).toMatchObject([
+			{
+				aliasId: "foo123",
+				aliasFormat: "type1",
+				vertexId: id.slice(4)
+			}
+		]);
+
+		await expect(
+			service.create(
+				undefined,
+				[{ id: "foo123", aliasFormat: "type2" }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.createFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "aliases",
+							reason: "validation.auditableItemGraphService.aliasNotUnique",
+							properties: {
+								id: "foo123",
+								vertexId: id
+							}
+						}
+					]
+				}
+			}
+		});
+
+		const resolvedId = await service.resolveAlias("foo123");
+		expect(resolvedId).toEqual(id);
+
+		await expect(service.resolveAlias("foo123", "type2")).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.resolveAliasFailed",
+			cause: {
+				name: "NotFoundError",
+				message: "auditableItemGraphService.aliasNotFound"
+			}
+		});
+
+		await service.update(
+			id,
+			undefined,
+			[],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		expect(aliasIndexStorage.getStore()).toEqual([]);
+
+		await waitForProofGeneration(2);
+	});
+
+	test("Can query for vertices with an exact alias match", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+		const id1 = await service.create(
+			undefined,
+			[{ id: "A1234", aliasFormat: "part" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const id2 = await service.create(
+			undefined,
+			[{ id: "123", aliasFormat: "serial" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		await service.create(
+			undefined,
+			[{ id: "9123", aliasFormat: "serial" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const includes = await service.query({ id: "123", idMode: "alias" });
+		expect(includes.vertices.length).toEqual(3);
+
+		const exact = await service.query({ id: "123", idMode: "alias", aliasMatch: "exact" });
+		expect(exact.vertices.map(v => `aig:${v.id}`)).toEqual([id2]);
+
+		const caseInsensitive = await service.query({
+			id: "a1234",
+			idMode: "alias",
+			aliasMatch: "exact"
+		});
+		expect(caseInsensitive.vertices.map(v => `aig:${v.id}`)).toEqual([id1]);
+
+		const caseSensitive = await service.query({
+			id: "a1234",
+			idMode: "alias",
+			aliasMatch: "exact",
+			aliasCaseSensitive: true
+		});
+		expect(caseSensitive.vertices).toEqual([]);
+
+		const otherFormat = await service.query({
+			id: "A1234",
+			idMode: "alias",
+			aliasMatch: "exact",
+			aliasFormat: "serial"
+		});
+		expect(otherFormat.vertices).toEqual([]);
+
+		await waitForProofGeneration(3);
+	});
+
+	test("Can validate and normalise aliases with a registered alias format", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({ config: {} });
+
+		await expect(
+			service.create(
+				undefined,
+				[{ id: "4006381333932", aliasFormat: AliasFormat.Gtin }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.createFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "aliases",
+							reason: "validation.auditableItemGraphAliasFormats.checkDigitInvalid"
+						}
+					]
+				}
+			}
+		});
+
+		const id = await service.create(
+			undefined,
+			[
+				{ id: "4006381333931", aliasFormat: AliasFormat.Gtin },
+				{ id: "free text", aliasFormat: "type1" }
+			],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const vertex = await service.get(id);
+		expect(vertex.aliases?.map(a => a.id)).toEqual(["04006381333931", "free text"]);
+
+		await service.update(
+			id,
+			undefined,
+			[
+				{ id: "4006381333931", aliasFormat: AliasFormat.Gtin },
+				{ id: "free text", aliasFormat: "type1" }
+			],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		expect(changesetStorage.getStore().length).toEqual(1);
+
+		await waitForProofGeneration(1);
+	});
+
+	test("Can reject edges to missing or deleted vertices and audit the integrity of the graph", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		const service = new AuditableItemGraphService({
+			config: { edgeIntegrity: EdgeIntegrity.Active }
+		});
+		const targetId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await expect(
+			service.create(
+				undefined,
+				undefined,
+				undefined,
+				[{ id: "aig:1234567890", edgeRelationship: "friend" }],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.createFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "id",
+							reason: "validation.auditableItemGraphService.edgeTargetNotFound",
+							properties: { id: "aig:1234567890" }
+						}
+					]
+				}
+			}
+		});
+
+		const sourceId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: targetId, edgeRelationship: "friend" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		expect(await service.auditIntegrity()).toEqual([]);
+
+		await service.remove(targetId, TEST_USER_IDENTITY, TEST_NODE_IDENTITY);
+
+		await expect(
+			service.create(
+				undefined,
+				undefined,
+				undefined,
+				[{ id: targetId.slice(4), edgeRelationship: "friend" }],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.createFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "id",
+							reason: "validation.auditableItemGraphService.edgeTargetDeleted"
+						}
+					]
+				}
+			}
+		});
+
+		expect(await service.auditIntegrity()).toEqual([
+			{
+				vertexId: sourceId,
+				edgeId: targetId,
+				edgeRelationship: "friend",
+				reason: "deleted"
+			}
+		]);
+
+		await waitForProofGeneration(3);
+	});
+
+	test("Can enforce the constraints of the edge relationship vocabulary", async () => {
+		let counter = 0;
+		RandomHelper.generate = vi
+			.fn()
+			.mockImplementation(length => new Uint8Array(length).fill(++counter));
+
+		AuditableItemGraphRelationships.register({
+			term: "carries",
+			inverse: "loadedOn",
+			sourceTypes: ["Note"],
+			cardinality: EdgeCardinality.OneToMany
+		});
+
+		expect(AuditableItemGraphRelationships.getContext()).toMatchObject({
+			carries: { "@id": "https://schema.twindev.org/aig/carries", "@type": "@id" },
+			loadedOn: { "@reverse": "https://schema.twindev.org/aig/carries", "@type": "@id" }
+		});
+
+		const service = new AuditableItemGraphService({
+			config: { registeredEdgeRelationshipsOnly: true }
+		});
+		await service.start();
+
+		const expanded = await JsonLdProcessor.expand({
+			"@context": AuditableItemGraphTypes.ContextRelationships,
+			"@id": "urn:test:container",
+			carries: "urn:test:note"
+		});
+		expect(expanded).toEqual([
+			{
+				"@id": "urn:test:container",
+				"https://schema.twindev.org/aig/carries": [{ "@id": "urn:test:note" }]
+			}
+		]);
+
+		const note = {
+			"@context": "https://schema.org",
+			type: "Note",
+			content: "This is a simple note"
+		};
+
+		const itemId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.create(
+			note,
+			undefined,
+			undefined,
+			[{ id: itemId, edgeRelationship: "carries" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await expect(
+			service.create(
+				note,
+				undefined,
+				undefined,
+				[{ id: itemId, edgeRelationship: "carries" }],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.createFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "edgeRelationship",
+							reason: "validation.auditableItemGraphService.edgeRelationshipCardinality",
+							properties: { edgeRelationship: "carries", cardinality: "one-to-many" }
+						}
+					]
+				}
+			}
+		});
+
+		await expect(
+			service.create(
+				undefined,
+				undefined,
+				undefined,
+				[{ id: itemId, edgeRelationship: "Carries" }],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.createFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "edgeRelationship",
+							reason: "validation.auditableItemGraphService.edgeRelationshipNotRegistered",
+							properties: { edgeRelationship: "Carries" }
+						}
+					]
+				}
+			}
+		});
+
+		const otherItemId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await expect(
+			service.create(
+				undefined,
+				undefined,
+				undefined,
+				[{ id: otherItemId, edgeRelationship: "carries" }],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.createFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "edgeRelationship",
+							reason: "validation.auditableItemGraphService.edgeRelationshipSourceType",
+							properties: { edgeRelationship: "carries", types: "Note" }
+						}
+					]
+				}
+			}
+		});
+
+		await waitForProofGeneration(3);
+	});
+
+	test("Can maintain the inverse edge on the target vertex", async () => {
+		const service = new AuditableItemGraphService();
+
+		const boxId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const palletId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: boxId, edgeRelationship: "contains", inverseRelationship: "containedIn" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const box = await service.get(boxId, { includeChangesets: true });
+		expect(box.edges).toMatchObject([
+			{
+				id: palletId,
+				dateCreated: "2024-08-22T11:55:16.271Z",
+				edgeRelationship: "containedIn",
+				inverseRelationship: "contains"
+			}
+		]);
+		expect(box.changesets?.length).toEqual(2);
+
+		await service.update(
+			palletId,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const boxAfterRemoval = await service.get(boxId, {
+			includeDeleted: true,
+			includeChangesets: true
+		});
+		expect(boxAfterRemoval.edges).toMatchObject([
+			{
+				id: palletId,
+				dateDeleted: "2024-08-22T11:56:56.272Z",
+				edgeRelationship: "containedIn"
+			}
+		]);
+		expect(boxAfterRemoval.changesets?.length).toEqual(3);
+		expect(boxAfterRemoval.revision).toEqual(3);
+
+		await waitForProofGeneration(5);
+	});
+
+	test("Can maintain the inverse edge without losing a concurrent update of the target vertex", async () => {
+		const service = new AuditableItemGraphService();
+
+		const boxId = await service.create(
+			undefined,
+			[{ id: "box1" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const palletId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await Promise.all([
+			service.update(
+				palletId,
+				undefined,
+				undefined,
+				undefined,
+				[{ id: boxId, edgeRelationship: "contains", inverseRelationship: "containedIn" }],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			),
+			service.update(
+				boxId,
+				undefined,
+				[{ id: "box1" }, { id: "box2" }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		]);
+
+		// Both changes to the box are kept, one after the other in its changeset chain.
+		const box = await service.get(boxId);
+		expect(box.aliases?.map(a => a.id)).toEqual(["box1", "box2"]);
+		expect(box.revision).toEqual(3);
+
+		const changesets = await service.getChangesets(boxId, { verify: true });
+		expect(changesets.changesets.map(c => c.chainFailure)).toEqual([
+			undefined,
+			undefined,
+			undefined
+		]);
+
+		await waitForProofGeneration(5);
+	});
+
+	test("Can keep the inverse edge on the target vertex when a vertex is patched", async () => {
+		const service = new AuditableItemGraphService();
+
+		const boxId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const palletId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: boxId, edgeRelationship: "contains", inverseRelationship: "containedIn" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.patch(
+			palletId,
+			{ aliases: { pallet1: {} } },
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const pallet = await service.get(palletId);
+		expect(pallet.aliases?.map(a => a.id)).toEqual(["pallet1"]);
+		expect(pallet.edges).toMatchObject([
+			{ id: boxId, edgeRelationship: "contains", inverseRelationship: "containedIn" }
+		]);
+
+		const box = await service.get(boxId, { includeDeleted: true });
+		expect(box.edges?.length).toEqual(1);
+		expect(box.edges?.[0].dateDeleted).toBeUndefined();
+		expect(box.revision).toEqual(2);
+
+		await waitForProofGeneration(4);
+	});
+
+	test("Can reject an inverse edge which conflicts with an edge on the target vertex", async () => {
+		const service = new AuditableItemGraphService();
+
+		const palletId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		const boxId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: palletId, edgeRelationship: "nextTo" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await expect(
+			service.update(
+				palletId,
+				undefined,
+				undefined,
+				undefined,
+				[{ id: boxId, edgeRelationship: "contains", inverseRelationship: "containedIn" }],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.updateFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "inverseRelationship",
+							reason: "validation.auditableItemGraphService.edgeInverseConflict",
+							properties: {
+								id: boxId,
+								edgeRelationship: "nextTo",
+								inverseRelationship: "containedIn"
+							}
+						}
+					]
+				}
+			}
+		});
+
+		const box = await service.get(boxId);
+		expect(box.edges).toMatchObject([{ id: palletId, edgeRelationship: "nextTo" }]);
+		expect(box.revision).toEqual(1);
+
+		await waitForProofGeneration(2);
+	});
+
+	test("Can reject an inverse edge which breaks the constraints of its relationship", async () => {
+		const service = new AuditableItemGraphService();
+
+		AuditableItemGraphRelationships.register({
+			term: "contains",
+			inverse: "containedIn",
+			targetTypes: ["Product"]
+		});
+
+		const boxId = await service.create(
+			{
+				"@context": "https://schema.org",
+				type: "Note",
+				content: "This is a simple note"
+			},
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await expect(
+			service.create(
+				undefined,
+				undefined,
+				undefined,
+				[{ id: boxId, edgeRelationship: "holds", inverseRelationship: "containedIn" }],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.createFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "edgeRelationship",
+							reason: "validation.auditableItemGraphService.edgeRelationshipSourceType",
+							properties: { edgeRelationship: "containedIn", types: "Product" }
+						}
+					]
+				}
+			}
+		});
+
+		const box = await service.get(boxId);
+		expect(box.edges).toBeUndefined();
+
+		await waitForProofGeneration(1);
+	});
+
+	test("Can reject an edge which closes a cycle for an acyclic relationship", async () => {
+		const service = new AuditableItemGraphService();
+
+		AuditableItemGraphRelationships.register({
+			term: "derivedFrom",
+			acyclic: true
+		});
+
+		const firstId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const secondId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: firstId, edgeRelationship: "derivedFrom" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const thirdId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: secondId, edgeRelationship: "derivedFrom" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await expect(
+			service.update(
+				firstId,
+				undefined,
+				undefined,
+				undefined,
+				[{ id: thirdId, edgeRelationship: "derivedFrom" }],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.updateFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "edgeRelationship",
+							reason: "validation.auditableItemGraphService.edgeRelationshipCycle",
+							properties: {
+								edgeRelationship: "derivedFrom",
+								path: `${firstId} -> ${thirdId} -> ${secondId} -> ${firstId}`
+							}
+						}
+					]
+				}
+			}
+		});
+
+		// Other relationships between the same vertices can still form a cycle.
+		await service.update(
+			firstId,
+			undefined,
+			undefined,
+			undefined,
+			[{ id: thirdId, edgeRelationship: "relatedTo" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(4);
+	});
+
+	test("Can reject an edge which closes a cycle through the inverse relationship", async () => {
+		const service = new AuditableItemGraphService();
+
+		AuditableItemGraphRelationships.register({
+			term: "derivedFrom",
+			inverse: "sourceOf",
+			acyclic: true
+		});
+
+		const firstId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const secondId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: firstId, edgeRelationship: "derivedFrom" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const thirdId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: secondId, edgeRelationship: "derivedFrom" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		// The third vertex being the source of the first is the first being derived from the third.
+		await expect(
+			service.update(
+				thirdId,
+				undefined,
+				undefined,
+				undefined,
+				[
+					{ id: secondId, edgeRelationship: "derivedFrom" },
+					{ id: firstId, edgeRelationship: "sourceOf" }
+				],
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.updateFailed",
+			cause: {
+				name: "ValidationError",
+				properties: {
+					validationFailures: [
+						{
+							property: "edgeRelationship",
+							reason: "validation.auditableItemGraphService.edgeRelationshipCycle",
+							properties: {
+								edgeRelationship: "sourceOf",
+								path: `${thirdId} -> ${firstId} -> ${secondId} -> ${thirdId}`
+							}
+						}
+					]
+				}
+			}
+		});
+
+		await waitForProofGeneration(3);
+	});
+
+	test("Can reject a batch item which closes a cycle with another item in the batch", async () => {
+		const service = new AuditableItemGraphService();
+
+		AuditableItemGraphRelationships.register({
+			term: "derivedFrom",
+			acyclic: true
+		});
+
+		const created = await service.createMany(
+			[
+				{
+					localId: "first",
+					edges: [{ localId: "second", edgeRelationship: "derivedFrom" }]
+				},
+				{
+					localId: "second",
+					edges: [{ localId: "first", edgeRelationship: "derivedFrom" }]
+				}
+			],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(1);
+
+		expect(created[0].id).toBeUndefined();
+		expect(created[0].error).toMatchObject({
+			name: "ValidationError",
+			properties: {
+				validationFailures: [
+					{
+						property: "edgeRelationship",
+						reason: "validation.auditableItemGraphService.edgeRelationshipCycle",
+						properties: {
+							edgeRelationship: "derivedFrom"
+						}
+					}
+				]
+			}
+		});
+		expect(created[1].error).toBeUndefined();
+		expect(vertexStorage.getStore().length).toEqual(1);
+	});
+
+	test("Can export a subgraph with its changesets and proofs", async () => {
+		const service = new AuditableItemGraphService();
+
+		const childId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const parentId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			[{ id: childId, edgeRelationship: "contains" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(2);
+
+		const exported = await service.exportSubgraph(parentId);
+		expect(exported).toMatchObject({
+			type: "AuditableItemGraphExport",
+			rootId: parentId
+		});
+
+		const graph = exported["@graph"] as { type: string; id: string; proofObjectId?: string }[];
+		const vertices = graph.filter(n => n.type === "AuditableItemGraphVertex");
+		const changesets = graph.filter(n => n.type === "AuditableItemGraphChangeset");
+		const proofs = graph.filter(n => n.type === "ImmutableProof");
+
+		expect(vertices.map(v => `aig:${v.id}`)).toEqual([parentId, childId]);
+		expect(changesets.length).toEqual(2);
+		expect(changesets[0].id.startsWith(`${parentId}:changeset:`)).toEqual(true);
+		expect(changesets[1].id.startsWith(`${childId}:changeset:`)).toEqual(true);
+		expect(proofs.map(p => p.proofObjectId)).toEqual(changesets.map(c => c.id));
+
+		const withoutProofs = await service.exportSubgraph(parentId, {
+			depth: 0,
+			includeProofs: false
+		});
+		expect(withoutProofs["@graph"].map(n => n.type)).toEqual([
+			"AuditableItemGraphVertex",
+			"AuditableItemGraphChangeset"
+		]);
+	});
+
+	test("Can detect an export which is not bound to its changesets", async () => {
+		const service = new AuditableItemGraphService();
+
+		const childId = await service.create(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		const parentId = await service.create(
+			{ "@context": "https://schema.org", "@type": "Note", content: "This is a simple note" },
+			[{ id: "foo123" }],
+			undefined,
+			[{ id: childId, edgeRelationship: "contains" }],
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(2);
+
+		const withoutChangesets = await service.exportSubgraph(parentId, {
+			includeChangesets: false
+		});
+		const unbound = await AuditableItemGraphExportVerifier.verifyExport(withoutChangesets, {});
+		expect(unbound).toEqual({
+			verified: false,
+			vertices: [
+				{ vertexId: parentId, verified: false, failure: "changesetsMissing", changesets: [] },
+				{ vertexId: childId, verified: false, failure: "changesetsMissing", changesets: [] }
+			]
+		});
+
+		const exported = await service.exportSubgraph(parentId);
+		const verificationKeys = await getVerificationKeys();
+		const genuine = await AuditableItemGraphExportVerifier.verifyExport(exported, verificationKeys);
+		expect(genuine.verified).toEqual(true);
+		expect(genuine.vertices.map(v => v.vertexId)).toEqual([parentId, childId]);
+
+		const parent = exported["@graph"][0] as IAuditableItemGraphVertex;
+		parent.annotationObject = {
+			"@context": "https://schema.org",
+			"@type": "Note",
+			content: "This note has been altered"
+		};
+		const altered = await AuditableItemGraphExportVerifier.verifyExport(exported, {});
+		expect(altered.verified).toEqual(false);
+		expect(altered.vertices[0]).toMatchObject({
+			vertexId: parentId,
+			verified: false,
+			failure: "stateMismatch"
+		});
+
+		exported["@graph"] = exported["@graph"].slice(1);
+		const withoutRoot = await AuditableItemGraphExportVerifier.verifyExport(exported, {});
+		expect(withoutRoot.verified).toEqual(false);
+		expect(withoutRoot.failure).toEqual("rootVertexMissing");
+		expect(withoutRoot.vertices.map(v => v.vertexId)).toEqual([childId]);
+	});
+
+	test("Can verify an export of a vertex with several changesets", async () => {
+		const service = new AuditableItemGraphService();
+
+		const id = await service.create(
+			undefined,
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		for (const aliasId of ["bar456", "baz789"]) {
+			await service.update(
+				id,
+				undefined,
+				[{ id: aliasId }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			);
+		}
+
+		await waitForProofGeneration(3);
+
+		const exported = await service.exportSubgraph(id);
+		const verification = await AuditableItemGraphExportVerifier.verifyExport(
+			exported,
+			await getVerificationKeys()
+		);
+		expect(verification.verified).toEqual(true);
+		expect(verification.vertices[0].changesets).toEqual(
+			exported["@graph"]
+				.filter(node => node.type === "AuditableItemGraphChangeset")
+				.map(node => ({ changesetId: node.id, verified: true }))
+		);
+		expect(verification.vertices[0].changesets.length).toEqual(3);
+	});
+
+	test("Can get a verification bundle and verify it without the node", async () => {
+		const service = new AuditableItemGraphService();
+
+		const id = await service.create(
+			{ "@context": "https://schema.org", "@type": "Note", content: "This is a simple note" },
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration();
+
+		const bundle = await service.getVerificationBundle(id);
+		expect(bundle).toMatchObject({
+			type: "AuditableItemGraphVerificationBundle",
+			vertexId: id
+		});
+		expect(bundle.entries.length).toEqual(1);
+		expect(bundle.entries[0].proofObject.id).toEqual(
+			`${id}:changeset:${bundle.entries[0].changeset.id}`
+		);
+		expect(bundle.entries[0].immutableProof?.proofObjectId).toEqual(
+			bundle.entries[0].proofObject.id
+		);
+
+		const withoutKeys = await AuditableItemGraphBundleVerifier.verifyBundle(bundle, {});
+		expect(withoutKeys).toEqual({
+			verified: false,
+			changesets: [
+				{
+					changesetId: bundle.entries[0].changeset.id,
+					verified: false,
+					failure: "keyMissing"
+				}
+			]
+		});
+
+		bundle.entries[0].changeset.userIdentity = "did:entity-storage:0x1111";
+		const tampered = await AuditableItemGraphBundleVerifier.verifyBundle(bundle, {});
+		expect(tampered.changesets[0].failure).toEqual("proofObjectMismatch");
+	});
+
+	test("Can detect a verification bundle with a changeset id which does not match its proof object", async () => {
+		const service = new AuditableItemGraphService();
+
+		const id = await service.create(
+			{ "@context": "https://schema.org", "@type": "Note", content: "This is a simple note" },
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration();
+
+		const bundle = await service.getVerificationBundle(id);
+		const verificationKeys = await getVerificationKeys();
+		const changesetId = bundle.entries[0].changeset.id;
+
+		bundle.entries[0].changeset.id = bundle.entries[0].proofObject.id;
+		let verification = await AuditableItemGraphBundleVerifier.verifyBundle(
+			bundle,
+			verificationKeys
+		);
+		expect(verification.verified).toEqual(true);
+
+		bundle.entries[0].changeset.id = "0".repeat(changesetId.length);
+		verification = await AuditableItemGraphBundleVerifier.verifyBundle(bundle, verificationKeys);
+		expect(verification.verified).toEqual(false);
+		expect(verification.changesets[0].failure).toEqual("proofObjectMismatch");
+	});
+
+	test("Can verify a genuine verification bundle", async () => {
+		const service = new AuditableItemGraphService();
+
+		const id = await service.create(
+			{ "@context": "https://schema.org", "@type": "Note", content: "This is a simple note" },
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		await service.update(
+			id,
+			{ "@context": "https://schema.org", "@type": "Note", content: "This is an updated note" },
+			[{ id: "foo123" }, { id: "bar456" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(2);
+
+		const bundle = await service.getVerificationBundle(id);
+		const verification = await AuditableItemGraphBundleVerifier.verifyBundle(
+			bundle,
+			await getVerificationKeys()
+		);
+		expect(verification).toEqual({
+			verified: true,
+			changesets: bundle.entries.map(entry => ({
+				changesetId: entry.changeset.id,
+				verified: true
+			}))
+		});
+	});
+
+	test("Can detect a verification bundle with an altered proof hash", async () => {
+		const service = new AuditableItemGraphService();
+
+		const id = await service.create(
+			{ "@context": "https://schema.org", "@type": "Note", content: "This is a simple note" },
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration();
+
+		const bundle = await service.getVerificationBundle(id);
+		const immutableProof = bundle.entries[0].immutableProof;
+		if (Is.object(immutableProof)) {
+			immutableProof.proofObjectHash = `sha256:${Converter.bytesToBase64(new Uint8Array(32))}`;
+		}
+
+		const verification = await AuditableItemGraphBundleVerifier.verifyBundle(
+			bundle,
+			await getVerificationKeys()
+		);
+		expect(verification).toEqual({
+			verified: false,
+			changesets: [
+				{
+					changesetId: bundle.entries[0].changeset.id,
+					verified: false,
+					failure: "hashMismatch"
+				}
+			]
+		});
+	});
+
+	test("Can detect a verification bundle with an altered proof signature", async () => {
+		const service = new AuditableItemGraphService();
+
+		const id = await service.create(
+			{ "@context": "https://schema.org", "@type": "Note", content: "This is a simple note" },
+			undefined,
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration();
+
+		const bundle = await service.getVerificationBundle(id);
+		const proof = bundle.entries[0].immutableProof?.proof;
+		if (Is.object<IDataIntegrityProof>(proof)) {
+			proof.proofValue = `z${Converter.bytesToBase58(new Uint8Array(64).fill(1))}`;
+		}
+
+		const verification = await AuditableItemGraphBundleVerifier.verifyBundle(
+			bundle,
+			await getVerificationKeys()
+		);
+		expect(verification).toEqual({
+			verified: false,
+			changesets: [
+				{
+					changesetId: bundle.entries[0].changeset.id,
+					verified: false,
+					failure: "signatureMismatch"
+				}
+			]
+		});
+	});
+
+	test("Can detect gaps, reorderings and forks in the changeset chain", async () => {
+		const service = new AuditableItemGraphService();
+
+		const id = await service.create(
+			undefined,
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		for (const aliasId of ["bar456", "baz789"]) {
+			await service.update(
+				id,
+				undefined,
+				[{ id: aliasId }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			);
+		}
+
+		await waitForProofGeneration(3);
+
+		const changesetStore = changesetStorage.getStore().map(c => ObjectHelper.clone(c));
+		expect(changesetStore[0].previousChangesetId).toBeUndefined();
+		expect(changesetStore[1].previousChangesetId).toEqual(changesetStore[0].id);
+		expect(changesetStore[2].previousChangesetId).toEqual(changesetStore[1].id);
+
+		let result = await service.get(id, {
+			includeChangesets: true,
+			verifySignatureDepth: VerifyDepth.All
+		});
+		expect(result.verified).toEqual(true);
+		expect(result.changesets?.map(c => c.chainFailure)).toEqual([undefined, undefined, undefined]);
+
+		await changesetStorage.set({
+			...changesetStore[2],
+			dateCreated: changesetStore[0].dateCreated
+		});
+		result = await service.get(id, {
+			includeChangesets: true,
+			verifySignatureDepth: VerifyDepth.All
+		});
+		expect(result.verified).toEqual(false);
+		expect(result.changesets?.map(c => c.chainFailure)).toEqual([
+			undefined,
+			"reordered",
+			"reordered"
+		]);
+
+		await changesetStorage.set(changesetStore[2]);
+		await changesetStorage.set({
+			...changesetStore[2],
+			id: "0909090909090909090909090909090909090909090909090909090909090909"
+		});
+		result = await service.get(id, {
+			includeChangesets: true,
+			verifySignatureDepth: VerifyDepth.Current
+		});
+		expect(result.verified).toEqual(false);
+		expect(result.changesets?.[3].chainFailure).toEqual("fork");
+
+		await changesetStorage.remove(
+			"0909090909090909090909090909090909090909090909090909090909090909"
+		);
+		await changesetStorage.remove(changesetStore[1].id);
+		result = await service.get(id, {
+			includeChangesets: true,
+			verifySignatureDepth: VerifyDepth.All
+		});
+		expect(result.verified).toEqual(false);
+		expect(result.changesets?.map(c => c.chainFailure)).toEqual([undefined, "gap"]);
+	});
+
+	test("Can detect a removed last changeset and a removed link in the changeset chain", async () => {
+		const service = new AuditableItemGraphService();
+
+		const id = await service.create(
+			undefined,
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		for (const aliasId of ["bar456", "baz789"]) {
+			await service.update(
+				id,
+				undefined,
+				[{ id: aliasId }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			);
+		}
+
+		await waitForProofGeneration(3);
+
+		const changesetStore = changesetStorage.getStore().map(c => ObjectHelper.clone(c));
+		expect(vertexStorage.getStore()[0].lastChangesetId).toEqual(changesetStore[2].id);
+
+		await changesetStorage.remove(changesetStore[2].id);
+		const result = await service.get(id, {
+			includeChangesets: true,
+			verifySignatureDepth: VerifyDepth.All
+		});
+		expect(result.verified).toEqual(false);
+		expect(result.changesets?.map(c => c.chainFailure)).toEqual([undefined, "gap"]);
+
+		let changesetList = await service.getChangesets(id, { verify: true });
+		expect(changesetList.changesets.map(c => c.chainFailure)).toEqual([undefined, "gap"]);
+
+		await changesetStorage.set({
+			...changesetStore[2],
+			previousChangesetId: undefined,
+			previousChangesetHash: undefined
+		});
+		changesetList = await service.getChangesets(id, { verify: true });
+		expect(changesetList.changesets.map(c => c.chainFailure)).toEqual([
+			undefined,
+			undefined,
+			"linkMissing"
+		]);
+	});
+
+	test("Can update and verify a vertex stored before revisions and changeset links were introduced", async () => {
+		const service = new AuditableItemGraphService();
+
+		const id = await service.create(
+			undefined,
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		await service.update(
+			id,
+			undefined,
+			[{ id: "bar456" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await waitForProofGeneration(2);
+
+		await vertexStorage.set({
+			...vertexStorage.getStore()[0],
+			revision: undefined,
+			lastChangesetId: undefined,
+			lastChangesetHash: undefined
+		});
+		for (const changesetEntity of changesetStorage.getStore().map(c => ObjectHelper.clone(c))) {
+			await changesetStorage.set({
+				...changesetEntity,
+				previousChangesetId: undefined,
+				previousChangesetHash: undefined
+			});
+		}
+
+		let exported = await service.exportSubgraph(id);
+		let exportVerification = await AuditableItemGraphExportVerifier.verifyExport(exported, {});
+		expect(exportVerification.vertices[0].failure).toEqual("changesetFailed");
+
+		await expect(
+			service.update(
+				id,
+				undefined,
+				[{ id: "baz789" }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY,
+				{ expectedRevision: 1 }
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "auditableItemGraphService.updateFailed",
+			cause: { name: "ConflictError", message: "auditableItemGraphService.revisionMismatch" }
+		});
+		await service.update(
+			id,
+			undefined,
+			[{ id: "baz789" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY,
+			{ expectedRevision: 2 }
+		);
+
+		await waitForProofGeneration(3);
+
+		expect(vertexStorage.getStore()[0].revision).toEqual(3);
+
+		const result = await service.get(id, {
+			includeChangesets: true,
+			verifySignatureDepth: VerifyDepth.Current
+		});
+		expect(result.verified).toEqual(true);
+		expect(result.changesets?.map(c => c.chainFailure)).toEqual([undefined, undefined, undefined]);
+
+		const asOf = await service.get(id, {
+			asOf: result.changesets?.[2].id
+		});
+		expect(asOf.revision).toEqual(3);
+
+		exported = await service.exportSubgraph(id);
+		exportVerification = await AuditableItemGraphExportVerifier.verifyExport(exported, {});
+		expect(exportVerification.vertices[0].failure).toEqual("changesetFailed");
+	});
+
+	test("Can detect gaps and reorderings in the changeset chain of a verification bundle", async () => {
+		const service = new AuditableItemGraphService();
+
+		const id = await service.create(
+			undefined,
+			[{ id: "foo123" }],
+			undefined,
+			undefined,
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		for (const aliasId of ["bar456", "baz789"]) {
+			await service.update(
+				id,
+				undefined,
+				[{ id: aliasId }],
+				undefined,
+				undefined,
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			);
+		}
+
+		await waitForProofGeneration(3);
+
+		const bundle = await service.getVerificationBundle(id);
+		const verificationKeys = await getVerificationKeys();
+		const [first, second, third] = bundle.entries;
+
+		let verification = await AuditableItemGraphBundleVerifier.verifyBundle(
+			bundle,
+			verificationKeys
+		);
+		expect(verification.verified).toEqual(true);
+
+		expect(bundle.lastChangesetId).toEqual(third.changeset.id);
+		expect(bundle.lastChangesetHash).toBeDefined();
+
+		bundle.entries = [first, second];
+		verification = await AuditableItemGraphBundleVerifier.verifyBundle(bundle, verificationKeys);
+		expect(verification.verified).toEqual(false);
+		expect(verification.changesets.map(c => c.chainFailure)).toEqual([undefined, "gap"]);
+
+		bundle.entries = [];
+		verification = await AuditableItemGraphBundleVerifier.verifyBundle(bundle, verificationKeys);
+		expect(verification).toEqual({ verified: false, changesets: [] });
+
+		bundle.entries = [first, third];
+		verification = await AuditableItemGraphBundleVerifier.verifyBundle(bundle, verificationKeys);
+		expect(verification.verified).toEqual(false);
+		expect(verification.changesets.map(c => c.chainFailure)).toEqual([undefined, "gap"]);
+
+		bundle.entries = [first, third, second];
+		verification = await AuditableItemGraphBundleVerifier.verifyBundle(bundle, verificationKeys);
+		expect(verification.verified).toEqual(false);
+		expect(verification.changesets.map(c => c.chainFailure)).toEqual([
+			undefined,
+			"reordered",
+			"reordered"
+		]);
+	});
 });